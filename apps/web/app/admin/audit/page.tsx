@@ -0,0 +1,245 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import AdminHeader from "@/components/admin/AdminHeader";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "";
+
+type AuditEntry = {
+  id: string;
+  timestamp: string;
+  action: string;
+  actorEmail: string;
+  actorRole: string;
+  table: string | null;
+  recordId: string | null;
+  field: string | null;
+  before: string | null;
+  after: string | null;
+  requestId: string | null;
+  details: string | null;
+};
+
+type Filters = {
+  actor: string;
+  recordId: string;
+  field: string;
+  action: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: Filters = { actor: "", recordId: "", field: "", action: "", from: "", to: "" };
+
+const ACTION_OPTIONS = [
+  { value: "", label: "All actions" },
+  { value: "record.update", label: "Record edits" },
+  { value: "visibility.upsert", label: "Visibility rules" },
+  { value: "impersonation.start", label: "View as LP started" },
+  { value: "impersonation.end", label: "View as LP ended" },
+];
+
+function buildQuery(filters: Filters) {
+  const params = new URLSearchParams();
+  if (filters.actor) params.set("actor", filters.actor);
+  if (filters.recordId) params.set("recordId", filters.recordId);
+  if (filters.field) params.set("field", filters.field);
+  if (filters.action) params.set("action", filters.action);
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59`).toISOString());
+  return params;
+}
+
+function formatTimestamp(value: string) {
+  const date = new Date(value);
+  return Number.isNaN(+date) ? value || "—" : date.toLocaleString();
+}
+
+function ValueCell({ value }: { value: string | null }) {
+  if (!value) return <span className="text-slate-400">—</span>;
+  return (
+    <span className="block max-w-xs truncate font-mono text-xs" title={value}>
+      {value}
+    </span>
+  );
+}
+
+export default function AdminAuditPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [status, setStatus] = useState("Idle");
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadEntries = useCallback(async (active: Filters) => {
+    try {
+      setStatus("Refreshing…");
+      const res = await fetch(`${API_BASE}/api/admin/audit?${buildQuery(active).toString()}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+      const json = await res.json();
+      setEntries(json.entries || []);
+      setStatus("Idle");
+    } catch (e) {
+      console.error(e);
+      setStatus("Error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries(filters);
+  }, [filters, loadEntries]);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setFilters(draft);
+  };
+
+  const updateDraft = (key: keyof Filters) => (value: string) => setDraft((current) => ({ ...current, [key]: value }));
+
+  const params = buildQuery(filters);
+  params.set("format", "csv");
+  const exportHref = `${API_BASE}/api/admin/audit?${params.toString()}`;
+
+  return (
+    <div className="min-h-screen bg-white text-slate-900">
+      <AdminHeader title="Audit Log">
+        <a href={exportHref} className="rounded-lg border px-3 py-1 text-sm hover:bg-blue-50">
+          Export CSV
+        </a>
+        <span className="text-sm text-gray-500">Refresh: {status}</span>
+      </AdminHeader>
+
+      <main className="mx-auto max-w-7xl space-y-6 px-6 py-6">
+        <form
+          onSubmit={handleSubmit}
+          className="grid gap-3 rounded-2xl border p-4 shadow-sm md:grid-cols-[repeat(6,minmax(0,1fr))_auto] md:items-end"
+        >
+          {(
+            [
+              ["actor", "User", "text", "name@example.com"],
+              ["recordId", "Record ID", "text", "rec…"],
+              ["field", "Field", "text", "Current NAV"],
+            ] as const
+          ).map(([key, label, type, placeholder]) => (
+            <label key={key} className="space-y-1 text-sm">
+              <span className="font-medium text-slate-700">{label}</span>
+              <input
+                type={type}
+                value={draft[key]}
+                onChange={(e) => updateDraft(key)(e.target.value)}
+                placeholder={placeholder}
+                className="w-full rounded-xl border px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-200"
+              />
+            </label>
+          ))}
+          <label className="space-y-1 text-sm">
+            <span className="font-medium text-slate-700">Action</span>
+            <select
+              value={draft.action}
+              onChange={(e) => updateDraft("action")(e.target.value)}
+              className="w-full rounded-xl border px-3 py-2 shadow-sm"
+            >
+              {ACTION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="font-medium text-slate-700">From</span>
+            <input
+              type="date"
+              value={draft.from}
+              onChange={(e) => updateDraft("from")(e.target.value)}
+              className="w-full rounded-xl border px-3 py-2 shadow-sm"
+            />
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="font-medium text-slate-700">To</span>
+            <input
+              type="date"
+              value={draft.to}
+              onChange={(e) => updateDraft("to")(e.target.value)}
+              className="w-full rounded-xl border px-3 py-2 shadow-sm"
+            />
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-blue-700"
+            >
+              Filter
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setDraft(EMPTY_FILTERS);
+                setFilters(EMPTY_FILTERS);
+              }}
+              className="rounded-lg border px-3 py-2 text-sm hover:bg-slate-50"
+            >
+              Clear
+            </button>
+          </div>
+        </form>
+
+        <div className="overflow-auto rounded-2xl border shadow-sm">
+          <table className="min-w-full border-collapse">
+            <thead className="bg-blue-50">
+              <tr>
+                {["When", "User", "Action", "Table", "Record", "Field", "Before", "After", "Request"].map((label) => (
+                  <th key={label} className="border-b px-3 py-2 text-left text-sm font-semibold text-slate-700">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={9} className="px-3 py-10 text-center text-gray-400">
+                    Loading…
+                  </td>
+                </tr>
+              ) : entries.length === 0 ? (
+                <tr>
+                  <td colSpan={9} className="px-3 py-10 text-center text-gray-400">
+                    No audit entries match these filters
+                  </td>
+                </tr>
+              ) : (
+                entries.map((entry) => (
+                  <tr key={entry.id} className="align-top hover:bg-blue-50/40">
+                    <td className="whitespace-nowrap px-3 py-2 text-sm text-slate-700">
+                      {formatTimestamp(entry.timestamp)}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-slate-700">
+                      {entry.actorEmail}
+                      <span className="block text-xs text-slate-400">{entry.actorRole}</span>
+                    </td>
+                    <td className="px-3 py-2 text-sm text-slate-700">{entry.action}</td>
+                    <td className="px-3 py-2 text-sm text-slate-700">{entry.table || "—"}</td>
+                    <td className="px-3 py-2 font-mono text-xs text-slate-700">{entry.recordId || "—"}</td>
+                    <td className="px-3 py-2 text-sm text-slate-700">{entry.field || "—"}</td>
+                    <td className="px-3 py-2 text-slate-700">
+                      <ValueCell value={entry.before} />
+                    </td>
+                    <td className="px-3 py-2 text-slate-700">
+                      <ValueCell value={entry.after} />
+                    </td>
+                    <td className="px-3 py-2 text-slate-700">
+                      <ValueCell value={entry.requestId} />
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
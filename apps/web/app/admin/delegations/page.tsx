@@ -0,0 +1,281 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import AdminHeader from "@/components/admin/AdminHeader";
+import ContactPicker, { type ContactMatch } from "@/components/admin/ContactPicker";
+import { formatDate } from "@/lib/format";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "";
+
+type DelegationScope = "read-only" | "documents-only" | "specific-funds";
+
+type Delegation = {
+  id: string;
+  grantorContactId: string;
+  grantorName: string;
+  delegateEmail: string;
+  scope: DelegationScope;
+  fundIds: string[];
+  expiresAt: string | null;
+  grantedBy: string | null;
+  grantedAt: string | null;
+  notes: string | null;
+  active: boolean;
+};
+
+type Fund = { id: string; name: string };
+
+const SCOPE_OPTIONS: { value: DelegationScope; label: string; description: string }[] = [
+  { value: "read-only", label: "Read-only", description: "Sees everything the investor sees." },
+  { value: "documents-only", label: "Documents only", description: "Sees documents, not balances or performance." },
+  { value: "specific-funds", label: "Specific funds", description: "Sees the investor's positions in the chosen funds." },
+];
+
+function scopeLabel(scope: DelegationScope) {
+  return SCOPE_OPTIONS.find((option) => option.value === scope)?.label ?? scope;
+}
+
+export default function AdminDelegationsPage() {
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  const [funds, setFunds] = useState<Fund[]>([]);
+  const [status, setStatus] = useState("Idle");
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const [grantor, setGrantor] = useState<ContactMatch | null>(null);
+  const [delegateEmail, setDelegateEmail] = useState("");
+  const [scope, setScope] = useState<DelegationScope>("read-only");
+  const [fundIds, setFundIds] = useState<string[]>([]);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const fundNames = useMemo(() => new Map(funds.map((fund) => [fund.id, fund.name])), [funds]);
+
+  const loadDelegations = useCallback(async () => {
+    try {
+      setStatus("Refreshing…");
+      const res = await fetch(`${API_BASE}/api/admin/delegations`, { cache: "no-store" });
+      if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+      const json = await res.json();
+      setDelegations(json.delegations || []);
+      setFunds(json.funds || []);
+      setStatus("Idle");
+    } catch (e) {
+      console.error(e);
+      setStatus("Error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDelegations();
+  }, [loadDelegations]);
+
+  const resetForm = () => {
+    setGrantor(null);
+    setDelegateEmail("");
+    setScope("read-only");
+    setFundIds([]);
+    setExpiresAt("");
+    setNotes("");
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!grantor) return;
+    setErrorMessage(null);
+    const res = await fetch(`${API_BASE}/api/admin/delegations`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        grantorContactId: grantor.id,
+        delegateEmail,
+        scope,
+        fundIds: scope === "specific-funds" ? fundIds : [],
+        expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : null,
+        notes,
+      }),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      setErrorMessage(err?.error || "Failed to save delegation.");
+      return;
+    }
+    resetForm();
+    await loadDelegations();
+  };
+
+  const revoke = async (delegation: Delegation) => {
+    if (!window.confirm(`Revoke ${delegation.delegateEmail}'s access to ${delegation.grantorName}?`)) return;
+    setErrorMessage(null);
+    const res = await fetch(`${API_BASE}/api/admin/delegations?id=${encodeURIComponent(delegation.id)}`, {
+      method: "DELETE",
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      setErrorMessage(err?.error || "Failed to revoke delegation.");
+      return;
+    }
+    await loadDelegations();
+  };
+
+  const toggleFund = (id: string) => {
+    setFundIds((current) => (current.includes(id) ? current.filter((value) => value !== id) : [...current, id]));
+  };
+
+  const canSubmit = Boolean(grantor && delegateEmail && (scope !== "specific-funds" || fundIds.length));
+
+  return (
+    <div className="min-h-screen bg-white text-slate-900">
+      <AdminHeader title="Delegations">
+        <span className="text-sm text-gray-500">Refresh: {status}</span>
+      </AdminHeader>
+
+      <main className="mx-auto max-w-7xl space-y-6 px-6 py-6">
+        <form onSubmit={handleSubmit} className="space-y-4 rounded-2xl border p-4 shadow-sm">
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-1 text-sm">
+              <span className="font-medium text-slate-700">Investor (grantor)</span>
+              <ContactPicker value={grantor} onChange={setGrantor} />
+            </div>
+            <label className="space-y-1 text-sm">
+              <span className="font-medium text-slate-700">Delegate email</span>
+              <input
+                type="email"
+                required
+                value={delegateEmail}
+                onChange={(e) => setDelegateEmail(e.target.value)}
+                placeholder="advisor@example.com"
+                className="w-full rounded-xl border px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-200"
+              />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="font-medium text-slate-700">Scope</span>
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value as DelegationScope)}
+                className="w-full rounded-xl border px-3 py-2 shadow-sm"
+              >
+                {SCOPE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="font-medium text-slate-700">Expires</span>
+              <input
+                type="date"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                className="w-full rounded-xl border px-3 py-2 shadow-sm"
+              />
+            </label>
+          </div>
+
+          {scope === "specific-funds" ? (
+            <fieldset className="space-y-2 text-sm">
+              <legend className="font-medium text-slate-700">Funds</legend>
+              <div className="flex flex-wrap gap-2">
+                {funds.map((fund) => (
+                  <label key={fund.id} className="flex items-center gap-2 rounded-lg border px-3 py-1">
+                    <input type="checkbox" checked={fundIds.includes(fund.id)} onChange={() => toggleFund(fund.id)} />
+                    {fund.name}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          ) : null}
+
+          <div className="flex flex-col gap-3 md:flex-row md:items-end">
+            <label className="flex-1 space-y-1 text-sm">
+              <span className="font-medium text-slate-700">Notes</span>
+              <input
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Optional"
+                className="w-full rounded-xl border px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-200"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-blue-700 disabled:bg-blue-300"
+            >
+              Grant access
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">
+            {SCOPE_OPTIONS.find((option) => option.value === scope)?.description} Delegates can never change
+            anything, and lose access after the expiry date.
+          </p>
+        </form>
+
+        {errorMessage ? (
+          <div className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-600">{errorMessage}</div>
+        ) : null}
+
+        <div className="overflow-auto rounded-2xl border shadow-sm">
+          <table className="min-w-full border-collapse">
+            <thead className="bg-blue-50">
+              <tr>
+                {["Delegate", "Investor", "Scope", "Expires", "Granted By", "Notes", ""].map((label) => (
+                  <th key={label} className="border-b px-3 py-2 text-left text-sm font-semibold text-slate-700">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={7} className="px-3 py-10 text-center text-gray-400">
+                    Loading…
+                  </td>
+                </tr>
+              ) : delegations.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-3 py-10 text-center text-gray-400">
+                    No delegations granted
+                  </td>
+                </tr>
+              ) : (
+                delegations.map((delegation) => (
+                  <tr key={delegation.id} className={delegation.active ? "hover:bg-blue-50/40" : "text-slate-400"}>
+                    <td className="px-3 py-2 text-sm">{delegation.delegateEmail}</td>
+                    <td className="px-3 py-2 text-sm">{delegation.grantorName}</td>
+                    <td className="px-3 py-2 text-sm">
+                      {scopeLabel(delegation.scope)}
+                      {delegation.scope === "specific-funds" ? (
+                        <span className="block text-xs text-slate-500">
+                          {delegation.fundIds.map((id) => fundNames.get(id) ?? id).join(", ")}
+                        </span>
+                      ) : null}
+                    </td>
+                    <td className="px-3 py-2 text-sm">
+                      {delegation.expiresAt ? formatDate(delegation.expiresAt) : "Never"}
+                      {!delegation.active ? <span className="ml-2 text-xs font-semibold text-red-500">Expired</span> : null}
+                    </td>
+                    <td className="px-3 py-2 text-sm">{delegation.grantedBy || "—"}</td>
+                    <td className="px-3 py-2 text-sm">{delegation.notes || "—"}</td>
+                    <td className="px-3 py-2 text-right text-sm">
+                      <button
+                        type="button"
+                        onClick={() => revoke(delegation)}
+                        className="rounded-lg border px-3 py-1 text-red-600 hover:bg-red-50"
+                      >
+                        Revoke
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import AdminHeader from "@/components/admin/AdminHeader";
+import { formatDate } from "@/lib/format";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "";
+
+type DocumentType = "k1" | "pcap" | "capital-call" | "distribution" | "subscription" | "side-letter" | "other";
+
+type DocumentOpenStatus = {
+  contactId: string;
+  contactName: string;
+  contactEmail: string | null;
+  recordId: string;
+  investmentName: string;
+  field: string;
+  index: number;
+  documentName: string;
+  documentType: DocumentType;
+  opened: boolean;
+  openCount: number;
+  firstOpenedAt: string | null;
+  lastOpenedAt: string | null;
+};
+
+type Filters = {
+  from: string;
+  to: string;
+  types: DocumentType[];
+  status: "" | "opened" | "unopened";
+};
+
+const TYPE_OPTIONS: { value: DocumentType; label: string }[] = [
+  { value: "k1", label: "K-1" },
+  { value: "pcap", label: "PCAP" },
+  { value: "capital-call", label: "Capital call notice" },
+  { value: "distribution", label: "Distribution notice" },
+  { value: "subscription", label: "Subscription documents" },
+  { value: "side-letter", label: "Side letter" },
+  { value: "other", label: "Other" },
+];
+
+function typeLabel(type: DocumentType) {
+  return TYPE_OPTIONS.find((option) => option.value === type)?.label ?? type;
+}
+
+// Tax season starts with the new year.
+function defaultFilters(): Filters {
+  const year = new Date().getFullYear();
+  return { from: `${year}-01-01`, to: "", types: ["k1", "pcap", "subscription"], status: "" };
+}
+
+function buildQuery(filters: Filters) {
+  const params = new URLSearchParams();
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59`).toISOString());
+  if (filters.types.length) params.set("types", filters.types.join(","));
+  if (filters.status) params.set("status", filters.status);
+  return params;
+}
+
+export default function AdminDocumentAccessPage() {
+  const [rows, setRows] = useState<DocumentOpenStatus[]>([]);
+  const [draft, setDraft] = useState<Filters>(defaultFilters);
+  const [filters, setFilters] = useState<Filters>(defaultFilters);
+  const [status, setStatus] = useState("Idle");
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadReport = useCallback(async (active: Filters) => {
+    try {
+      setStatus("Refreshing…");
+      const res = await fetch(`${API_BASE}/api/admin/documents?${buildQuery(active).toString()}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+      const json = await res.json();
+      setRows(json.rows || []);
+      setStatus("Idle");
+    } catch (e) {
+      console.error(e);
+      setStatus("Error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport(filters);
+  }, [filters, loadReport]);
+
+  const totals = useMemo(() => {
+    const byType = new Map<DocumentType, { opened: number; total: number }>();
+    for (const row of rows) {
+      const entry = byType.get(row.documentType) ?? { opened: 0, total: 0 };
+      entry.total += 1;
+      if (row.opened) entry.opened += 1;
+      byType.set(row.documentType, entry);
+    }
+    return Array.from(byType.entries());
+  }, [rows]);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setFilters(draft);
+  };
+
+  const toggleType = (type: DocumentType) => {
+    setDraft((current) => ({
+      ...current,
+      types: current.types.includes(type) ? current.types.filter((value) => value !== type) : [...current.types, type],
+    }));
+  };
+
+  const exportParams = buildQuery(filters);
+  exportParams.set("format", "csv");
+
+  return (
+    <div className="min-h-screen bg-white text-slate-900">
+      <AdminHeader title="Document Access">
+        <a
+          href={`${API_BASE}/api/admin/documents?${exportParams.toString()}`}
+          className="rounded-lg border px-3 py-1 text-sm hover:bg-blue-50"
+        >
+          Export CSV
+        </a>
+        <span className="text-sm text-gray-500">Refresh: {status}</span>
+      </AdminHeader>
+
+      <main className="mx-auto max-w-7xl space-y-6 px-6 py-6">
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3 rounded-2xl border p-4 shadow-sm">
+          <label className="space-y-1 text-sm">
+            <span className="font-medium text-slate-700">Opened from</span>
+            <input
+              type="date"
+              value={draft.from}
+              onChange={(e) => setDraft((current) => ({ ...current, from: e.target.value }))}
+              className="w-full rounded-xl border px-3 py-2 shadow-sm"
+            />
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="font-medium text-slate-700">To</span>
+            <input
+              type="date"
+              value={draft.to}
+              onChange={(e) => setDraft((current) => ({ ...current, to: e.target.value }))}
+              className="w-full rounded-xl border px-3 py-2 shadow-sm"
+            />
+          </label>
+          <fieldset className="space-y-1 text-sm">
+            <legend className="font-medium text-slate-700">Documents</legend>
+            <div className="flex flex-wrap gap-2">
+              {TYPE_OPTIONS.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 rounded-lg border px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={draft.types.includes(option.value)}
+                    onChange={() => toggleType(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <label className="space-y-1 text-sm">
+            <span className="font-medium text-slate-700">Status</span>
+            <select
+              value={draft.status}
+              onChange={(e) => setDraft((current) => ({ ...current, status: e.target.value as Filters["status"] }))}
+              className="w-full rounded-xl border px-3 py-2 shadow-sm"
+            >
+              <option value="">All</option>
+              <option value="opened">Opened</option>
+              <option value="unopened">Not opened</option>
+            </select>
+          </label>
+          <button
+            type="submit"
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-blue-700"
+          >
+            Run report
+          </button>
+        </form>
+
+        {totals.length ? (
+          <div className="flex flex-wrap gap-3">
+            {totals.map(([type, counts]) => (
+              <div key={type} className="rounded-2xl border px-4 py-3 shadow-sm">
+                <p className="text-xs uppercase tracking-wide text-slate-500">{typeLabel(type)}</p>
+                <p className="text-lg font-semibold text-slate-900">
+                  {counts.opened} / {counts.total} opened
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        <div className="overflow-auto rounded-2xl border shadow-sm">
+          <table className="min-w-full border-collapse">
+            <thead className="bg-blue-50">
+              <tr>
+                {["Investor", "Investment", "Document", "Type", "Opened", "First Opened", "Last Opened"].map((label) => (
+                  <th key={label} className="border-b px-3 py-2 text-left text-sm font-semibold text-slate-700">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={7} className="px-3 py-10 text-center text-gray-400">
+                    Loading…
+                  </td>
+                </tr>
+              ) : rows.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-3 py-10 text-center text-gray-400">
+                    No documents match these filters
+                  </td>
+                </tr>
+              ) : (
+                rows.map((row) => (
+                  <tr
+                    key={`${row.contactId}-${row.recordId}-${row.field}-${row.index}`}
+                    className="hover:bg-blue-50/40"
+                  >
+                    <td className="px-3 py-2 text-sm text-slate-700">
+                      {row.contactName}
+                      {row.contactEmail ? <span className="block text-xs text-slate-400">{row.contactEmail}</span> : null}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-slate-700">{row.investmentName}</td>
+                    <td className="px-3 py-2 text-sm text-slate-700">{row.documentName}</td>
+                    <td className="px-3 py-2 text-sm text-slate-700">{typeLabel(row.documentType)}</td>
+                    <td className="px-3 py-2 text-sm">
+                      {row.opened ? (
+                        <span className="font-medium text-emerald-600">Yes ({row.openCount})</span>
+                      ) : (
+                        <span className="font-medium text-red-600">No</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-slate-700">{formatDate(row.firstOpenedAt)}</td>
+                    <td className="px-3 py-2 text-sm text-slate-700">{formatDate(row.lastOpenedAt)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -8,11 +8,14 @@ import {
   useState,
 } from "react";
 import type { ReactNode } from "react";
+import AdminHeader from "@/components/admin/AdminHeader";
+import ConflictDialog from "@/components/admin/ConflictDialog";
 import ColumnManager, {
   type ColumnDescriptor,
   type ColumnLayout,
 } from "@/components/admin/ColumnManager";
 import type { VisibilityRule } from "@/components/admin/types";
+import ViewAsLpButton from "@/components/admin/ViewAsLpButton";
 import {
   ColumnDef,
   flexRender,
@@ -22,6 +25,7 @@ import {
   useReactTable,
 } from "@tanstack/react-table";
 import { useVirtualizer } from "@tanstack/react-virtual";
+import type { ConflictResponse, FieldDiff } from "@/lib/record-conflicts";
 import {
   formatCurrencyUSD,
   formatDate,
@@ -85,6 +89,15 @@ type FieldValueType =
   | "text"
   | "array";
 
+type SaveOutcome = "saved" | "conflict" | "error";
+
+type PendingConflict = {
+  record: AirtableRecord;
+  group: FieldGroup;
+  value: any;
+  diff: FieldDiff[];
+};
+
 type FieldGroup = {
   normalized: string;
   fieldNames: string[];
@@ -542,6 +555,8 @@ export default function AdminPage() {
   const [status, setStatus] = useState("Idle");
   const [isLoading, setIsLoading] = useState(true);
   const [impersonation, setImpersonation] = useState<Role>("Admin");
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+  const [resolvingConflict, setResolvingConflict] = useState(false);
   const [rules, setRules] = useState<Record<string, VisibilityRule>>({});
   const [layoutState, setLayoutState] = useState<ColumnLayout | null>(null);
   const [sorting, setSorting] = useState<SortingState>([
@@ -785,14 +800,15 @@ export default function AdminPage() {
   );
 
   const saveField = useCallback(
-    async (record: AirtableRecord, group: FieldGroup, value: any) => {
+    async (record: AirtableRecord, group: FieldGroup, value: any): Promise<SaveOutcome> => {
       const fieldId = resolveWriteFieldId(record, group);
-      if (!fieldId) return;
+      if (!fieldId) return "error";
       const body = {
         tableIdOrName: MAIN_TABLE,
         recordId: record.id,
         fields: { [fieldId]: value },
         lastSeenModifiedTime: record._updatedTime || null,
+        baseFields: { [fieldId]: record.fields?.[fieldId] ?? null },
       };
       const res = await fetch(`${API_BASE}/api/record`, {
         method: "PUT",
@@ -801,17 +817,17 @@ export default function AdminPage() {
       });
       if (!res.ok) {
         if (res.status === 409) {
-          const fresh = await res.json();
+          const { latest, diff } = (await res.json()) as ConflictResponse;
           setRaw((prev) =>
-            prev.map((r) => (r.id === record.id ? fresh : r))
+            prev.map((r) => (r.id === record.id ? latest : r))
           );
-          alert("Record was updated elsewhere. Refreshed row.");
-        } else {
-          const err = await res.json().catch(() => ({}));
-          console.error("Failed to save field", err);
-          alert("Failed to save field. Please try again.");
+          setConflict({ record: latest, group, value, diff });
+          return "conflict";
         }
-        return;
+        const err = await res.json().catch(() => ({}));
+        console.error("Failed to save field", err);
+        alert("Failed to save field. Please try again.");
+        return "error";
       }
       const updated = await res.json();
       setRaw((prev) =>
@@ -826,10 +842,31 @@ export default function AdminPage() {
           };
         })
       );
+      return "saved";
     },
     [resolveWriteFieldId]
   );
 
+  // The row already shows the other admin's values once a conflict comes
+  // back, so keeping theirs just closes the dialog.
+  const keepMine = useCallback(async () => {
+    if (!conflict) return;
+    setResolvingConflict(true);
+    const outcome = await saveField(conflict.record, conflict.group, conflict.value);
+    setResolvingConflict(false);
+    if (outcome !== "conflict") setConflict(null);
+  }, [conflict, saveField]);
+
+  const formatConflictValue = useCallback(
+    (field: string, value: unknown) => {
+      const group = fieldGroups.map.get(normalizeFieldKey(field));
+      if (group) return formatValueForCsv(group, value);
+      if (value === undefined || value === null) return "";
+      return typeof value === "string" ? value : JSON.stringify(value);
+    },
+    [fieldGroups.map]
+  );
+
   const updateRuleVisibility = useCallback(
     async (
       normalizedId: string,
@@ -1070,29 +1107,20 @@ export default function AdminPage() {
 
   return (
     <div className="min-h-screen bg-white text-slate-900">
-      <header className="sticky top-0 z-10 border-b bg-white/90 backdrop-blur">
-        <div className="mx-auto flex max-w-7xl items-center gap-4 px-6 py-4">
-          <div className="flex items-center gap-2">
-            <div className="h-7 w-7 rounded bg-[#2563EB]" />
-            <h1 className="text-xl font-semibold">JBV Investment Platform</h1>
-            <span className="text-gray-400">·</span>
-            <span className="text-slate-600">Admin · Partner Investments</span>
-          </div>
-          <div className="ml-auto flex items-center gap-3">
-            <select
-              className="rounded-lg border px-2 py-1"
-              value={impersonation}
-              onChange={(e) => setImpersonation(e.target.value as Role)}
-              title="Impersonation Preview"
-            >
-              <option value="Admin">Admin</option>
-              <option value="LP">LP</option>
-              <option value="Partner">Partner</option>
-            </select>
-            <span className="text-sm text-gray-500">Refresh: {status}</span>
-          </div>
-        </div>
-      </header>
+      <AdminHeader title="Partner Investments">
+        <select
+          className="rounded-lg border px-2 py-1"
+          value={impersonation}
+          onChange={(e) => setImpersonation(e.target.value as Role)}
+          title="Column preview by role"
+        >
+          <option value="Admin">Admin</option>
+          <option value="LP">LP</option>
+          <option value="Partner">Partner</option>
+        </select>
+        <ViewAsLpButton />
+        <span className="text-sm text-gray-500">Refresh: {status}</span>
+      </AdminHeader>
 
       <main className="mx-auto max-w-7xl px-6 py-6">
         <div className="mb-4 flex flex-col gap-3 md:flex-row md:items-center md:gap-4">
@@ -1209,6 +1237,24 @@ export default function AdminPage() {
           </table>
         </div>
       </main>
+      {conflict ? (
+        <ConflictDialog
+          recordLabel={
+            String(
+              getFieldValueByNames(
+                conflict.record,
+                fieldGroups.map.get(INVESTMENT_KEY)?.fieldNames || ["Partner Investment"],
+                INVESTMENT_KEY
+              ) || "This record"
+            )
+          }
+          diff={conflict.diff}
+          formatValue={formatConflictValue}
+          saving={resolvingConflict}
+          onKeepMine={keepMine}
+          onKeepTheirs={() => setConflict(null)}
+        />
+      ) : null}
     </div>
   );
 }
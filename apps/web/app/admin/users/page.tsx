@@ -0,0 +1,223 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import AdminHeader from "@/components/admin/AdminHeader";
+import { formatDate } from "@/lib/format";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "";
+
+type PortalRole = "admin" | "read-only-admin" | "partner" | "lp";
+
+type PortalUser = {
+  id: string;
+  email: string;
+  role: PortalRole;
+  grantedBy: string | null;
+  grantedAt: string | null;
+  notes: string | null;
+};
+
+const ROLE_OPTIONS: { value: PortalRole; label: string; description: string }[] = [
+  { value: "admin", label: "Admin", description: "Full access, including edits and visibility rules." },
+  { value: "read-only-admin", label: "Read-only admin", description: "Sees every field, cannot change anything." },
+  { value: "partner", label: "Partner", description: "LP portal with the Partner visibility rules." },
+  { value: "lp", label: "LP", description: "LP portal with the LP visibility rules." },
+];
+
+function roleLabel(role: PortalRole) {
+  return ROLE_OPTIONS.find((option) => option.value === role)?.label ?? role;
+}
+
+export default function AdminUsersPage() {
+  const [users, setUsers] = useState<PortalUser[]>([]);
+  const [status, setStatus] = useState("Idle");
+  const [isLoading, setIsLoading] = useState(true);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<PortalRole>("lp");
+  const [notes, setNotes] = useState("");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setStatus("Refreshing…");
+      const res = await fetch(`${API_BASE}/api/admin/users`, { cache: "no-store" });
+      if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+      const json = await res.json();
+      setUsers(json.users || []);
+      setStatus("Idle");
+    } catch (e) {
+      console.error(e);
+      setStatus("Error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const grant = async (payload: { email: string; role: PortalRole; notes?: string | null }) => {
+    setErrorMessage(null);
+    const res = await fetch(`${API_BASE}/api/admin/users`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      setErrorMessage(err?.error || "Failed to save user.");
+      return false;
+    }
+    await loadUsers();
+    return true;
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const saved = await grant({ email, role, notes });
+    if (saved) {
+      setEmail("");
+      setNotes("");
+      setRole("lp");
+    }
+  };
+
+  const revoke = async (user: PortalUser) => {
+    if (!window.confirm(`Revoke ${roleLabel(user.role)} access for ${user.email}?`)) return;
+    setErrorMessage(null);
+    const res = await fetch(`${API_BASE}/api/admin/users?email=${encodeURIComponent(user.email)}`, {
+      method: "DELETE",
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      setErrorMessage(err?.error || "Failed to revoke access.");
+      return;
+    }
+    await loadUsers();
+  };
+
+  return (
+    <div className="min-h-screen bg-white text-slate-900">
+      <AdminHeader title="Users">
+        <span className="text-sm text-gray-500">Refresh: {status}</span>
+      </AdminHeader>
+
+      <main className="mx-auto max-w-7xl space-y-6 px-6 py-6">
+        <form
+          onSubmit={handleSubmit}
+          className="grid gap-3 rounded-2xl border p-4 shadow-sm md:grid-cols-[2fr_1fr_2fr_auto] md:items-end"
+        >
+          <label className="space-y-1 text-sm">
+            <span className="font-medium text-slate-700">Email</span>
+            <input
+              type="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="investor@example.com"
+              className="w-full rounded-xl border px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-200"
+            />
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="font-medium text-slate-700">Role</span>
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as PortalRole)}
+              className="w-full rounded-xl border px-3 py-2 shadow-sm"
+            >
+              {ROLE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="font-medium text-slate-700">Notes</span>
+            <input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Optional"
+              className="w-full rounded-xl border px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-200"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={!email}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-blue-700 disabled:bg-blue-300"
+          >
+            Grant role
+          </button>
+          <p className="text-xs text-slate-500 md:col-span-4">
+            {ROLE_OPTIONS.find((option) => option.value === role)?.description} Emails without an entry sign in as LPs.
+          </p>
+        </form>
+
+        {errorMessage ? (
+          <div className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-600">{errorMessage}</div>
+        ) : null}
+
+        <div className="overflow-auto rounded-2xl border shadow-sm">
+          <table className="min-w-full border-collapse">
+            <thead className="bg-blue-50">
+              <tr>
+                {["Email", "Role", "Granted By", "Granted", "Notes", ""].map((label) => (
+                  <th key={label} className="border-b px-3 py-2 text-left text-sm font-semibold text-slate-700">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-3 py-10 text-center text-gray-400">
+                    Loading…
+                  </td>
+                </tr>
+              ) : users.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-3 py-10 text-center text-gray-400">
+                    No users in the directory
+                  </td>
+                </tr>
+              ) : (
+                users.map((user) => (
+                  <tr key={user.id} className="hover:bg-blue-50/40">
+                    <td className="px-3 py-2 text-sm text-slate-700">{user.email}</td>
+                    <td className="px-3 py-2 text-sm text-slate-700">
+                      <select
+                        value={user.role}
+                        onChange={(e) => grant({ email: user.email, role: e.target.value as PortalRole, notes: user.notes })}
+                        className="rounded-lg border px-2 py-1"
+                      >
+                        {ROLE_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2 text-sm text-slate-700">{user.grantedBy || "—"}</td>
+                    <td className="px-3 py-2 text-sm text-slate-700">{formatDate(user.grantedAt)}</td>
+                    <td className="px-3 py-2 text-sm text-slate-700">{user.notes || "—"}</td>
+                    <td className="px-3 py-2 text-right text-sm">
+                      <button
+                        type="button"
+                        onClick={() => revoke(user)}
+                        className="rounded-lg border px-3 py-1 text-red-600 hover:bg-red-50"
+                      >
+                        Revoke
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+}
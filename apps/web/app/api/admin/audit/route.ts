@@ -0,0 +1,60 @@
+import { listAuditEntries, type AuditEntry } from "@/lib/audit";
+import { authorizeRequest } from "@/lib/authz";
+import { rowsToCsv } from "@/lib/csv-shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const CSV_COLUMNS: Array<[string, keyof AuditEntry]> = [
+  ["Timestamp", "timestamp"],
+  ["Action", "action"],
+  ["Actor Email", "actorEmail"],
+  ["Actor Role", "actorRole"],
+  ["Table", "table"],
+  ["Record ID", "recordId"],
+  ["Field", "field"],
+  ["Before", "before"],
+  ["After", "after"],
+  ["Request ID", "requestId"],
+  ["Details", "details"],
+];
+
+export async function GET(req: Request) {
+  const auth = await authorizeRequest("audit:read");
+  if (auth instanceof Response) return auth;
+
+  const params = new URL(req.url).searchParams;
+  const format = params.get("format");
+  const limit = Number.parseInt(params.get("limit") || "", 10);
+
+  try {
+    const entries = await listAuditEntries({
+      actor: params.get("actor"),
+      recordId: params.get("recordId"),
+      field: params.get("field"),
+      action: params.get("action"),
+      from: params.get("from"),
+      to: params.get("to"),
+      limit: Number.isFinite(limit) ? limit : format === "csv" ? 5000 : undefined,
+    });
+
+    if (format === "csv") {
+      const rows = [
+        CSV_COLUMNS.map(([label]) => label),
+        ...entries.map((entry) => CSV_COLUMNS.map(([, key]) => String(entry[key] ?? ""))),
+      ];
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      return new Response(rowsToCsv(rows), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return Response.json({ entries });
+  } catch (error: any) {
+    console.error("[admin-audit] Failed to load audit log", error);
+    return Response.json({ error: error?.message || "Failed to load audit log" }, { status: 500 });
+  }
+}
@@ -0,0 +1,12 @@
+import { authorizeRequest } from "@/lib/authz";
+import { getCacheMetrics } from "@/lib/data-access";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Hit rates of the shared Airtable table cache since this process started.
+export async function GET() {
+  const auth = await authorizeRequest("data:read");
+  if (auth instanceof Response) return auth;
+  return Response.json(getCacheMetrics());
+}
@@ -0,0 +1,29 @@
+import { authorizeRequest } from "@/lib/authz";
+import { contactDisplayName, searchContacts } from "@/lib/lp-server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const auth = await authorizeRequest("data:read");
+  if (auth instanceof Response) return auth;
+
+  const query = new URL(req.url).searchParams.get("q")?.trim() || "";
+  if (query.length < 2) {
+    return Response.json({ contacts: [] });
+  }
+
+  try {
+    const contacts = await searchContacts(query);
+    return Response.json({
+      contacts: contacts.map((contact) => ({
+        id: contact.id,
+        name: String(contactDisplayName(contact)),
+        email: typeof contact.fields["Email"] === "string" ? contact.fields["Email"] : null,
+      })),
+    });
+  } catch (error: any) {
+    console.error("[admin-contacts] Failed to search contacts", error);
+    return Response.json({ error: error?.message || "Failed to search contacts" }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { authorizeRequest } from "@/lib/authz";
+import {
+  createDelegation,
+  isDelegationActive,
+  isDelegationScope,
+  listDelegations,
+  listFundEntities,
+  revokeDelegation,
+} from "@/lib/delegations";
+import { contactDisplayName, findContactsByIds } from "@/lib/lp-server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const auth = await authorizeRequest("delegations:read");
+  if (auth instanceof Response) return auth;
+
+  try {
+    const [delegations, funds] = await Promise.all([listDelegations(), listFundEntities()]);
+    const grantors = await findContactsByIds(delegations.map((delegation) => delegation.grantorContactId));
+    const grantorNames = new Map(grantors.map((contact) => [contact.id, String(contactDisplayName(contact))]));
+
+    return Response.json({
+      delegations: delegations.map((delegation) => ({
+        ...delegation,
+        grantorName: grantorNames.get(delegation.grantorContactId) ?? delegation.grantorContactId,
+        active: isDelegationActive(delegation),
+      })),
+      funds,
+    });
+  } catch (error: any) {
+    console.error("[admin-delegations] Failed to list delegations", error);
+    return Response.json({ error: error?.message || "Failed to load delegations" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const auth = await authorizeRequest("delegations:write");
+  if (auth instanceof Response) return auth;
+
+  const body = await req.json().catch(() => ({}));
+  const grantorContactId = typeof body?.grantorContactId === "string" ? body.grantorContactId.trim() : "";
+  const delegateEmail = typeof body?.delegateEmail === "string" ? body.delegateEmail.trim().toLowerCase() : "";
+  const scope = body?.scope;
+  const fundIds = Array.isArray(body?.fundIds)
+    ? body.fundIds.filter((id: unknown): id is string => typeof id === "string" && id.length > 0)
+    : [];
+  const expiresAt = typeof body?.expiresAt === "string" && body.expiresAt ? body.expiresAt : null;
+
+  if (!grantorContactId || !delegateEmail || !isDelegationScope(scope)) {
+    return Response.json({ error: "Bad request" }, { status: 400 });
+  }
+  if (scope === "specific-funds" && !fundIds.length) {
+    return Response.json({ error: "Choose at least one fund" }, { status: 400 });
+  }
+  if (expiresAt && Number.isNaN(Date.parse(expiresAt))) {
+    return Response.json({ error: "Invalid expiry date" }, { status: 400 });
+  }
+
+  try {
+    const delegation = await createDelegation({
+      grantorContactId,
+      delegateEmail,
+      scope,
+      fundIds,
+      expiresAt,
+      grantedBy: auth.email,
+      notes: typeof body?.notes === "string" ? body.notes : null,
+    });
+    return Response.json(delegation);
+  } catch (error: any) {
+    console.error("[admin-delegations] Failed to create delegation", error);
+    return Response.json({ error: error?.message || "Failed to create delegation" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  const auth = await authorizeRequest("delegations:write");
+  if (auth instanceof Response) return auth;
+
+  const id = new URL(req.url).searchParams.get("id")?.trim();
+  if (!id) {
+    return Response.json({ error: "Bad request" }, { status: 400 });
+  }
+
+  try {
+    const revoked = await revokeDelegation(id);
+    if (!revoked) {
+      return Response.json({ error: "Not found" }, { status: 404 });
+    }
+    return Response.json({ ok: true });
+  } catch (error: any) {
+    console.error("[admin-delegations] Failed to revoke delegation", error);
+    return Response.json({ error: error?.message || "Failed to revoke delegation" }, { status: 500 });
+  }
+}
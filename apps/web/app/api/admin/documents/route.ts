@@ -0,0 +1,70 @@
+import { authorizeRequest } from "@/lib/authz";
+import { rowsToCsv } from "@/lib/csv-shared";
+import { buildDocumentOpenReport, type DocumentOpenStatus } from "@/lib/document-access";
+import { DOCUMENT_CATEGORY_LABELS, isDocumentCategory, type DocumentCategory } from "@/lib/document-taxonomy";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const CSV_COLUMNS: Array<[string, (row: DocumentOpenStatus) => string]> = [
+  ["Investor", (row) => row.contactName],
+  ["Email", (row) => row.contactEmail ?? ""],
+  ["Investment", (row) => row.investmentName],
+  ["Document Type", (row) => DOCUMENT_CATEGORY_LABELS[row.documentType]],
+  ["Document", (row) => row.documentName],
+  ["Field", (row) => row.field],
+  ["Opened", (row) => (row.opened ? "Yes" : "No")],
+  ["Open Count", (row) => String(row.openCount)],
+  ["First Opened", (row) => row.firstOpenedAt ?? ""],
+  ["Last Opened", (row) => row.lastOpenedAt ?? ""],
+  ["Record ID", (row) => row.recordId],
+];
+
+function parseTypes(value: string | null): DocumentCategory[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((type) => type.trim())
+    .filter(isDocumentCategory);
+}
+
+export async function GET(req: Request) {
+  const auth = await authorizeRequest("audit:read");
+  if (auth instanceof Response) return auth;
+
+  const params = new URL(req.url).searchParams;
+  const status = params.get("status");
+
+  try {
+    const report = await buildDocumentOpenReport({
+      from: params.get("from"),
+      to: params.get("to"),
+      types: parseTypes(params.get("types")),
+    });
+    const rows =
+      status === "opened"
+        ? report.filter((row) => row.opened)
+        : status === "unopened"
+          ? report.filter((row) => !row.opened)
+          : report;
+
+    if (params.get("format") === "csv") {
+      const csv = rowsToCsv([
+        CSV_COLUMNS.map(([label]) => label),
+        ...rows.map((row) => CSV_COLUMNS.map(([, value]) => value(row))),
+      ]);
+      const filename = `document-access-${new Date().toISOString().slice(0, 10)}.csv`;
+      return new Response(csv, {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return Response.json({ rows });
+  } catch (error: any) {
+    console.error("[admin-documents] Failed to build document access report", error);
+    return Response.json({ error: error?.message || "Failed to load report" }, { status: 500 });
+  }
+}
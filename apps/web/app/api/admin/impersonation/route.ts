@@ -0,0 +1,88 @@
+import { recordAuditEvent } from "@/lib/audit";
+import { authorizeRequest } from "@/lib/authz";
+import { endImpersonation, getImpersonation, startImpersonation } from "@/lib/impersonation";
+import { contactDisplayName, findContactsByIds } from "@/lib/lp-server";
+import { resolveUserRole } from "@/lib/user-directory";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(req: Request) {
+  const auth = await authorizeRequest("lp:impersonate");
+  if (auth instanceof Response) return auth;
+
+  const body = await req.json().catch(() => ({}));
+  const contactId = typeof body?.contactId === "string" ? body.contactId.trim() : "";
+  if (!contactId) {
+    return Response.json({ error: "Bad request" }, { status: 400 });
+  }
+
+  try {
+    const [contact] = await findContactsByIds([contactId]);
+    if (!contact) {
+      return Response.json({ error: "Contact not found" }, { status: 404 });
+    }
+
+    const contactEmail = typeof contact.fields["Email"] === "string" ? contact.fields["Email"].trim().toLowerCase() : null;
+    const contactRole = contactEmail ? await resolveUserRole(contactEmail) : "lp";
+    const previous = getImpersonation(auth.email);
+    const now = Date.now();
+
+    // A failed audit write below clears the cookie again, so no session goes unlogged.
+    if (previous) {
+      await recordAuditEvent({
+        action: "impersonation.end",
+        actorEmail: auth.email,
+        actorRole: auth.role,
+        table: "Contacts",
+        recordId: previous.contactId,
+        details: { sessionId: previous.sessionId, durationMs: now - previous.startedAt, reason: "replaced" },
+      });
+    }
+    const session = startImpersonation(auth.email, contact.id, now);
+    await recordAuditEvent({
+      action: "impersonation.start",
+      actorEmail: auth.email,
+      actorRole: auth.role,
+      table: "Contacts",
+      recordId: contact.id,
+      details: {
+        sessionId: session.sessionId,
+        contactName: contactDisplayName(contact),
+        contactRole,
+        expiresAt: new Date(session.expiresAt).toISOString(),
+      },
+    });
+
+    return Response.json({ ok: true, expiresAt: new Date(session.expiresAt).toISOString() });
+  } catch (error: any) {
+    console.error("[admin-impersonation] Failed to start impersonation", error);
+    endImpersonation();
+    return Response.json({ error: error?.message || "Failed to start impersonation" }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  const auth = await authorizeRequest("lp:impersonate");
+  if (auth instanceof Response) return auth;
+
+  const session = getImpersonation(auth.email);
+  endImpersonation();
+  if (!session) {
+    return Response.json({ ok: true });
+  }
+
+  try {
+    await recordAuditEvent({
+      action: "impersonation.end",
+      actorEmail: auth.email,
+      actorRole: auth.role,
+      table: "Contacts",
+      recordId: session.contactId,
+      details: { sessionId: session.sessionId, durationMs: Date.now() - session.startedAt },
+    });
+  } catch (error) {
+    console.error("[admin-impersonation] Failed to audit impersonation end", error);
+  }
+  return Response.json({ ok: true });
+}
@@ -0,0 +1,71 @@
+import { isRole } from "@/lib/auth-helpers";
+import { authorizeRequest } from "@/lib/authz";
+import { grantPortalRole, listPortalUsers, revokePortalUser } from "@/lib/user-directory";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const auth = await authorizeRequest("users:read");
+  if (auth instanceof Response) return auth;
+
+  try {
+    const users = await listPortalUsers();
+    return Response.json({ users });
+  } catch (error: any) {
+    console.error("[admin-users] Failed to list portal users", error);
+    return Response.json({ error: error?.message || "Failed to load users" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const auth = await authorizeRequest("users:write");
+  if (auth instanceof Response) return auth;
+
+  const body = await req.json().catch(() => ({}));
+  const email = typeof body?.email === "string" ? body.email.trim().toLowerCase() : "";
+  const role = body?.role;
+  if (!email || !isRole(role)) {
+    return Response.json({ error: "Bad request" }, { status: 400 });
+  }
+  if (email === auth.email.toLowerCase() && role !== "admin") {
+    return Response.json({ error: "You cannot remove your own admin role" }, { status: 400 });
+  }
+
+  try {
+    const user = await grantPortalRole({
+      email,
+      role,
+      grantedBy: auth.email,
+      notes: typeof body?.notes === "string" ? body.notes : null,
+    });
+    return Response.json(user);
+  } catch (error: any) {
+    console.error("[admin-users] Failed to grant role", error);
+    return Response.json({ error: error?.message || "Failed to grant role" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  const auth = await authorizeRequest("users:write");
+  if (auth instanceof Response) return auth;
+
+  const email = new URL(req.url).searchParams.get("email")?.trim().toLowerCase();
+  if (!email) {
+    return Response.json({ error: "Bad request" }, { status: 400 });
+  }
+  if (email === auth.email.toLowerCase()) {
+    return Response.json({ error: "You cannot revoke your own access" }, { status: 400 });
+  }
+
+  try {
+    const revoked = await revokePortalUser(email);
+    if (!revoked) {
+      return Response.json({ error: "Not found" }, { status: 404 });
+    }
+    return Response.json({ ok: true });
+  } catch (error: any) {
+    console.error("[admin-users] Failed to revoke role", error);
+    return Response.json({ error: error?.message || "Failed to revoke role" }, { status: 500 });
+  }
+}
@@ -0,0 +1,171 @@
+import { createHmac } from "crypto";
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { WebhookChangeHandler, WebhookContext, WebhookRecordChange } from "@/lib/airtable-webhooks";
+import pageAtCursor1 from "@/lib/__fixtures__/airtable-webhooks/payloads-cursor-1.json";
+import pageAtCursor3 from "@/lib/__fixtures__/airtable-webhooks/payloads-cursor-3.json";
+
+const handlers = vi.hoisted(() => ({ list: [] as WebhookChangeHandler[] }));
+
+vi.mock("@/lib/webhook-handlers", () => ({
+  get DEFAULT_WEBHOOK_HANDLERS() {
+    return handlers.list;
+  },
+}));
+
+const BASE_ID = "appJbvPortal00001";
+const WEBHOOK_ID = "achW3bhookJbv0001";
+const MAC_SECRET = Buffer.from("recorded-webhook-mac-secret").toString("base64");
+
+const dataDir = mkdtempSync(path.join(os.tmpdir(), "airtable-webhook-"));
+process.env.PORTAL_DATA_DIR = dataDir;
+process.env.AIRTABLE_BASE_ID = BASE_ID;
+process.env.NEXTAUTH_URL = "https://portal.example.com";
+
+const { POST } = await import("./route");
+const { readJson } = await import("@/lib/json-store");
+
+const pages: Record<string, unknown> = {
+  "1": pageAtCursor1,
+  "3": pageAtCursor3,
+  "5": { payloads: [], cursor: 5, mightHaveMore: false, payloadFormat: "v0" },
+};
+const fetchedCursors: string[] = [];
+
+function recordingHandler(name: string, failures = 0) {
+  const calls: Array<{ changes: WebhookRecordChange[]; context: WebhookContext }> = [];
+  let remainingFailures = failures;
+  const handler: WebhookChangeHandler = {
+    name,
+    async handle(changes, context) {
+      calls.push({ changes, context });
+      if (remainingFailures > 0) {
+        remainingFailures -= 1;
+        throw new Error(`${name} unavailable`);
+      }
+    },
+  };
+  return { handler, calls };
+}
+
+function ping(mac: string | null = null) {
+  const body = JSON.stringify({
+    base: { id: BASE_ID },
+    webhook: { id: WEBHOOK_ID },
+    timestamp: "2024-05-02T14:09:03.000Z",
+  });
+  const signature = mac ?? `hmac-sha256=${createHmac("sha256", Buffer.from(MAC_SECRET, "base64")).update(body).digest("hex")}`;
+  return POST(
+    new Request("https://portal.example.com/api/airtable-webhook", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Airtable-Content-MAC": signature },
+      body,
+    })
+  );
+}
+
+describe("POST /api/airtable-webhook", () => {
+  beforeEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+    fetchedCursors.length = 0;
+    process.env.AIRTABLE_WEBHOOK_MAC_SECRET = MAC_SECRET;
+    delete process.env.AIRTABLE_WEBHOOK_SECRET;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: string | URL) => {
+        const url = new URL(String(input));
+        expect(url.pathname).toBe(`/v0/bases/${BASE_ID}/webhooks/${WEBHOOK_ID}/payloads`);
+        const cursor = url.searchParams.get("cursor") ?? "";
+        fetchedCursors.push(cursor);
+        return pages[cursor] ? Response.json(pages[cursor]) : new Response("Not found", { status: 404 });
+      })
+    );
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("drains every page once and skips transactions it already processed", async () => {
+    const { handler, calls } = recordingHandler("recording");
+    handlers.list = [handler];
+
+    const response = await ping();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true, payloads: 3, skipped: 1, changes: 3 });
+    expect(fetchedCursors).toEqual(["1", "3"]);
+    expect(calls.map(({ changes }) => changes.map((change) => [change.transaction, change.kind, change.recordId]))).toEqual([
+      [[4181, "changed", "recInvestment0001"]],
+      [[4182, "created", "recInvestment0002"]],
+      [[4185, "destroyed", "recInvestment0003"]],
+    ]);
+    expect(calls[0].changes[0]).toMatchObject({
+      tableId: "tblPartnerInvest01",
+      source: "client",
+      actorEmail: "ops@jbv.example.com",
+      current: { fldTotalNav000001: 1250000 },
+      previous: { fldTotalNav000001: 1175000 },
+    });
+    expect(calls[0].context).toEqual({ portalUrl: "https://portal.example.com/lp/docs", retry: false });
+
+    const cursors = await readJson<Record<string, { cursor: number; lastTransaction: number }>>(
+      "airtable-webhook-cursors",
+      {}
+    );
+    expect(cursors[WEBHOOK_ID]).toMatchObject({ cursor: 5, lastTransaction: 4185 });
+
+    const again = await ping();
+    expect(await again.json()).toEqual({ ok: true, payloads: 0, skipped: 0, changes: 0 });
+    expect(fetchedCursors).toEqual(["1", "3", "5"]);
+    expect(calls).toHaveLength(3);
+  });
+
+  it("holds the cursor at a payload whose handler failed and retries only that handler", async () => {
+    const steady = recordingHandler("steady");
+    const flaky = recordingHandler("flaky", 1);
+    handlers.list = [steady.handler, flaky.handler];
+
+    const failed = await ping();
+    expect(failed.status).toBe(500);
+    expect(steady.calls).toHaveLength(1);
+    const cursors = await readJson<Record<string, { cursor: number; lastTransaction: number }>>(
+      "airtable-webhook-cursors",
+      {}
+    );
+    expect(cursors[WEBHOOK_ID]).toMatchObject({ cursor: 1, lastTransaction: 0 });
+
+    const retried = await ping();
+    expect(retried.status).toBe(200);
+    expect(await retried.json()).toEqual({ ok: true, payloads: 3, skipped: 1, changes: 3 });
+    expect(steady.calls.map(({ changes }) => changes[0].transaction)).toEqual([4181, 4182, 4185]);
+    expect(flaky.calls.map(({ changes, context }) => [changes[0].transaction, context.retry])).toEqual([
+      [4181, false],
+      [4181, true],
+      [4182, false],
+      [4185, false],
+    ]);
+  });
+
+  it("rejects a ping whose MAC does not match the body", async () => {
+    handlers.list = [recordingHandler("recording").handler];
+
+    const response = await ping(`hmac-sha256=${"0".repeat(64)}`);
+
+    expect(response.status).toBe(401);
+    expect(fetchedCursors).toEqual([]);
+  });
+
+  it("rejects every ping when no webhook secret is configured", async () => {
+    delete process.env.AIRTABLE_WEBHOOK_MAC_SECRET;
+    handlers.list = [recordingHandler("recording").handler];
+
+    const response = await ping();
+
+    expect(response.status).toBe(503);
+    expect(fetchedCursors).toEqual([]);
+  });
+});
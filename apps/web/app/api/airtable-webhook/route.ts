@@ -1,12 +1,61 @@
+import {
+  isWebhookNotification,
+  processWebhookNotification,
+  verifyWebhookSignature,
+} from "@/lib/airtable-webhooks";
+import { DEFAULT_WEBHOOK_HANDLERS } from "@/lib/webhook-handlers";
+
 export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
 
-export async function POST(req: Request) {
-  const secret = req.headers.get("x-airtable-webhook-secret");
-  if (process.env.AIRTABLE_WEBHOOK_SECRET && secret !== process.env.AIRTABLE_WEBHOOK_SECRET) {
-    return new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401 });
+function resolveOrigin(req: Request) {
+  return process.env.NEXTAUTH_URL || new URL(req.url).origin;
+}
+
+// Airtable signs each ping with the webhook's MAC secret. The older shared
+// header secret is still accepted when no MAC secret is configured. With
+// neither set, every ping is rejected.
+function isAuthentic(req: Request, rawBody: string) {
+  const macSecret = process.env.AIRTABLE_WEBHOOK_MAC_SECRET;
+  if (macSecret) {
+    return verifyWebhookSignature(rawBody, req.headers.get("x-airtable-content-mac"), macSecret);
   }
-  const body = await req.json().catch(() => ({}));
-  console.log("Webhook:", (body as any)?.tableName, (body as any)?.recordId);
-  return Response.json({ ok: true });
+  const sharedSecret = process.env.AIRTABLE_WEBHOOK_SECRET;
+  return Boolean(sharedSecret) && req.headers.get("x-airtable-webhook-secret") === sharedSecret;
 }
 
+export async function POST(req: Request) {
+  if (!process.env.AIRTABLE_WEBHOOK_MAC_SECRET && !process.env.AIRTABLE_WEBHOOK_SECRET) {
+    console.error("[airtable-webhook] Neither AIRTABLE_WEBHOOK_MAC_SECRET nor AIRTABLE_WEBHOOK_SECRET is set");
+    return Response.json({ error: "Webhook is not configured" }, { status: 503 });
+  }
+
+  const rawBody = await req.text();
+  if (!isAuthentic(req, rawBody)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  if (!isWebhookNotification(body)) {
+    return Response.json({ error: "Unrecognized webhook notification" }, { status: 400 });
+  }
+  if (process.env.AIRTABLE_BASE_ID && body.base.id !== process.env.AIRTABLE_BASE_ID) {
+    return Response.json({ error: "Unknown base" }, { status: 400 });
+  }
+
+  try {
+    const result = await processWebhookNotification(body, DEFAULT_WEBHOOK_HANDLERS, {
+      portalUrl: new URL("/lp/docs", resolveOrigin(req)).toString(),
+    });
+    return Response.json({ ok: true, ...result });
+  } catch (error: any) {
+    // The cursor only advances past processed payloads, so the next ping retries.
+    console.error("[airtable-webhook] Failed to process webhook payloads", error);
+    return Response.json({ error: error?.message || "Failed to process webhook" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  MAGIC_LINK_RESEND_COOLDOWN_MS,
+  buildMagicLinkUrl,
+  createMagicLinkToken,
+  sendMagicLinkEmail,
+} from "@/lib/magic-link";
+import { canSignIn } from "@/lib/user-directory";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Last send per address, for the resend cooldown. Entries past the cooldown
+// are swept once the map grows, so it stays bounded by recent requests.
+const lastSentAt = new Map<string, number>();
+const SWEEP_THRESHOLD = 500;
+
+function rememberSend(email: string, now: number) {
+  if (lastSentAt.size >= SWEEP_THRESHOLD) {
+    lastSentAt.forEach((sentAt, key) => {
+      if (now - sentAt >= MAGIC_LINK_RESEND_COOLDOWN_MS) lastSentAt.delete(key);
+    });
+  }
+  lastSentAt.set(email, now);
+}
+
+function resolveOrigin(req: Request) {
+  return process.env.NEXTAUTH_URL || new URL(req.url).origin;
+}
+
+// Only same-origin relative callbacks are forwarded into the emailed link.
+function sanitizeCallbackUrl(value: unknown) {
+  if (typeof value !== "string" || !value.startsWith("/") || value.startsWith("//")) return null;
+  return value;
+}
+
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  const email = typeof body?.email === "string" ? body.email.trim().toLowerCase() : "";
+  if (!email) {
+    return Response.json({ error: "Email is required" }, { status: 400 });
+  }
+
+  const now = Date.now();
+  const previous = lastSentAt.get(email);
+  if (previous && now - previous < MAGIC_LINK_RESEND_COOLDOWN_MS) {
+    const retryAfter = Math.ceil((MAGIC_LINK_RESEND_COOLDOWN_MS - (now - previous)) / 1000);
+    return Response.json({ error: "Please wait before requesting another link", retryAfter }, { status: 429 });
+  }
+  rememberSend(email, now);
+
+  // The response is identical whether or not the email may sign in so
+  // the endpoint cannot be used to enumerate investors.
+  try {
+    if (await canSignIn(email)) {
+      const token = createMagicLinkToken(email, now);
+      const link = buildMagicLinkUrl(resolveOrigin(req), token, sanitizeCallbackUrl(body?.callbackUrl));
+      await sendMagicLinkEmail(email, link);
+    }
+  } catch (error) {
+    console.error("[auth] Failed to send magic link", error);
+    lastSentAt.delete(email);
+    return Response.json({ error: "Unable to send sign-in link" }, { status: 500 });
+  }
+
+  return Response.json({ ok: true, retryAfter: Math.ceil(MAGIC_LINK_RESEND_COOLDOWN_MS / 1000) });
+}
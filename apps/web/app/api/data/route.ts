@@ -2,10 +2,11 @@ import {
   PARTNER_INVESTMENTS_TABLE,
   VIEW_ID,
   base,
-  expandPartnerInvestmentRecords,
   normalizeFieldKey,
   type AirtableRecord,
 } from "@/lib/airtable";
+import { authorizeRequest } from "@/lib/authz";
+import { expandPartnerInvestmentRecords } from "@/lib/linked-records";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -30,6 +31,9 @@ function toDisplayLabel(name: string) {
 }
 
 export async function GET() {
+  const auth = await authorizeRequest("data:read");
+  if (auth instanceof Response) return auth;
+
   try {
     const rows = await base(PARTNER_INVESTMENTS_TABLE)
       .select({ ...(VIEW_ID ? { view: VIEW_ID } : {}) })
@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { authorizeRequest } from "@/lib/authz";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -63,6 +64,9 @@ async function fetchAirtable(url: string, tries = 3): Promise<Response> {
 }
 
 export async function GET(request: Request) {
+  const auth = await authorizeRequest("lp:read");
+  if (auth instanceof Response) return auth;
+
   if (!process.env.AIRTABLE_API_KEY) {
     return NextResponse.json({ error: "Missing AIRTABLE_API_KEY" }, { status: 500 });
   }
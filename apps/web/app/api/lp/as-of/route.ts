@@ -0,0 +1,70 @@
+import { cookies } from "next/headers";
+import { LP_AS_OF_COOKIE } from "@/lib/lp-as-of";
+import { resolveLpRequest, type LpRequestContext } from "@/lib/lp-context";
+import { loadLpInvestmentRecords } from "@/lib/lp-server";
+import { isQuarterKey, listSnapshotQuarters } from "@/lib/nav-snapshots";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const VIEW_ID = process.env.AIRTABLE_VIEW_ID;
+
+async function availableQuarters(ctx: LpRequestContext) {
+  const { records } = await loadLpInvestmentRecords(ctx.email, ctx.role, VIEW_ID, {
+    entityId: ctx.entityId,
+    contactId: ctx.contactId,
+    expand: false,
+  });
+  return listSnapshotQuarters(records.map((record) => record.id));
+}
+
+// The quarters the LP can look back at, and the one selected (null for live).
+export async function GET() {
+  try {
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
+
+    const periods = await availableQuarters(ctx);
+    const selected = periods.some((period) => period.quarter === ctx.asOf) ? ctx.asOf : null;
+    return Response.json({ periods, selected });
+  } catch (error: any) {
+    console.error("[lp-as-of] Failed to load periods", error);
+    return Response.json({ error: error?.message || "Failed to load periods" }, { status: 500 });
+  }
+}
+
+// Only changes what the viewer is looking at, so it is allowed while viewing
+// as an investor too.
+export async function POST(req: Request) {
+  try {
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
+
+    const body = await req.json().catch(() => ({}));
+    const period = body?.period ?? null;
+
+    if (!period) {
+      cookies().delete(LP_AS_OF_COOKIE);
+      return Response.json({ selected: null });
+    }
+    if (!isQuarterKey(period)) {
+      return Response.json({ error: "Invalid period" }, { status: 400 });
+    }
+
+    const periods = await availableQuarters(ctx);
+    if (!periods.some((entry) => entry.quarter === period)) {
+      return Response.json({ error: "No snapshot for that period" }, { status: 404 });
+    }
+
+    cookies().set(LP_AS_OF_COOKIE, period, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+    });
+    return Response.json({ selected: period });
+  } catch (error: any) {
+    console.error("[lp-as-of] Failed to select period", error);
+    return Response.json({ error: error?.message || "Failed to select period" }, { status: 500 });
+  }
+}
@@ -1,32 +1,95 @@
-import { getSession } from "@/lib/auth";
-import { type Role } from "@/lib/auth-helpers";
-import { computeMetrics, contactDisplayName, loadLpInvestmentRecords } from "@/lib/lp-server";
+import {
+  asOfView,
+  diffRecordsAsOf,
+  ledgerAsOf,
+  recordsAsOf,
+  type AsOfChange,
+  type AsOfView,
+} from "@/lib/lp-as-of";
+import { resolveLpRequest } from "@/lib/lp-context";
+import { computeMetrics, contactDisplayName, loadLpInvestmentRecords, type PortfolioMetrics } from "@/lib/lp-server";
+import { previousQuarter } from "@/lib/nav-snapshots";
+import { investmentIrr } from "@/lib/performance";
+import { groupByInvestment, loadTransactions, type Transaction } from "@/lib/transactions";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 const VIEW_ID = process.env.AIRTABLE_VIEW_ID;
 
+type AsOfResponse = AsOfView & {
+  previous: (AsOfView & { metrics: PortfolioMetrics }) | null;
+  changes: AsOfChange[];
+};
+
+function withLedger(records: Array<{ id: string; fields: Record<string, any> }>, transactions: Transaction[]) {
+  const ledger = groupByInvestment(transactions);
+  return records.map((record) => ({ fields: record.fields, transactions: ledger.get(record.id) }));
+}
+
 export async function GET() {
   try {
-    const session = await getSession();
-    const user = session?.user;
-    const email = user?.email;
-    if (!session || !user || !email) {
-      return Response.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
 
-    const role = (user.role as Role | undefined) ?? "lp";
-    const { contacts, records, note } = await loadLpInvestmentRecords(email, role, VIEW_ID);
+    const { email, role } = ctx;
+    const { contacts, records: liveRecords, note } = await loadLpInvestmentRecords(email, role, VIEW_ID, {
+      entityId: ctx.entityId,
+      contactId: ctx.contactId,
+    });
+
+    // Documents-only delegates see no money, so they get no ledger either.
+    const transactions = await loadTransactions(
+      liveRecords.filter((record) => record._access !== "documents").map((record) => record.id),
+      role
+    );
+
+    // With a past quarter selected, figures come from the snapshot store, and
+    // the quarter before it is loaded too so the page can show what moved.
+    let records = liveRecords;
+    let ledger = transactions;
+    let asOf: AsOfResponse | null = null;
+    if (ctx.asOf) {
+      const view = asOfView(ctx.asOf);
+      const prior = asOfView(previousQuarter(ctx.asOf));
+      const [atView, atPrior] = await Promise.all([
+        recordsAsOf(liveRecords, view.quarter, role),
+        recordsAsOf(liveRecords, prior.quarter, role),
+      ]);
+      records = atView.records;
+      ledger = ledgerAsOf(transactions, view.periodEnd);
+      asOf = {
+        ...view,
+        previous: atPrior.records.length
+          ? { ...prior, metrics: computeMetrics(withLedger(atPrior.records, ledgerAsOf(transactions, prior.periodEnd))) }
+          : null,
+        changes: atPrior.records.length ? diffRecordsAsOf(records, atPrior.records) : [],
+      };
+    }
 
-    const metrics = computeMetrics(records);
-    const profileName = contacts.length ? contactDisplayName(contacts[0]) : email;
+    const rows = withLedger(records, ledger);
+    const metrics = computeMetrics(rows);
+    const valuedAt = asOf ? new Date(asOf.periodEnd) : undefined;
+    const irrByRecord = Object.fromEntries(records.map((record, index) => [record.id, investmentIrr(rows[index], valuedAt)]));
+    // Delegates are named after their own Contact, not the investor they act for.
+    const ownContact = contacts.find((contact) => contact.access.kind === "self");
+    const profileName = ownContact ? contactDisplayName(ownContact) : email;
+    const { impersonation } = ctx;
 
     return Response.json({
       profile: { name: profileName, email },
       records,
       metrics,
+      irrByRecord,
+      asOf,
       note,
+      impersonation: impersonation
+        ? {
+            contactName: impersonation.contactName,
+            contactRole: impersonation.contactRole,
+            expiresAt: new Date(impersonation.expiresAt).toISOString(),
+          }
+        : null,
     });
   } catch (error: any) {
     console.error("[lp-data] Failed to load LP data", error);
@@ -0,0 +1,297 @@
+import archiver from "archiver";
+import { randomUUID } from "crypto";
+import { Readable } from "stream";
+import { recordDocumentAccess, recordDocumentAccesses, resolveClientIp, type DocumentAccess } from "@/lib/document-access";
+import { resolveLpRequest } from "@/lib/lp-context";
+import {
+  attachmentFilename,
+  contentDisposition,
+  fetchWatermarkedPdf,
+  isAttachment,
+  resolveInvestmentName,
+  resolvePeriodEnding,
+  shouldWatermark,
+  type Attachment,
+} from "@/lib/lp-documents";
+import { contactDisplayName, loadLpInvestmentRecords, type InvestmentRecord } from "@/lib/lp-server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const VIEW_ID = process.env.AIRTABLE_VIEW_ID;
+const MAX_ARCHIVE_FILES = 500;
+
+type ArchiveEntry = {
+  record: InvestmentRecord;
+  field: string;
+  index: number;
+  attachment: Attachment;
+  path: string;
+  watermarkId: string | null;
+};
+
+type Filters = {
+  investmentId: string | null;
+  field: string | null;
+  period: string | null;
+  // Explicit selection as "<recordId>:<index>:<field>"; everything matching the
+  // other filters when empty.
+  docs: Set<string>;
+};
+
+function parseFilters(searchParams: URLSearchParams): Filters {
+  return {
+    investmentId: searchParams.get("investmentId"),
+    field: searchParams.get("field"),
+    period: searchParams.get("period"),
+    docs: new Set(searchParams.getAll("doc").filter(Boolean)),
+  };
+}
+
+function periodKey(value: any) {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+function sanitizeSegment(value: string, fallback: string) {
+  const cleaned = value
+    .replace(/[\u0000-\u001f<>:"/\\|?*]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+/, "");
+  return (cleaned || fallback).slice(0, 120);
+}
+
+function resolveFundName(fields: Record<string, any>) {
+  const value = fields["Fund"];
+  if (Array.isArray(value)) {
+    const names = value
+      .map((item) => (item && typeof item === "object" ? item.displayName : typeof item === "string" ? item : ""))
+      .filter(Boolean);
+    if (names.length) return names.join(", ");
+  }
+  if (typeof value === "string" && value.trim()) return value;
+  return undefined;
+}
+
+function periodFolder(value: any) {
+  if (value === null || value === undefined || value === "") return "General";
+  const date = new Date(value);
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(date.getTime())) {
+    return date.toISOString().slice(0, 10);
+  }
+  return String(value);
+}
+
+// Appends " (2)", " (3)"… before the extension when a folder already holds a
+// file with the same name.
+function uniquePath(path: string, used: Set<string>) {
+  if (!used.has(path.toLowerCase())) {
+    used.add(path.toLowerCase());
+    return path;
+  }
+  const dot = path.lastIndexOf(".");
+  const slash = path.lastIndexOf("/");
+  const hasExtension = dot > slash + 1;
+  const stem = hasExtension ? path.slice(0, dot) : path;
+  const extension = hasExtension ? path.slice(dot) : "";
+  for (let n = 2; ; n += 1) {
+    const candidate = `${stem} (${n})${extension}`;
+    if (!used.has(candidate.toLowerCase())) {
+      used.add(candidate.toLowerCase());
+      return candidate;
+    }
+  }
+}
+
+function collectEntries(records: InvestmentRecord[], filters: Filters): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  const used = new Set<string>();
+
+  for (const record of records) {
+    if (filters.investmentId && record.id !== filters.investmentId) continue;
+    const fields = record.fields || {};
+    const periodEnding = resolvePeriodEnding(fields);
+    if (filters.period !== null && periodKey(periodEnding) !== filters.period) continue;
+
+    const folder = [
+      sanitizeSegment(resolveFundName(fields) || "", "Unassigned Fund"),
+      sanitizeSegment(resolveInvestmentName(fields) || "", record.id),
+      sanitizeSegment(periodFolder(periodEnding), "General"),
+    ].join("/");
+
+    for (const [field, value] of Object.entries(fields)) {
+      if (!Array.isArray(value)) continue;
+      if (filters.field && field !== filters.field) continue;
+      value.forEach((attachment, index) => {
+        if (!isAttachment(attachment)) return;
+        if (filters.docs.size && !filters.docs.has(`${record.id}:${index}:${field}`)) return;
+        entries.push({
+          record,
+          field,
+          index,
+          attachment,
+          path: uniquePath(`${folder}/${sanitizeSegment(attachmentFilename(attachment), "Document")}`, used),
+          watermarkId: shouldWatermark(field, attachment) ? randomUUID() : null,
+        });
+      });
+    }
+  }
+
+  return entries;
+}
+
+// Resolves once archiver has consumed the entry just appended, so only one
+// upstream download is open at a time and a slow client throttles the fetches.
+function waitForEntry(archive: archiver.Archiver) {
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      archive.off("entry", onEntry);
+      archive.off("error", onError);
+      archive.off("close", onClose);
+    };
+    const onEntry = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error("Archive closed"));
+    };
+    archive.on("entry", onEntry);
+    archive.on("error", onError);
+    archive.on("close", onClose);
+  });
+}
+
+// Watermarked entries are logged here, once stamping has been attempted, so a
+// copy that could not be stamped is audited as withheld; it is listed as
+// missing rather than added unwatermarked.
+async function fillArchive(
+  archive: archiver.Archiver,
+  entries: ArchiveEntry[],
+  stamp: (entry: ArchiveEntry) => { investorName: string; email: string },
+  accessFor: (entry: ArchiveEntry) => DocumentAccess
+) {
+  const missing: string[] = [];
+
+  for (const entry of entries) {
+    let source: Buffer | Readable | null = null;
+    try {
+      if (entry.watermarkId) {
+        const watermarked = await fetchWatermarkedPdf(entry.attachment, {
+          ...stamp(entry),
+          downloadedAt: new Date(),
+          documentId: entry.watermarkId,
+        });
+        if (watermarked.ok) source = watermarked.body;
+        await recordDocumentAccess({
+          ...accessFor(entry),
+          watermarkError: watermarked.ok ? null : watermarked.error,
+        }).catch((error) => console.error("[documents-archive] Failed to record document access", error));
+      } else {
+        const upstream = await fetch(entry.attachment.url, { cache: "no-store" });
+        if (upstream.ok && upstream.body) {
+          source = Readable.fromWeb(upstream.body as import("stream/web").ReadableStream);
+        } else {
+          console.error("[documents-archive] Upstream attachment fetch failed", upstream.status);
+        }
+      }
+    } catch (error) {
+      console.error("[documents-archive] Failed to fetch attachment", error);
+    }
+
+    if (!source) {
+      missing.push(entry.path);
+      continue;
+    }
+
+    const appended = waitForEntry(archive);
+    archive.append(source, { name: entry.path });
+    await appended;
+  }
+
+  if (missing.length) {
+    archive.append(
+      `These documents could not be retrieved and are not included:\n\n${missing.join("\n")}\n`,
+      { name: "MISSING FILES.txt" }
+    );
+  }
+  await archive.finalize();
+}
+
+export async function GET(request: Request) {
+  try {
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
+
+    // Same pipeline as the Documents page: only records the viewer can reach,
+    // with applyVisibility already applied to every field.
+    const { contacts, records } = await loadLpInvestmentRecords(ctx.email, ctx.role, VIEW_ID, {
+      entityId: ctx.entityId,
+      contactId: ctx.contactId,
+    });
+
+    const entries = collectEntries(records, parseFilters(new URL(request.url).searchParams));
+    if (!entries.length) {
+      return new Response("No documents match the selection", { status: 404 });
+    }
+    if (entries.length > MAX_ARCHIVE_FILES) {
+      return new Response(`Too many documents (${entries.length}); narrow the selection to ${MAX_ARCHIVE_FILES} or fewer`, {
+        status: 400,
+      });
+    }
+
+    const accessFor = (entry: ArchiveEntry): DocumentAccess => ({
+      viewerEmail: ctx.actor.email,
+      viewerRole: ctx.actor.role,
+      contactIds: entry.record._contactIds ?? [],
+      recordId: entry.record.id,
+      field: entry.field,
+      index: entry.index,
+      attachmentId: entry.attachment.id ?? null,
+      documentName: attachmentFilename(entry.attachment),
+      ipAddress: resolveClientIp(request),
+      userAgent: request.headers.get("user-agent"),
+      impersonated: Boolean(ctx.impersonation),
+      via: "portal",
+      watermarkId: entry.watermarkId,
+    });
+    try {
+      await recordDocumentAccesses(entries.filter((entry) => !entry.watermarkId).map(accessFor));
+    } catch (error) {
+      console.error("[documents-archive] Failed to record document access", error);
+    }
+
+    const contactNames = new Map(contacts.map((contact) => [contact.id, String(contactDisplayName(contact) || "")]));
+    const stamp = (entry: ArchiveEntry) => {
+      const names = (entry.record._contactIds ?? []).map((id) => contactNames.get(id)).filter(Boolean);
+      return { investorName: names.length ? names.join(", ") : ctx.actor.email, email: ctx.actor.email };
+    };
+
+    const archive = archiver("zip", { zlib: { level: 6 } });
+    archive.on("warning", (error) => console.error("[documents-archive] Archive warning", error));
+    archive.on("error", (error) => console.error("[documents-archive] Archive failed", error));
+    fillArchive(archive, entries, stamp, accessFor).catch((error) => {
+      console.error("[documents-archive] Failed to build archive", error);
+      archive.destroy(error);
+    });
+
+    const filename = `JBV Documents ${new Date().toISOString().slice(0, 10)}.zip`;
+    return new Response(Readable.toWeb(archive) as unknown as ReadableStream, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": contentDisposition("attachment", filename),
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("[documents-archive] Failed to build archive", error);
+    return new Response("Unable to download documents", { status: 500 });
+  }
+}
@@ -1,16 +1,20 @@
-import { getSession } from "@/lib/auth";
-import { type Role } from "@/lib/auth-helpers";
+import { randomUUID } from "crypto";
+import { recordDocumentAccess, resolveClientIp } from "@/lib/document-access";
+import { isAdminRole } from "@/lib/is-admin";
+import { resolveLpRequest } from "@/lib/lp-context";
 import {
-  applyVisibility,
-  findContactsByEmail,
-  getInvestmentsForContactIds,
-} from "@/lib/lp-server";
+  attachmentFilename,
+  fetchWatermarkedPdf,
+  findLpAttachment,
+  resolveInvestorName,
+  shouldWatermark,
+  streamAttachment,
+  watermarkedPdfResponse,
+} from "@/lib/lp-documents";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-const VIEW_ID = process.env.AIRTABLE_VIEW_ID;
-
 function parseIndex(value: string | null): number {
   if (!value) return 0;
   const parsed = Number.parseInt(value, 10);
@@ -28,42 +32,65 @@ export async function GET(request: Request) {
       return new Response("Missing parameters", { status: 400 });
     }
 
-    const session = await getSession();
-    const user = session?.user;
-    const email = user?.email;
-    if (!session || !user || !email) {
-      return new Response("Unauthorized", { status: 401 });
-    }
-
-    const role = (user.role as Role | undefined) ?? "lp";
-    const contacts = await findContactsByEmail(email);
-    const contactIds = contacts.map((c) => c.id);
-    if (!contactIds.length) {
-      return new Response("Not found", { status: 404 });
-    }
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
 
-    const investments = await getInvestmentsForContactIds(contactIds, VIEW_ID);
-    const record = investments.find((item) => item.id === recordId);
-    if (!record) {
-      return new Response("Not found", { status: 404 });
+    const found = await findLpAttachment(ctx, recordId, field, index);
+    if (!found) {
+      return new Response("File not found", { status: 404 });
     }
+    const { record, attachment } = found;
+    const watermark = shouldWatermark(field, attachment);
+    const watermarkId = watermark ? randomUUID() : null;
+    const disposition = searchParams.get("download") === "1" ? "attachment" : undefined;
 
-    const visibleFields = await applyVisibility(record.fields, role);
-    if (!Object.prototype.hasOwnProperty.call(visibleFields, field)) {
-      return new Response("Not found", { status: 404 });
-    }
+    // Stamp before logging so a copy that could not be watermarked is audited
+    // as withheld.
+    const watermarked = watermarkId
+      ? await fetchWatermarkedPdf(attachment, {
+          investorName: await resolveInvestorName(record, ctx.actor.email),
+          email: ctx.actor.email,
+          downloadedAt: new Date(),
+          documentId: watermarkId,
+        })
+      : null;
 
-    const value = visibleFields[field as keyof typeof visibleFields];
-    if (!Array.isArray(value) || value.length <= index) {
-      return new Response("File not found", { status: 404 });
+    // Range follow-ups for the same file are not separate downloads. Watermarked
+    // copies are always served whole, so every request is one.
+    const range = request.headers.get("range");
+    if (watermark || !range || range.startsWith("bytes=0-")) {
+      try {
+        await recordDocumentAccess({
+          viewerEmail: ctx.actor.email,
+          viewerRole: ctx.actor.role,
+          contactIds: record._contactIds ?? [],
+          recordId: record.id,
+          field,
+          index,
+          attachmentId: attachment.id ?? null,
+          documentName: attachmentFilename(attachment),
+          ipAddress: resolveClientIp(request),
+          userAgent: request.headers.get("user-agent"),
+          impersonated: Boolean(ctx.impersonation),
+          via: "portal",
+          watermarkId,
+          watermarkError: watermarked && !watermarked.ok ? watermarked.error : null,
+        });
+      } catch (error) {
+        // Never block an investor from their own document over a logging failure.
+        console.error("[documents-download] Failed to record document access", error);
+      }
     }
 
-    const attachment = value[index];
-    if (!attachment || typeof attachment.url !== "string") {
-      return new Response("File not found", { status: 404 });
+    if (watermarked) {
+      // Admins (not while viewing as an investor) may still fetch the original.
+      return watermarkedPdfResponse(watermarked, attachment, {
+        disposition,
+        allowOriginal: isAdminRole(ctx.actor.role) && !ctx.impersonation,
+      });
     }
 
-    return Response.redirect(attachment.url, 302);
+    return streamAttachment(request, attachment, { disposition });
   } catch (error) {
     console.error("[documents-download] Failed to proxy download", error);
     return new Response("Unable to download document", { status: 500 });
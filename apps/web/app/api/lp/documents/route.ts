@@ -1,5 +1,7 @@
-import { getSession } from "@/lib/auth";
-import { type Role } from "@/lib/auth-helpers";
+import { asOfView, attachmentExistedAsOf, recordsAsOf, type AsOfView } from "@/lib/lp-as-of";
+import { resolveLpRequest } from "@/lib/lp-context";
+import { categorizeDocument, type DocumentCategory } from "@/lib/document-taxonomy";
+import { attachmentFilename, isAttachment, resolveInvestmentName, resolvePeriodEnding } from "@/lib/lp-documents";
 import { loadLpInvestmentRecords } from "@/lib/lp-server";
 
 export const runtime = "nodejs";
@@ -7,14 +9,6 @@ export const dynamic = "force-dynamic";
 
 const VIEW_ID = process.env.AIRTABLE_VIEW_ID;
 
-type Attachment = {
-  name?: string;
-  url?: string;
-  size?: number;
-  type?: string;
-  filename?: string;
-};
-
 type DocumentsResponse = {
   documents: Array<{
     name: string;
@@ -25,49 +19,28 @@ type DocumentsResponse = {
     periodEnding?: any;
     field: string;
     index: number;
+    category: DocumentCategory;
   }>;
   note?: string;
+  asOf: AsOfView | null;
 };
 
-function isAttachment(value: any): value is Attachment {
-  return value && typeof value === "object" && typeof value.url === "string";
-}
-
-function resolveInvestmentName(fields: Record<string, any>) {
-  const preferredKeys = ["Partner Investment", "Investment", "Name", "Title"];
-  for (const key of preferredKeys) {
-    if (Object.prototype.hasOwnProperty.call(fields, key)) {
-      const value = fields[key];
-      if (Array.isArray(value) && value[0] && typeof value[0] === "object" && "displayName" in value[0]) {
-        return value[0].displayName as string;
-      }
-      if (typeof value === "string" && value.trim()) return value;
-    }
-  }
-  return undefined;
-}
-
-function resolvePeriodEnding(fields: Record<string, any>) {
-  const candidates = ["Period Ending", "Period", "As of Date"];
-  for (const key of candidates) {
-    if (Object.prototype.hasOwnProperty.call(fields, key)) {
-      return fields[key];
-    }
-  }
-  return undefined;
-}
-
 export async function GET() {
   try {
-    const session = await getSession();
-    const user = session?.user;
-    const email = user?.email;
-    if (!session || !user || !email) {
-      return Response.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
 
-    const role = (user.role as Role | undefined) ?? "lp";
-    const { records, note } = await loadLpInvestmentRecords(email, role, VIEW_ID);
+    const { email, role } = ctx;
+    const { records: liveRecords, note } = await loadLpInvestmentRecords(email, role, VIEW_ID, {
+      entityId: ctx.entityId,
+      contactId: ctx.contactId,
+    });
+    // As of a past quarter: the documents the records held then, filed under
+    // the period they reported.
+    const asOf = ctx.asOf ? asOfView(ctx.asOf) : null;
+    const { records, snapshots } = asOf
+      ? await recordsAsOf(liveRecords, asOf.quarter, role)
+      : { records: liveRecords, snapshots: null };
     const documents: DocumentsResponse["documents"] = [];
 
     for (const record of records) {
@@ -78,7 +51,7 @@ export async function GET() {
       for (const [fieldName, value] of Object.entries(fields)) {
         if (!Array.isArray(value)) continue;
         value.forEach((entry, index) => {
-          if (isAttachment(entry)) {
+          if (isAttachment(entry) && (!snapshots || attachmentExistedAsOf(snapshots.get(record.id), entry))) {
             documents.push({
               name: entry.name || entry.filename || "Document",
               size: entry.size,
@@ -88,13 +61,14 @@ export async function GET() {
               periodEnding,
               field: fieldName,
               index,
+              category: categorizeDocument(fieldName, attachmentFilename(entry)),
             });
           }
         });
       }
     }
 
-    const payload: DocumentsResponse = { documents, note };
+    const payload: DocumentsResponse = { documents, note, asOf };
     return Response.json(payload);
   } catch (error: any) {
     console.error("[lp-documents] Failed to load documents", error);
@@ -0,0 +1,68 @@
+import { recordAuditEvent } from "@/lib/audit";
+import {
+  SHARE_LINK_DEFAULT_TTL_MINUTES,
+  SHARE_LINK_MAX_TTL_MINUTES,
+  createDocumentShareToken,
+} from "@/lib/document-share";
+import { denyReadOnly, resolveLpRequest } from "@/lib/lp-context";
+import { findLpAttachment } from "@/lib/lp-documents";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function resolveOrigin(req: Request) {
+  return process.env.NEXTAUTH_URL || new URL(req.url).origin;
+}
+
+export async function POST(req: Request) {
+  try {
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
+    if (ctx.readOnly) return denyReadOnly();
+
+    const body = await req.json().catch(() => ({}));
+    const recordId = typeof body?.recordId === "string" ? body.recordId : "";
+    const field = typeof body?.field === "string" ? body.field : "";
+    const index = Number.isInteger(body?.index) && body.index >= 0 ? body.index : 0;
+    const requestedTtl = Number(body?.ttlMinutes);
+    const ttlMinutes = Number.isFinite(requestedTtl)
+      ? Math.min(Math.max(Math.round(requestedTtl), 5), SHARE_LINK_MAX_TTL_MINUTES)
+      : SHARE_LINK_DEFAULT_TTL_MINUTES;
+
+    if (!recordId || !field) {
+      return Response.json({ error: "Bad request" }, { status: 400 });
+    }
+
+    const found = await findLpAttachment(ctx, recordId, field, index);
+    if (!found) {
+      return Response.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const expiresAt = Date.now() + ttlMinutes * 60 * 1000;
+    const token = createDocumentShareToken({
+      issuerEmail: ctx.email,
+      recordId,
+      field,
+      index,
+      attachmentId: found.attachment.id ?? null,
+      expiresAt,
+    });
+
+    await recordAuditEvent({
+      action: "document.share",
+      actorEmail: ctx.actor.email,
+      actorRole: ctx.actor.role,
+      table: "Partner Investments",
+      recordId,
+      field,
+      details: { index, attachmentId: found.attachment.id ?? null, expiresAt: new Date(expiresAt).toISOString() },
+    });
+
+    const url = new URL("/api/lp/documents/shared", resolveOrigin(req));
+    url.searchParams.set("token", token);
+    return Response.json({ url: url.toString(), expiresAt: new Date(expiresAt).toISOString() });
+  } catch (error: any) {
+    console.error("[documents-share] Failed to create share link", error);
+    return Response.json({ error: error?.message || "Failed to create share link" }, { status: 500 });
+  }
+}
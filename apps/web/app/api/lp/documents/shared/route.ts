@@ -0,0 +1,80 @@
+import { randomUUID } from "crypto";
+import { recordDocumentAccess, resolveClientIp } from "@/lib/document-access";
+import { verifyDocumentShareToken } from "@/lib/document-share";
+import {
+  attachmentFilename,
+  fetchWatermarkedPdf,
+  findLpAttachment,
+  resolveInvestorName,
+  shouldWatermark,
+  streamAttachment,
+  watermarkedPdfResponse,
+} from "@/lib/lp-documents";
+import { resolveUserRole } from "@/lib/user-directory";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Signed links need no session: whoever holds one may read that single file
+// until it expires, and only while the issuing investor still can.
+export async function GET(request: Request) {
+  try {
+    const token = new URL(request.url).searchParams.get("token") || "";
+    const verification = verifyDocumentShareToken(token);
+    if (!verification.ok) {
+      const message = verification.reason === "expired" ? "This link has expired" : "Invalid link";
+      return new Response(message, { status: verification.reason === "expired" ? 410 : 404 });
+    }
+
+    const { share } = verification;
+    const role = await resolveUserRole(share.issuerEmail);
+    const found = await findLpAttachment({ email: share.issuerEmail, role }, share.recordId, share.field, share.index);
+    if (!found || (share.attachmentId && found.attachment.id !== share.attachmentId)) {
+      return new Response("File not found", { status: 404 });
+    }
+    const { record, attachment } = found;
+    const watermarkId = shouldWatermark(share.field, attachment) ? randomUUID() : null;
+
+    // Shared copies carry the issuing investor's identity, since they handed it out.
+    const watermarked = watermarkId
+      ? await fetchWatermarkedPdf(attachment, {
+          investorName: await resolveInvestorName(record, share.issuerEmail),
+          email: share.issuerEmail,
+          downloadedAt: new Date(),
+          documentId: watermarkId,
+        })
+      : null;
+
+    const range = request.headers.get("range");
+    if (watermarkId || !range || range.startsWith("bytes=0-")) {
+      try {
+        await recordDocumentAccess({
+          viewerEmail: share.issuerEmail,
+          viewerRole: role,
+          contactIds: record._contactIds ?? [],
+          recordId: record.id,
+          field: share.field,
+          index: share.index,
+          attachmentId: attachment.id ?? null,
+          documentName: attachmentFilename(attachment),
+          ipAddress: resolveClientIp(request),
+          userAgent: request.headers.get("user-agent"),
+          impersonated: false,
+          via: "share-link",
+          watermarkId,
+          watermarkError: watermarked && !watermarked.ok ? watermarked.error : null,
+        });
+      } catch (error) {
+        console.error("[documents-shared] Failed to record document access", error);
+      }
+    }
+
+    // Link holders never get the unwatermarked original.
+    if (watermarked) return watermarkedPdfResponse(watermarked, attachment);
+
+    return streamAttachment(request, attachment);
+  } catch (error) {
+    console.error("[documents-shared] Failed to stream shared document", error);
+    return new Response("Unable to download document", { status: 500 });
+  }
+}
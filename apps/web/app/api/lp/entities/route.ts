@@ -0,0 +1,59 @@
+import { cookies } from "next/headers";
+import { denyReadOnly, resolveLpRequest } from "@/lib/lp-context";
+import { LP_ENTITY_COOKIE, listInvestorEntities } from "@/lib/lp-entities";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
+    // Viewing as an investor always shows exactly that investor's Contact.
+    if (ctx.impersonation) {
+      return Response.json({ entities: [], selectedId: null });
+    }
+
+    const entities = await listInvestorEntities(ctx.email);
+    const selectedId = ctx.entityId;
+    return Response.json({
+      entities,
+      selectedId: entities.some((entity) => entity.id === selectedId) ? selectedId : null,
+    });
+  } catch (error: any) {
+    console.error("[lp-entities] Failed to load entities", error);
+    return Response.json({ error: error?.message || "Failed to load entities" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
+    if (ctx.readOnly) return denyReadOnly();
+
+    const body = await req.json().catch(() => ({}));
+    const entityId = typeof body?.entityId === "string" && body.entityId ? body.entityId : null;
+
+    if (!entityId) {
+      cookies().delete(LP_ENTITY_COOKIE);
+      return Response.json({ selectedId: null });
+    }
+
+    const entities = await listInvestorEntities(ctx.email);
+    if (!entities.some((entity) => entity.id === entityId)) {
+      return Response.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    cookies().set(LP_ENTITY_COOKIE, entityId, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+    });
+    return Response.json({ selectedId: entityId });
+  } catch (error: any) {
+    console.error("[lp-entities] Failed to select entity", error);
+    return Response.json({ error: error?.message || "Failed to select entity" }, { status: 500 });
+  }
+}
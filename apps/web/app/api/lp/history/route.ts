@@ -0,0 +1,40 @@
+import { resolveLpRequest } from "@/lib/lp-context";
+import { loadLpInvestmentRecords } from "@/lib/lp-server";
+import { getNavHistory, type HistoryPoint } from "@/lib/nav-snapshots";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const VIEW_ID = process.env.AIRTABLE_VIEW_ID;
+
+type HistoryResponse = {
+  history: HistoryPoint[];
+};
+
+// Quarterly NAV and distribution history of the LP's investments, or of one
+// with ?investmentId=, from the snapshot store. Documents-only delegates get none.
+export async function GET(req: Request) {
+  try {
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
+
+    const investmentId = new URL(req.url).searchParams.get("investmentId");
+    const { records } = await loadLpInvestmentRecords(ctx.email, ctx.role, VIEW_ID, {
+      entityId: ctx.entityId,
+      contactId: ctx.contactId,
+      expand: false,
+    });
+    const reachable = records.filter((record) => record._access !== "documents").map((record) => record.id);
+    if (investmentId && !reachable.includes(investmentId)) {
+      return Response.json({ error: "Investment not found" }, { status: 404 });
+    }
+
+    const payload: HistoryResponse = {
+      history: await getNavHistory(investmentId ? [investmentId] : reachable, ctx.role),
+    };
+    return Response.json(payload);
+  } catch (error: any) {
+    console.error("[lp-history] Failed to load NAV history", error);
+    return Response.json({ error: error?.message || "Failed to load NAV history" }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { denyReadOnly, resolveLpRequest } from "@/lib/lp-context";
+import {
+  getNotificationPreference,
+  isNotificationFrequency,
+  setNotificationPreference,
+} from "@/lib/notifications";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
+
+    return Response.json({ frequency: await getNotificationPreference(ctx.email) });
+  } catch (error: any) {
+    console.error("[lp-notifications] Failed to load preference", error);
+    return Response.json({ error: error?.message || "Failed to load preference" }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  try {
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
+    if (ctx.readOnly) return denyReadOnly();
+
+    const body = await req.json().catch(() => ({}));
+    if (!isNotificationFrequency(body?.frequency)) {
+      return Response.json({ error: "frequency must be immediate, weekly or off" }, { status: 400 });
+    }
+
+    await setNotificationPreference(ctx.email, body.frequency);
+    return Response.json({ frequency: body.frequency });
+  } catch (error: any) {
+    console.error("[lp-notifications] Failed to save preference", error);
+    return Response.json({ error: error?.message || "Failed to save preference" }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { subscribeToLiveUpdates } from "@/lib/live-updates";
+import { resolveLpRequest } from "@/lib/lp-context";
+import { loadLpInvestmentRecords } from "@/lib/lp-server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const VIEW_ID = process.env.AIRTABLE_VIEW_ID;
+const KEEPALIVE_MS = 25 * 1000;
+// New investments for this LP arrive as "refresh" events; this is a backstop.
+const RESCOPE_MS = 5 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+// Server-Sent Events for the signed-in LP: "change" when one of their
+// Partner Investments is edited, "refresh" when what they can see may have
+// changed. Events only say what to refetch; data still comes from the usual
+// /api/lp routes.
+export async function GET(req: Request) {
+  const ctx = await resolveLpRequest();
+  if (ctx instanceof Response) return ctx;
+
+  const loadScope = async () => {
+    const { records } = await loadLpInvestmentRecords(ctx.email, ctx.role, VIEW_ID, {
+      entityId: ctx.entityId,
+      contactId: ctx.contactId,
+      expand: false,
+    });
+    return new Set(records.map((record) => record.id));
+  };
+
+  let recordIds: Set<string>;
+  try {
+    recordIds = await loadScope();
+  } catch (error: any) {
+    console.error("[lp-stream] Failed to resolve stream scope", error);
+    return Response.json({ error: error?.message || "Failed to open stream" }, { status: 500 });
+  }
+
+  const rescope = async () => {
+    try {
+      recordIds = await loadScope();
+    } catch (error) {
+      console.error("[lp-stream] Failed to refresh stream scope", error);
+    }
+  };
+
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      const unsubscribe = subscribeToLiveUpdates(async (update) => {
+        if (update.type === "refresh") {
+          await rescope();
+          send("refresh", { reason: update.reason, at: update.at });
+          return;
+        }
+        const matching = update.recordIds.filter((id) => recordIds.has(id));
+        if (matching.length) send("change", { recordIds: matching, at: update.at });
+      });
+      const keepAlive = setInterval(() => write(": ping\n\n"), KEEPALIVE_MS);
+      const rescopeTimer = setInterval(rescope, RESCOPE_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepAlive);
+        clearInterval(rescopeTimer);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client.
+        }
+      };
+      req.signal.addEventListener("abort", cleanup);
+
+      write("retry: 5000\n\n");
+      send("ready", { records: recordIds.size });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -1,6 +1,7 @@
-import { getSession } from "@/lib/auth";
-import { type Role } from "@/lib/auth-helpers";
-import { applyVisibility, expandLinked, findContactsByEmail, getInvestmentsForContactIds } from "@/lib/lp-server";
+import { asOfView, ledgerAsOf, recordsAsOf, type AsOfView } from "@/lib/lp-as-of";
+import { resolveLpRequest } from "@/lib/lp-context";
+import { computeMetrics, loadLpInvestmentRecords, type PortfolioMetrics } from "@/lib/lp-server";
+import { groupByInvestment, loadTransactions, type Transaction } from "@/lib/transactions";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -44,9 +45,18 @@ type SummaryRecord = {
   _updatedTime: string | null;
 };
 
+type FundMetrics = {
+  fundId: string;
+  fundName: string;
+  investments: number;
+  metrics: PortfolioMetrics;
+};
+
 type SummaryResponse = {
   fieldOrder: string[];
   records: SummaryRecord[];
+  funds: FundMetrics[];
+  asOf: AsOfView | null;
 };
 
 function sanitizeFields(fields: Record<string, any>) {
@@ -74,6 +84,29 @@ function sanitizeFields(fields: Record<string, any>) {
   return sanitized;
 }
 
+// Metrics per fund, for investments whose Fund the viewer can see.
+type FundRow = { fields: Record<string, any>; transactions?: Transaction[] };
+
+function buildFundMetrics(records: FundRow[]): FundMetrics[] {
+  const groups = new Map<string, { fundName: string; rows: FundRow[] }>();
+  for (const record of records) {
+    const fund = Array.isArray(record.fields["Fund"]) ? record.fields["Fund"][0] : null;
+    if (!fund) continue;
+    const fundId = typeof fund === "object" ? String(fund.id ?? "") : String(fund);
+    if (!fundId) continue;
+    const fundName = typeof fund === "object" ? String(fund.displayName ?? fundId) : fundId;
+    const group = groups.get(fundId) ?? { fundName, rows: [] };
+    group.rows.push(record);
+    groups.set(fundId, group);
+  }
+  return Array.from(groups, ([fundId, group]) => ({
+    fundId,
+    fundName: group.fundName,
+    investments: group.rows.length,
+    metrics: computeMetrics(group.rows),
+  })).sort((a, b) => a.fundName.localeCompare(b.fundName, undefined, { sensitivity: "base" }));
+}
+
 function buildFieldOrder(records: SummaryRecord[]) {
   const encountered: string[] = [];
   const seen = new Set<string>();
@@ -106,49 +139,44 @@ function buildFieldOrder(records: SummaryRecord[]) {
 
 export async function GET() {
   try {
-    const session = await getSession();
-    const user = session?.user;
-    const email = user?.email;
-    if (!session || !user || !email) {
-      return Response.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
 
-    const role = (user.role as Role | undefined) ?? "lp";
-    const contacts = await findContactsByEmail(email);
-    const contactIds = contacts.map((contact) => contact.id);
-
-    if (!contactIds.length) {
-      const payload: SummaryResponse = { fieldOrder: [], records: [] };
-      return Response.json(payload);
-    }
-
-    const investments = await getInvestmentsForContactIds(contactIds, VIEW_ID);
-    if (!investments.length) {
-      const payload: SummaryResponse = { fieldOrder: [], records: [] };
+    const { email, role } = ctx;
+    const { records: liveRecords } = await loadLpInvestmentRecords(email, role, VIEW_ID, {
+      entityId: ctx.entityId,
+      contactId: ctx.contactId,
+    });
+    const asOf = ctx.asOf ? asOfView(ctx.asOf) : null;
+    const records = asOf ? (await recordsAsOf(liveRecords, asOf.quarter, role)).records : liveRecords;
+    if (!records.length) {
+      const payload: SummaryResponse = { fieldOrder: [], records: [], funds: [], asOf };
       return Response.json(payload);
     }
 
-    const expanded = await Promise.all(investments.map((record) => expandLinked(record)));
-    const visible = await Promise.all(
-      expanded.map(async (record) => {
-        const allowed = await applyVisibility(record.fields, role);
-        const sanitized = sanitizeFields(allowed);
-        return {
+    const visible = records.map(
+      (record) =>
+        ({
           id: record.id,
-          fields: sanitized,
+          fields: sanitizeFields(record.fields),
           _updatedTime: record._updatedTime ?? null,
-        } as SummaryRecord;
-      })
+        }) as SummaryRecord
     );
 
     const filtered = visible.filter((record) => Object.keys(record.fields).length > 0);
     if (!filtered.length) {
-      const payload: SummaryResponse = { fieldOrder: [], records: [] };
+      const payload: SummaryResponse = { fieldOrder: [], records: [], funds: [], asOf };
       return Response.json(payload);
     }
 
     const fieldOrder = buildFieldOrder(filtered);
-    const payload: SummaryResponse = { fieldOrder, records: filtered };
+    const transactions = await loadTransactions(
+      records.filter((record) => record._access !== "documents").map((record) => record.id),
+      role
+    );
+    const ledger = groupByInvestment(asOf ? ledgerAsOf(transactions, asOf.periodEnd) : transactions);
+    const funds = buildFundMetrics(records.map((record) => ({ ...record, transactions: ledger.get(record.id) })));
+    const payload: SummaryResponse = { fieldOrder, records: filtered, funds, asOf };
     return Response.json(payload);
   } catch (error: any) {
     console.error("[lp-summary] Failed to load LP summary", error);
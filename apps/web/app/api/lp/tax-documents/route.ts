@@ -0,0 +1,31 @@
+import { resolveLpRequest } from "@/lib/lp-context";
+import { loadLpInvestmentRecords } from "@/lib/lp-server";
+import { buildTaxDocumentCenter, type TaxYearGroup } from "@/lib/tax-documents";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const VIEW_ID = process.env.AIRTABLE_VIEW_ID;
+
+type TaxDocumentsResponse = {
+  years: TaxYearGroup[];
+  note?: string;
+};
+
+export async function GET() {
+  try {
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
+
+    const { records, note } = await loadLpInvestmentRecords(ctx.email, ctx.role, VIEW_ID, {
+      entityId: ctx.entityId,
+      contactId: ctx.contactId,
+    });
+
+    const payload: TaxDocumentsResponse = { years: buildTaxDocumentCenter(records), note };
+    return Response.json(payload);
+  } catch (error: any) {
+    console.error("[lp-tax-documents] Failed to load tax documents", error);
+    return Response.json({ error: error?.message || "Failed to load tax documents" }, { status: 500 });
+  }
+}
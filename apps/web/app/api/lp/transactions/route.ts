@@ -0,0 +1,61 @@
+import { resolveLpRequest } from "@/lib/lp-context";
+import { loadLpInvestmentRecords } from "@/lib/lp-server";
+import {
+  TRANSACTION_TYPE_LABELS,
+  isTransactionType,
+  ledgerTotals,
+  loadTransactions,
+  type LedgerTotals,
+  type Transaction,
+  type TransactionType,
+} from "@/lib/transactions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const VIEW_ID = process.env.AIRTABLE_VIEW_ID;
+
+type TransactionsResponse = {
+  transactions: Transaction[];
+  totals: LedgerTotals;
+  types: Record<TransactionType, string>;
+};
+
+// The cash-flow ledger of the LP's investments, or of one with ?investmentId=.
+// ?type= narrows it to one transaction type. Documents-only delegates get none.
+export async function GET(req: Request) {
+  try {
+    const ctx = await resolveLpRequest();
+    if (ctx instanceof Response) return ctx;
+
+    const params = new URL(req.url).searchParams;
+    const investmentId = params.get("investmentId");
+    const type = params.get("type");
+    if (type && !isTransactionType(type)) {
+      return Response.json({ error: "Unknown transaction type" }, { status: 400 });
+    }
+
+    const { records } = await loadLpInvestmentRecords(ctx.email, ctx.role, VIEW_ID, {
+      entityId: ctx.entityId,
+      contactId: ctx.contactId,
+      expand: false,
+    });
+    const reachable = records.filter((record) => record._access !== "documents").map((record) => record.id);
+    if (investmentId && !reachable.includes(investmentId)) {
+      return Response.json({ error: "Investment not found" }, { status: 404 });
+    }
+
+    const transactions = (await loadTransactions(investmentId ? [investmentId] : reachable, ctx.role)).filter(
+      (transaction) => !type || transaction.type === type
+    );
+    const payload: TransactionsResponse = {
+      transactions,
+      totals: ledgerTotals(transactions),
+      types: TRANSACTION_TYPE_LABELS,
+    };
+    return Response.json(payload);
+  } catch (error: any) {
+    console.error("[lp-transactions] Failed to load transactions", error);
+    return Response.json({ error: error?.message || "Failed to load transactions" }, { status: 500 });
+  }
+}
@@ -1,16 +1,14 @@
-import { getSession } from "@/lib/auth";
+import { authorizeRequest } from "@/lib/authz";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET() {
-  const session = await getSession();
-  if (!session || !session.user?.email) {
-    return Response.json({ error: "Unauthorized" }, { status: 401 });
-  }
+  const auth = await authorizeRequest("profile:read", { allowPendingMfa: true });
+  if (auth instanceof Response) return auth;
 
   return Response.json({
-    email: session.user.email,
-    role: session.user.role ?? "lp",
+    email: auth.email,
+    role: auth.role,
   });
 }
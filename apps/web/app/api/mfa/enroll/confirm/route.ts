@@ -0,0 +1,21 @@
+import { authorizeRequest } from "@/lib/authz";
+import { confirmMfaEnrollment } from "@/lib/mfa";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(req: Request) {
+  const auth = await authorizeRequest("profile:read", { allowPendingMfa: true });
+  if (auth instanceof Response) return auth;
+
+  const { email } = auth;
+
+  const body = await req.json().catch(() => ({}));
+  const code = typeof body?.code === "string" ? body.code : "";
+  const recoveryCodes = code ? await confirmMfaEnrollment(email, code) : null;
+  if (!recoveryCodes) {
+    return Response.json({ error: "Invalid code" }, { status: 400 });
+  }
+
+  return Response.json({ recoveryCodes });
+}
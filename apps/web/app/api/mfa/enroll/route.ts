@@ -0,0 +1,21 @@
+import { authorizeRequest } from "@/lib/authz";
+import { beginMfaEnrollment, getMfaStatus } from "@/lib/mfa";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST() {
+  const auth = await authorizeRequest("profile:read", { allowPendingMfa: true });
+  if (auth instanceof Response) return auth;
+
+  const { session, email, role } = auth;
+
+  // Replacing an existing authenticator requires the current one first.
+  const status = await getMfaStatus(email, role);
+  if (status.enrolled && !session.user?.mfaVerified) {
+    return Response.json({ error: "Verify your current authenticator first" }, { status: 403 });
+  }
+
+  const enrollment = await beginMfaEnrollment(email);
+  return Response.json(enrollment);
+}
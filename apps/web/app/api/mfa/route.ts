@@ -0,0 +1,35 @@
+import { authorizeRequest } from "@/lib/authz";
+import { getMfaStatus, isMfaMandatory, removeMfaEnrollment, verifyMfaCode } from "@/lib/mfa";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const auth = await authorizeRequest("profile:read", { allowPendingMfa: true });
+  if (auth instanceof Response) return auth;
+
+  const { session, email, role } = auth;
+
+  const status = await getMfaStatus(email, role);
+  return Response.json({ ...status, verified: Boolean(session.user?.mfaVerified) });
+}
+
+// Turning two-factor off requires a valid code and is never allowed for admins.
+export async function DELETE(req: Request) {
+  const auth = await authorizeRequest("profile:read", { allowPendingMfa: true });
+  if (auth instanceof Response) return auth;
+
+  const { email, role } = auth;
+  if (isMfaMandatory(role)) {
+    return Response.json({ error: "Two-factor authentication is mandatory for administrators" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const code = typeof body?.code === "string" ? body.code : "";
+  if (!code || !(await verifyMfaCode(email, code))) {
+    return Response.json({ error: "Invalid code" }, { status: 400 });
+  }
+
+  await removeMfaEnrollment(email);
+  return Response.json({ ok: true });
+}
@@ -0,0 +1,26 @@
+import { authorizeRequest, hasCronSecret } from "@/lib/authz";
+import { runNotificationCycle } from "@/lib/notifications";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function resolveOrigin(req: Request) {
+  return process.env.NEXTAUTH_URL || new URL(req.url).origin;
+}
+
+// A scheduler authenticates with `Authorization: Bearer <NOTIFICATIONS_CRON_SECRET>`;
+// admins can also trigger a run from a signed-in session.
+export async function POST(req: Request) {
+  if (!hasCronSecret(req, process.env.NOTIFICATIONS_CRON_SECRET)) {
+    const auth = await authorizeRequest("notifications:run");
+    if (auth instanceof Response) return auth;
+  }
+
+  try {
+    const result = await runNotificationCycle(new URL("/lp/docs", resolveOrigin(req)).toString());
+    return Response.json(result);
+  } catch (error: any) {
+    console.error("[notifications] Notification run failed", error);
+    return Response.json({ error: error?.message || "Notification run failed" }, { status: 500 });
+  }
+}
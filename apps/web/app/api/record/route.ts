@@ -1,29 +1,95 @@
-import Airtable from "airtable";
+import { buildFieldChangeEvents, recordAuditEvents, resolveRequestId } from "@/lib/audit";
+import {
+  PARTNER_INVESTMENTS_TABLE,
+  base,
+  recordModifiedTime,
+  type AirtableRecord,
+} from "@/lib/airtable";
+import { authorizeRequest, isTableAllowed } from "@/lib/authz";
+import { invalidateTable } from "@/lib/data-access";
+import { expandPartnerInvestmentRecords } from "@/lib/linked-records";
+import { publishRecordChanges } from "@/lib/live-updates";
+import { diffRecordFields, toModifiedTimeMs, type ConflictResponse } from "@/lib/record-conflicts";
 
 export const runtime = "nodejs";
 
-const base = new Airtable({ apiKey: process.env.AIRTABLE_API_KEY! }).base(
-  process.env.AIRTABLE_BASE_ID!
-);
-
-async function expand(tableName: string, rec: any) {
+function expand(rec: AirtableRecord) {
   return {
     id: rec.id,
     fields: rec.fields,
-    _updatedTime: (rec as any)._rawJson?.modifiedTime || null,
+    _updatedTime: recordModifiedTime(rec),
   };
 }
 
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
 export async function PUT(req: Request) {
+  const auth = await authorizeRequest("records:write");
+  if (auth instanceof Response) return auth;
+
+  const requestId = resolveRequestId(req);
   try {
     const body = await req.json();
-    const { tableIdOrName, recordId, fields } = body || {};
-    if (!tableIdOrName || !recordId || !fields) {
+    const { tableIdOrName, recordId, fields, lastSeenModifiedTime, baseFields } = body || {};
+    if (!tableIdOrName || !recordId || !isPlainObject(fields)) {
       return new Response(JSON.stringify({ error: "Bad request" }), { status: 400 });
     }
+    if (!isTableAllowed(tableIdOrName, "records:write")) {
+      return new Response(JSON.stringify({ error: "Table not editable" }), { status: 403 });
+    }
+    const current = await base(tableIdOrName).find(recordId);
+
+    // A newer modifiedTime means someone saved since this editor loaded the
+    // row. When the client also sent the values it started from, only a real
+    // overlap on the edited fields counts; without a modifiedTime those
+    // values are all there is to go on.
+    const startingFields = isPlainObject(baseFields) ? baseFields : null;
+    const diff = diffRecordFields(current.fields as Record<string, unknown>, fields, startingFields);
+    const currentModified = toModifiedTimeMs(recordModifiedTime(current as AirtableRecord));
+    const lastSeen = toModifiedTimeMs(lastSeenModifiedTime);
+    const overlaps = diff.some((entry) => entry.conflicting);
+    const isConflict =
+      currentModified != null && lastSeen != null
+        ? currentModified > lastSeen && (!startingFields || overlaps)
+        : Boolean(startingFields) && overlaps;
+
+    if (isConflict) {
+      const [latest] = await expandPartnerInvestmentRecords([current as AirtableRecord]);
+      const payload: ConflictResponse = { error: "Conflict", latest, diff };
+      return Response.json(payload, { status: 409, headers: { "X-Request-Id": requestId } });
+    }
+
     const updated = await base(tableIdOrName).update(recordId, fields, { typecast: true });
-    const payload = await expand(tableIdOrName, updated);
-    return Response.json(payload);
+
+    const events = buildFieldChangeEvents(
+      {
+        action: "record.update",
+        actorEmail: auth.email,
+        actorRole: auth.role,
+        table: tableIdOrName,
+        recordId,
+        requestId,
+      },
+      current.fields as Record<string, unknown>,
+      updated.fields as Record<string, unknown>,
+      Object.keys(fields)
+    );
+    try {
+      await recordAuditEvents(events);
+    } catch (error) {
+      // The edit already happened; keep the lost entries in the server log.
+      console.error("[record] Failed to write audit log", { requestId, events }, error);
+    }
+
+    // Only Partner Investments can be edited here; drop the cached copy before
+    // open LP pages are told to refetch.
+    await invalidateTable(PARTNER_INVESTMENTS_TABLE);
+    publishRecordChanges([recordId]);
+
+    const payload = expand(updated);
+    return Response.json(payload, { headers: { "X-Request-Id": requestId } });
   } catch (e: any) {
     return new Response(JSON.stringify({ error: e?.message || "Failed" }), { status: 500 });
   }
@@ -0,0 +1,27 @@
+import { authorizeRequest, hasCronSecret } from "@/lib/authz";
+import { invalidateTable } from "@/lib/data-access";
+import { PARTNER_INVESTMENTS_TABLE } from "@/lib/airtable";
+import { captureNavSnapshots } from "@/lib/nav-snapshots";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// A scheduler authenticates with `Authorization: Bearer <SNAPSHOTS_CRON_SECRET>`;
+// admins can also take a snapshot from a signed-in session. Either way the
+// records are re-read from Airtable rather than the cache.
+export async function POST(req: Request) {
+  const scheduled = hasCronSecret(req, process.env.SNAPSHOTS_CRON_SECRET);
+  if (!scheduled) {
+    const auth = await authorizeRequest("snapshots:run");
+    if (auth instanceof Response) return auth;
+  }
+
+  try {
+    await invalidateTable(PARTNER_INVESTMENTS_TABLE);
+    const result = await captureNavSnapshots({ source: scheduled ? "schedule" : "manual" });
+    return Response.json(result);
+  } catch (error: any) {
+    console.error("[snapshots] Snapshot run failed", error);
+    return Response.json({ error: error?.message || "Snapshot run failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { PARTNER_INVESTMENTS_TABLE, airtableLimiter, base } from "@/lib/airtable";
+import { authorizeRequest, isTableAllowed } from "@/lib/authz";
+import { isRole } from "@/lib/is-admin";
+import { allowedFieldsFor, filterFields, getVisibilityPolicy } from "@/lib/visibility-policy";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// What a role would see under the current visibility policy: the fields rules
+// allow and hide, and, given a recordId, that record as the role receives it.
+export async function GET(req: Request) {
+  const auth = await authorizeRequest("visibility:read");
+  if (auth instanceof Response) return auth;
+
+  const params = new URL(req.url).searchParams;
+  const tableId = params.get("tableId") || PARTNER_INVESTMENTS_TABLE;
+  const role = params.get("role") || "lp";
+  const recordId = params.get("recordId");
+  if (!isTableAllowed(tableId, "visibility:read")) {
+    return Response.json({ error: "Table not allowed" }, { status: 403 });
+  }
+  if (!isRole(role)) {
+    return Response.json({ error: "Unknown role" }, { status: 400 });
+  }
+
+  try {
+    const policy = await getVisibilityPolicy(tableId);
+    const allowed = allowedFieldsFor(policy, role);
+    const ruleFields = policy.rules.map((rule) => rule.fieldId);
+
+    let record: { id: string; fields: Record<string, unknown>; hiddenFields: string[] } | null = null;
+    if (recordId) {
+      const found = await airtableLimiter.schedule(() => base(tableId).find(recordId));
+      const fields = found.fields as Record<string, unknown>;
+      const visible = filterFields(fields, allowed);
+      record = {
+        id: found.id,
+        fields: visible,
+        hiddenFields: Object.keys(fields).filter((key) => !(key in visible)),
+      };
+    }
+
+    return Response.json({
+      tableId,
+      role,
+      version: policy.version,
+      allFieldsVisible: allowed === null,
+      visibleFields: allowed ? Array.from(allowed).sort() : ruleFields,
+      hiddenFields: allowed ? ruleFields.filter((field) => !allowed.has(field)) : [],
+      record,
+    });
+  } catch (error: any) {
+    console.error("[visibility] Failed to preview visibility", error);
+    return Response.json({ error: error?.message || "Failed to preview visibility" }, { status: 500 });
+  }
+}
@@ -1,53 +1,113 @@
-import Airtable from "airtable";
+import { buildFieldChangeEvents, recordAuditEvents, resolveRequestId } from "@/lib/audit";
+import { VISIBILITY_RULES_TABLE, airtableLimiter, base } from "@/lib/airtable";
+import { authorizeRequest, isTableAllowed, type AuthorizedRequest } from "@/lib/authz";
+import { publishRefresh } from "@/lib/live-updates";
+import { getVisibilityPolicy, invalidateVisibilityPolicy, listVisibilityRules } from "@/lib/visibility-policy";
 
 export const runtime = "nodejs";
 
-const base = new Airtable({ apiKey: process.env.AIRTABLE_API_KEY! }).base(
-  process.env.AIRTABLE_BASE_ID!
-);
+function escapeFormulaValue(value: string) {
+  return value.replace(/'/g, "''");
+}
+
+const RULE_SETTINGS = ["visibleToLP", "visibleToPartners", "notes"];
+
+async function auditRuleChange(
+  auth: AuthorizedRequest,
+  requestId: string,
+  ruleId: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+) {
+  const events = buildFieldChangeEvents(
+    {
+      action: "visibility.upsert",
+      actorEmail: auth.email,
+      actorRole: auth.role,
+      table: VISIBILITY_RULES_TABLE,
+      recordId: ruleId,
+      requestId,
+      details: { tableId: after.tableId, fieldId: after.fieldId },
+    },
+    before,
+    after,
+    RULE_SETTINGS
+  );
+  try {
+    await recordAuditEvents(events);
+  } catch (error) {
+    console.error("[visibility] Failed to write audit log", { requestId, events }, error);
+  }
+}
+
+// Drops the cached policy so the change applies to the next LP request, and
+// reports the policy version it produced.
+async function ruleSaved(tableId: string, rule: Record<string, unknown>) {
+  await invalidateVisibilityPolicy();
+  publishRefresh("visibility");
+  const policy = await getVisibilityPolicy(tableId);
+  return Response.json(rule, { headers: { "X-Visibility-Version": policy.version } });
+}
 
 export async function GET() {
+  const auth = await authorizeRequest("visibility:read");
+  if (auth instanceof Response) return auth;
+
   try {
-    const page = await base("VisibilityRules").select({ pageSize: 100 }).firstPage();
-    const rows = page.map((r) => ({ id: r.id, ...(r.fields as any) }));
-    return Response.json(rows);
+    return Response.json(await listVisibilityRules());
   } catch (e: any) {
     return new Response(JSON.stringify({ error: e?.message || "Failed" }), { status: 500 });
   }
 }
 
 export async function POST(req: Request) {
+  const auth = await authorizeRequest("visibility:write");
+  if (auth instanceof Response) return auth;
+
+  const requestId = resolveRequestId(req);
   try {
     const body = await req.json();
     const { tableId, fieldId, visibleToLP, visibleToPartners, notes } = body || {};
     if (!tableId || !fieldId)
       return new Response(JSON.stringify({ error: "Bad request" }), { status: 400 });
+    if (!isTableAllowed(tableId, "visibility:write"))
+      return new Response(JSON.stringify({ error: "Table not allowed" }), { status: 403 });
 
-    const existing = await base("VisibilityRules")
-      .select({
-        filterByFormula: `AND({tableId}='${tableId}', {fieldId}='${fieldId}')`,
-        pageSize: 1,
-      })
-      .firstPage();
+    // Read fresh rather than through the policy cache, so the upsert sees
+    // rules saved moments ago.
+    const existing = await airtableLimiter.schedule(() =>
+      base(VISIBILITY_RULES_TABLE)
+        .select({
+          filterByFormula: `AND({tableId}='${escapeFormulaValue(tableId)}', {fieldId}='${escapeFormulaValue(String(fieldId))}')`,
+          pageSize: 1,
+        })
+        .firstPage()
+    );
 
     if (existing[0]) {
-      const rec = await base("VisibilityRules").update(existing[0].id, {
-        tableId,
-        fieldId,
-        visibleToLP,
-        visibleToPartners,
-        notes,
-      });
-      return Response.json({ id: rec.id, ...(rec.fields as any) });
+      const rec = await airtableLimiter.schedule(() =>
+        base(VISIBILITY_RULES_TABLE).update(existing[0].id, {
+          tableId,
+          fieldId,
+          visibleToLP,
+          visibleToPartners,
+          notes,
+        })
+      );
+      await auditRuleChange(auth, requestId, rec.id, existing[0].fields, rec.fields);
+      return ruleSaved(tableId, { id: rec.id, ...rec.fields });
     } else {
-      const rec = await base("VisibilityRules").create({
-        tableId,
-        fieldId,
-        visibleToLP,
-        visibleToPartners,
-        notes,
-      });
-      return Response.json({ id: rec.id, ...(rec.fields as any) });
+      const rec = await airtableLimiter.schedule(() =>
+        base(VISIBILITY_RULES_TABLE).create({
+          tableId,
+          fieldId,
+          visibleToLP,
+          visibleToPartners,
+          notes,
+        })
+      );
+      await auditRuleChange(auth, requestId, rec.id, {}, rec.fields);
+      return ruleSaved(tableId, { id: rec.id, ...rec.fields });
     }
   } catch (e: any) {
     return new Response(JSON.stringify({ error: e?.message || "Failed" }), { status: 500 });
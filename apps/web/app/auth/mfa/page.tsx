@@ -0,0 +1,264 @@
+"use client";
+
+import { FormEvent, Suspense, useCallback, useEffect, useState, type ReactNode } from "react";
+import { SessionProvider, useSession } from "next-auth/react";
+import { useSearchParams } from "next/navigation";
+
+type MfaStatus = {
+  enrolled: boolean;
+  required: boolean;
+  verified: boolean;
+  recoveryCodesRemaining: number;
+};
+
+type Enrollment = {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+};
+
+export default function MfaPage() {
+  return (
+    <SessionProvider>
+      <Suspense fallback={<MfaShell title="Loading…" />}>
+        <MfaFlow />
+      </Suspense>
+    </SessionProvider>
+  );
+}
+
+function MfaFlow() {
+  const searchParams = useSearchParams();
+  const { update } = useSession();
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const callbackUrl = searchParams?.get("callbackUrl") || "/lp";
+  const setupRequested = searchParams?.get("setup") === "1";
+
+  const loadStatus = useCallback(async () => {
+    const response = await fetch("/api/mfa", { cache: "no-store", credentials: "same-origin" });
+    if (response.status === 401) {
+      window.location.href = `/auth/signin?callbackUrl=${encodeURIComponent(callbackUrl)}`;
+      return;
+    }
+    const payload = (await response.json()) as MfaStatus;
+    setStatus(payload);
+    if (payload.verified && !setupRequested) {
+      window.location.href = callbackUrl;
+    }
+  }, [callbackUrl, setupRequested]);
+
+  useEffect(() => {
+    loadStatus().catch((error) => {
+      console.error("[mfa] Failed to load status", error);
+      setErrorMessage("We couldn't load your two-factor settings. Please refresh the page.");
+    });
+  }, [loadStatus]);
+
+  const proveSecondFactor = async (value: string) => {
+    const session = await update({ mfaCode: value });
+    return Boolean(session?.user?.mfaVerified);
+  };
+
+  const handleStartEnrollment = async () => {
+    setSubmitting(true);
+    setErrorMessage(null);
+    try {
+      const response = await fetch("/api/mfa/enroll", { method: "POST", credentials: "same-origin" });
+      if (!response.ok) throw new Error(`Request failed with status ${response.status}`);
+      setEnrollment((await response.json()) as Enrollment);
+    } catch (error) {
+      console.error("[mfa] Failed to start enrollment", error);
+      setErrorMessage("We couldn't start two-factor setup. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleConfirmEnrollment = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setErrorMessage(null);
+    try {
+      const response = await fetch("/api/mfa/enroll/confirm", {
+        method: "POST",
+        credentials: "same-origin",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      if (!response.ok) {
+        setErrorMessage("That code didn't match. Check your authenticator app and try again.");
+        return;
+      }
+      const payload = (await response.json()) as { recoveryCodes: string[] };
+      await proveSecondFactor(code);
+      setRecoveryCodes(payload.recoveryCodes);
+      setCode("");
+    } catch (error) {
+      console.error("[mfa] Failed to confirm enrollment", error);
+      setErrorMessage("We couldn't confirm two-factor setup. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setErrorMessage(null);
+    try {
+      if (await proveSecondFactor(code)) {
+        window.location.href = callbackUrl;
+        return;
+      }
+      setErrorMessage("That code didn't match. Try the current code from your app or a recovery code.");
+    } catch (error) {
+      console.error("[mfa] Verification failed", error);
+      setErrorMessage("We couldn't verify that code. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!status) {
+    return <MfaShell title="Two-factor authentication">{errorMessage ? <ErrorNotice message={errorMessage} /> : null}</MfaShell>;
+  }
+
+  if (recoveryCodes) {
+    return (
+      <MfaShell title="Save your recovery codes">
+        <p className="text-sm text-slate-600">
+          Each code can be used once if you lose access to your authenticator app. Store them somewhere safe — they
+          will not be shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 rounded-xl bg-slate-50 p-4 font-mono text-sm text-slate-800">
+          {recoveryCodes.map((entry) => (
+            <li key={entry}>{entry}</li>
+          ))}
+        </ul>
+        <button
+          type="button"
+          onClick={() => {
+            window.location.href = callbackUrl;
+          }}
+          className="w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blue-700"
+        >
+          Continue
+        </button>
+      </MfaShell>
+    );
+  }
+
+  if (!status.enrolled || (setupRequested && status.verified)) {
+    return (
+      <MfaShell title="Set up two-factor authentication">
+        <p className="text-sm text-slate-600">
+          {status.required && !status.enrolled
+            ? "Administrators must protect their account with an authenticator app before continuing."
+            : "Protect your investor account with a code from an authenticator app each time you sign in."}
+        </p>
+        {enrollment ? (
+          <form onSubmit={handleConfirmEnrollment} className="space-y-4 text-left">
+            <div className="flex flex-col items-center gap-3">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={enrollment.qrCodeDataUrl} alt="Authenticator QR code" className="h-48 w-48" />
+              <p className="text-xs text-slate-500">
+                Can&apos;t scan? Enter this key manually:{" "}
+                <span className="break-all font-mono text-slate-700">{enrollment.secret}</span>
+              </p>
+            </div>
+            <CodeInput value={code} onChange={setCode} />
+            <SubmitButton disabled={!code || submitting} label={submitting ? "Confirming…" : "Confirm and continue"} />
+          </form>
+        ) : (
+          <button
+            type="button"
+            onClick={handleStartEnrollment}
+            disabled={submitting}
+            className="w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-blue-300"
+          >
+            {submitting ? "Preparing…" : "Set up authenticator app"}
+          </button>
+        )}
+        {errorMessage ? <ErrorNotice message={errorMessage} /> : null}
+      </MfaShell>
+    );
+  }
+
+  return (
+    <MfaShell title="Enter your verification code">
+      <p className="text-sm text-slate-600">
+        Open your authenticator app and enter the 6-digit code for the JBV Investment Platform, or use one of your
+        recovery codes.
+      </p>
+      <form onSubmit={handleVerify} className="space-y-4 text-left">
+        <CodeInput value={code} onChange={setCode} allowRecovery />
+        <SubmitButton disabled={!code || submitting} label={submitting ? "Verifying…" : "Verify"} />
+      </form>
+      {errorMessage ? <ErrorNotice message={errorMessage} /> : null}
+    </MfaShell>
+  );
+}
+
+function CodeInput({
+  value,
+  onChange,
+  allowRecovery,
+}: {
+  value: string;
+  onChange: (next: string) => void;
+  allowRecovery?: boolean;
+}) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-slate-700" htmlFor="mfa-code">
+        {allowRecovery ? "Authentication or recovery code" : "Authentication code"}
+      </label>
+      <input
+        id="mfa-code"
+        inputMode={allowRecovery ? "text" : "numeric"}
+        autoComplete="one-time-code"
+        required
+        value={value}
+        onChange={(event) => onChange(event.target.value.trim())}
+        className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-center font-mono text-lg tracking-widest text-slate-900 shadow-sm focus:border-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-100"
+        placeholder="123456"
+      />
+    </div>
+  );
+}
+
+function SubmitButton({ disabled, label }: { disabled: boolean; label: string }) {
+  return (
+    <button
+      type="submit"
+      disabled={disabled}
+      className="w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-blue-300"
+    >
+      {label}
+    </button>
+  );
+}
+
+function ErrorNotice({ message }: { message: string }) {
+  return <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-600">{message}</div>;
+}
+
+function MfaShell({ title, children }: { title: string; children?: ReactNode }) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-50 px-4 py-16">
+      <div className="w-full max-w-md space-y-4 rounded-2xl bg-white p-6 text-center shadow-sm ring-1 ring-slate-200">
+        <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-blue-600 text-sm font-semibold text-white">
+          JBV
+        </div>
+        <h1 className="text-lg font-semibold text-slate-900">{title}</h1>
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,15 @@
 "use client";
 
 import Link from "next/link";
-import { FormEvent, Suspense, useMemo, useState } from "react";
-import { signIn } from "next-auth/react";
+import { FormEvent, Suspense, useEffect, useMemo, useState } from "react";
 import { useSearchParams } from "next/navigation";
 
 const ERROR_MESSAGES: Record<string, string> = {
-  CredentialsSignin: "We couldn't find that email in our investor records.",
   AccessDenied: "You do not have permission to access this area.",
+  LinkExpired: "That sign-in link has expired. Request a new one below.",
+  LinkUsed: "That sign-in link has already been used. Request a new one below.",
+  LinkInvalid: "That sign-in link is not valid. Request a new one below.",
+  CredentialsSignin: "We couldn't verify that sign-in link. Request a new one below.",
 };
 
 export default function SignInPage() {
@@ -21,8 +23,11 @@ export default function SignInPage() {
 function SignInForm() {
   const searchParams = useSearchParams();
   const [email, setEmail] = useState("");
-  const [status, setStatus] = useState<"idle" | "submitting">("idle");
+  const [status, setStatus] = useState<"idle" | "sent">("idle");
+  const [submitting, setSubmitting] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [resendAvailableAt, setResendAvailableAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
 
   const callbackUrl = searchParams?.get("callbackUrl") || "/lp";
 
@@ -32,43 +37,60 @@ function SignInForm() {
     return ERROR_MESSAGES[errorKey] || "We were unable to sign you in. Please try again.";
   }, [searchParams]);
 
-  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    setStatus("submitting");
+  useEffect(() => {
+    if (!resendAvailableAt) return;
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [resendAvailableAt]);
+
+  const resendSeconds = resendAvailableAt ? Math.max(0, Math.ceil((resendAvailableAt - now) / 1000)) : 0;
+
+  const requestLink = async () => {
+    setSubmitting(true);
     setErrorMessage(null);
 
     try {
-      const result = await signIn("credentials", {
-        email,
-        callbackUrl,
-        redirect: false,
+      const response = await fetch("/api/auth/magic-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, callbackUrl }),
       });
+      const payload = (await response.json().catch(() => ({}))) as { retryAfter?: number; error?: string };
 
-      if (!result) {
-        setErrorMessage("Unexpected authentication response. Please try again.");
+      if (response.status === 429) {
+        setResendAvailableAt(Date.now() + (payload.retryAfter ?? 60) * 1000);
+        setNow(Date.now());
+        setStatus("sent");
         return;
       }
 
-      if (result.error) {
-        const friendly = ERROR_MESSAGES[result.error] || "We couldn't verify that email.";
-        setErrorMessage(friendly);
+      if (!response.ok) {
+        setErrorMessage("We couldn't send a sign-in link. Please try again or contact support.");
         return;
       }
 
-      if (result.url) {
-        window.location.href = result.url;
-        return;
-      }
-
-      window.location.href = callbackUrl;
+      setResendAvailableAt(Date.now() + (payload.retryAfter ?? 60) * 1000);
+      setNow(Date.now());
+      setStatus("sent");
     } catch (error) {
-      console.error("[auth] Email sign-in failed", error);
-      setErrorMessage("We couldn't verify that email. Please try again or contact support.");
+      console.error("[auth] Magic link request failed", error);
+      setErrorMessage("We couldn't send a sign-in link. Please try again or contact support.");
     } finally {
-      setStatus("idle");
+      setSubmitting(false);
     }
   };
 
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    await requestLink();
+  };
+
+  const handleUseDifferentEmail = () => {
+    setStatus("idle");
+    setResendAvailableAt(null);
+    setErrorMessage(null);
+  };
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-slate-50 px-4 py-16">
       <div className="w-full max-w-md space-y-8">
@@ -78,37 +100,68 @@ function SignInForm() {
           </div>
           <h1 className="text-2xl font-semibold text-slate-900">JBV Investment Platform</h1>
           <p className="text-sm text-slate-600">
-            Enter the email associated with your investor profile to access the limited partner experience.
+            Enter the email associated with your investor profile and we will send you a secure sign-in link.
           </p>
         </div>
 
         <div className="space-y-4 rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2 text-left">
-              <label className="text-sm font-medium text-slate-700" htmlFor="email">
-                Email address
-              </label>
-              <input
-                id="email"
-                type="email"
-                required
-                value={email}
-                onChange={(event) => setEmail(event.target.value)}
-                className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm focus:border-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-100"
-                placeholder="you@example.com"
-                autoComplete="email"
-              />
+          {status === "sent" ? (
+            <div className="space-y-4 text-left">
+              <div className="space-y-1">
+                <h2 className="text-base font-semibold text-slate-900">Check your inbox</h2>
+                <p className="text-sm text-slate-600">
+                  If <span className="font-medium text-slate-900">{email}</span> is associated with an investor
+                  profile, we just sent it a one-time sign-in link. The link expires shortly and can only be used once.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={requestLink}
+                disabled={submitting || resendSeconds > 0}
+                className="w-full rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:text-slate-400"
+              >
+                {submitting
+                  ? "Sending link…"
+                  : resendSeconds > 0
+                  ? `Resend link in ${resendSeconds}s`
+                  : "Resend link"}
+              </button>
+              <button
+                type="button"
+                onClick={handleUseDifferentEmail}
+                className="w-full text-center text-xs font-semibold text-blue-600 hover:underline"
+              >
+                Use a different email
+              </button>
             </div>
-            <button
-              type="submit"
-              disabled={!email || status === "submitting"}
-              className="w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition disabled:cursor-not-allowed disabled:bg-blue-300 hover:bg-blue-700 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-600"
-            >
-              {status === "submitting" ? "Signing in…" : "Continue"}
-            </button>
-          </form>
-
-          {(errorMessage || queryError) && (
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2 text-left">
+                <label className="text-sm font-medium text-slate-700" htmlFor="email">
+                  Email address
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  required
+                  value={email}
+                  onChange={(event) => setEmail(event.target.value)}
+                  className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm focus:border-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-100"
+                  placeholder="you@example.com"
+                  autoComplete="email"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={!email || submitting}
+                className="w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition disabled:cursor-not-allowed disabled:bg-blue-300 hover:bg-blue-700 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-600"
+              >
+                {submitting ? "Sending link…" : "Email me a sign-in link"}
+              </button>
+            </form>
+          )}
+
+          {(errorMessage || (status !== "sent" && queryError)) && (
             <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-600">
               {errorMessage || queryError}
             </div>
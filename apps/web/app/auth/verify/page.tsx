@@ -0,0 +1,87 @@
+"use client";
+
+import Link from "next/link";
+import { Suspense, useEffect, useRef, useState, type ReactNode } from "react";
+import { signIn } from "next-auth/react";
+import { useSearchParams } from "next/navigation";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  LinkExpired: "This sign-in link has expired.",
+  LinkUsed: "This sign-in link has already been used.",
+  LinkInvalid: "This sign-in link is not valid.",
+  CredentialsSignin: "We couldn't find an investor profile for this link.",
+};
+
+export default function VerifyPage() {
+  return (
+    <Suspense fallback={<VerifyShell title="Verifying your link…" />}>
+      <VerifyLink />
+    </Suspense>
+  );
+}
+
+function VerifyLink() {
+  const searchParams = useSearchParams();
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const attemptedRef = useRef(false);
+
+  const token = searchParams?.get("token") || "";
+  const callbackUrl = searchParams?.get("callbackUrl") || "/lp";
+
+  useEffect(() => {
+    // Tokens are single use, so guard against the double effect run in strict mode.
+    if (attemptedRef.current) return;
+    attemptedRef.current = true;
+
+    if (!token) {
+      setErrorMessage(ERROR_MESSAGES.LinkInvalid);
+      return;
+    }
+
+    (async () => {
+      try {
+        const result = await signIn("magic-link", { token, callbackUrl, redirect: false });
+        if (!result || result.error) {
+          const key = result?.error || "CredentialsSignin";
+          setErrorMessage(ERROR_MESSAGES[key] || "We were unable to sign you in.");
+          return;
+        }
+        window.location.href = result.url || callbackUrl;
+      } catch (error) {
+        console.error("[auth] Magic link verification failed", error);
+        setErrorMessage("We were unable to sign you in.");
+      }
+    })();
+  }, [token, callbackUrl]);
+
+  if (errorMessage) {
+    const retryUrl = `/auth/signin?callbackUrl=${encodeURIComponent(callbackUrl)}`;
+    return (
+      <VerifyShell title="Sign-in link unavailable">
+        <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-600">{errorMessage}</div>
+        <Link
+          href={retryUrl}
+          className="block w-full rounded-lg bg-blue-600 px-4 py-2 text-center text-sm font-semibold text-white shadow-sm transition hover:bg-blue-700"
+        >
+          Request a new link
+        </Link>
+      </VerifyShell>
+    );
+  }
+
+  return <VerifyShell title="Signing you in…" />;
+}
+
+function VerifyShell({ title, children }: { title: string; children?: ReactNode }) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-50 px-4 py-16">
+      <div className="w-full max-w-md space-y-4 rounded-2xl bg-white p-6 text-center shadow-sm ring-1 ring-slate-200">
+        <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-blue-600 text-sm font-semibold text-white">
+          JBV
+        </div>
+        <h1 className="text-lg font-semibold text-slate-900">{title}</h1>
+        {children}
+      </div>
+    </div>
+  );
+}
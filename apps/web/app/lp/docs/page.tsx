@@ -1,7 +1,8 @@
 "use client";
 
-import { useMemo } from "react";
-import { usePolling, type RefreshStatus } from "@/hooks/usePolling";
+import { useEffect, useMemo, useState } from "react";
+import { useLiveData, type RefreshStatus } from "@/hooks/useLiveData";
+import { DOCUMENT_CATEGORY_LABELS, type DocumentCategory } from "@/lib/document-taxonomy";
 import { formatDate } from "@/lib/format";
 
 interface DocumentItem {
@@ -13,6 +14,7 @@ interface DocumentItem {
   periodEnding?: any;
   field: string;
   index: number;
+  category: DocumentCategory;
 }
 
 interface DocumentsResponse {
@@ -70,8 +72,42 @@ function getPeriodSortValue(value: any) {
   return Number.NEGATIVE_INFINITY;
 }
 
+function archiveKey(doc: DocumentItem) {
+  return `${doc.investmentId}:${doc.index}:${doc.field}`;
+}
+
+function periodValue(value: any) {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+type DocumentFilters = {
+  investmentId: string;
+  period: string;
+  field: string;
+};
+
+const EMPTY_FILTERS: DocumentFilters = { investmentId: "", period: "", field: "" };
+
+type NotificationFrequency = "immediate" | "weekly" | "off";
+
+const FREQUENCY_OPTIONS: { value: NotificationFrequency; label: string }[] = [
+  { value: "immediate", label: "As soon as they are posted" },
+  { value: "weekly", label: "In a weekly digest" },
+  { value: "off", label: "Never" },
+];
+
+type ShareState =
+  | { status: "loading" }
+  | { status: "ready"; url: string; expiresAt: string; copied?: boolean }
+  | { status: "error"; message: string };
+
 export default function DocumentsPage() {
-  const { data, status, error, initialized, lastUpdated } = usePolling<DocumentsResponse>("/api/lp/documents", {
+  const [shares, setShares] = useState<Record<string, ShareState>>({});
+  const [filters, setFilters] = useState<DocumentFilters>(EMPTY_FILTERS);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [frequency, setFrequency] = useState<NotificationFrequency | null>(null);
+  const [frequencyStatus, setFrequencyStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+  const { data, status, error, initialized, lastUpdated } = useLiveData<DocumentsResponse>("/api/lp/documents", {
     interval: 120000,
   });
   const note = data?.note;
@@ -85,6 +121,131 @@ export default function DocumentsPage() {
     return null;
   }, [note]);
 
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/lp/notifications", { cache: "no-store", credentials: "same-origin" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload) => {
+        if (!cancelled && payload?.frequency) setFrequency(payload.frequency);
+      })
+      .catch((err) => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const saveFrequency = async (next: NotificationFrequency) => {
+    const previous = frequency;
+    setFrequency(next);
+    setFrequencyStatus("saving");
+    try {
+      const response = await fetch("/api/lp/notifications", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "same-origin",
+        body: JSON.stringify({ frequency: next }),
+      });
+      if (!response.ok) throw new Error(`Request failed with status ${response.status}`);
+      setFrequencyStatus("saved");
+    } catch (err) {
+      console.error(err);
+      setFrequency(previous);
+      setFrequencyStatus("error");
+    }
+  };
+
+  const createShareLink = async (doc: DocumentItem, docKey: string) => {
+    setShares((current) => ({ ...current, [docKey]: { status: "loading" } }));
+    try {
+      const response = await fetch("/api/lp/documents/share", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "same-origin",
+        body: JSON.stringify({ recordId: doc.investmentId, field: doc.field, index: doc.index }),
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(payload?.error || "Unable to create a share link.");
+      }
+      setShares((current) => ({
+        ...current,
+        [docKey]: { status: "ready", url: payload.url, expiresAt: payload.expiresAt },
+      }));
+    } catch (err: any) {
+      setShares((current) => ({
+        ...current,
+        [docKey]: { status: "error", message: err?.message || "Unable to create a share link." },
+      }));
+    }
+  };
+
+  const copyShareLink = async (docKey: string, url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setShares((current) => {
+        const share = current[docKey];
+        return share?.status === "ready" ? { ...current, [docKey]: { ...share, copied: true } } : current;
+      });
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const filterOptions = useMemo(() => {
+    const investments = new Map<string, string>();
+    const periods = new Map<string, any>();
+    const fields = new Set<string>();
+    (data?.documents || []).forEach((doc) => {
+      investments.set(doc.investmentId, doc.investmentName || "Unassigned Investment");
+      if (periodValue(doc.periodEnding)) periods.set(periodValue(doc.periodEnding), doc.periodEnding);
+      fields.add(doc.field);
+    });
+    return {
+      investments: Array.from(investments.entries()).sort((a, b) => a[1].localeCompare(b[1])),
+      periods: Array.from(periods.entries()).sort((a, b) => getPeriodSortValue(b[1]) - getPeriodSortValue(a[1])),
+      fields: Array.from(fields).sort((a, b) => a.localeCompare(b)),
+    };
+  }, [data]);
+
+  const visibleDocuments = useMemo(
+    () =>
+      (data?.documents || []).filter(
+        (doc) =>
+          (!filters.investmentId || doc.investmentId === filters.investmentId) &&
+          (!filters.period || periodValue(doc.periodEnding) === filters.period) &&
+          (!filters.field || doc.field === filters.field)
+      ),
+    [data, filters]
+  );
+
+  const selectedVisible = useMemo(
+    () => visibleDocuments.filter((doc) => selected.has(archiveKey(doc))),
+    [visibleDocuments, selected]
+  );
+
+  const toggleSelected = (doc: DocumentItem) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      const key = archiveKey(doc);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const archiveUrl = useMemo(() => {
+    const params = new URLSearchParams();
+    if (selectedVisible.length) {
+      selectedVisible.forEach((doc) => params.append("doc", archiveKey(doc)));
+    } else {
+      if (filters.investmentId) params.set("investmentId", filters.investmentId);
+      if (filters.period) params.set("period", filters.period);
+      if (filters.field) params.set("field", filters.field);
+    }
+    const query = params.toString();
+    return `/api/lp/documents/archive${query ? `?${query}` : ""}`;
+  }, [filters, selectedVisible]);
+
   const grouped = useMemo(() => {
     const sections = new Map<
       string,
@@ -94,7 +255,7 @@ export default function DocumentsPage() {
         periods: Map<string, { periodEnding: any; documents: DocumentItem[] }>;
       }
     >();
-    (data?.documents || []).forEach((doc) => {
+    visibleDocuments.forEach((doc) => {
       const key = doc.investmentId || doc.investmentName || "unassigned";
       if (!sections.has(key)) {
         sections.set(key, {
@@ -120,7 +281,7 @@ export default function DocumentsPage() {
         }))
         .sort((a, b) => getPeriodSortValue(b.periodEnding) - getPeriodSortValue(a.periodEnding)),
     }));
-  }, [data]);
+  }, [visibleDocuments]);
 
   return (
     <div className="space-y-6">
@@ -129,7 +290,28 @@ export default function DocumentsPage() {
           <h2 className="text-2xl font-semibold text-slate-900">Document Center</h2>
           <p className="text-sm text-slate-500">Secure access to statements, capital calls, and investor communications.</p>
         </div>
-        {buildStatusBadge(status, lastUpdated)}
+        <div className="flex flex-wrap items-center gap-3">
+          {frequency ? (
+            <label className="flex items-center gap-2 text-xs text-slate-500">
+              <span>Email me about new documents</span>
+              <select
+                value={frequency}
+                onChange={(event) => saveFrequency(event.target.value as NotificationFrequency)}
+                disabled={frequencyStatus === "saving"}
+                className="rounded-lg border border-slate-200 px-2 py-1 text-xs text-slate-700"
+              >
+                {FREQUENCY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              {frequencyStatus === "saved" ? <span className="text-emerald-600">Saved</span> : null}
+              {frequencyStatus === "error" ? <span className="text-red-600">Unable to save</span> : null}
+            </label>
+          ) : null}
+          {buildStatusBadge(status, lastUpdated)}
+        </div>
       </div>
 
       {status === "error" && error ? (
@@ -144,11 +326,84 @@ export default function DocumentsPage() {
         </div>
       ) : null}
 
+      {initialized && data?.documents?.length ? (
+        <div className="flex flex-wrap items-end gap-3 rounded-2xl bg-white p-4 shadow-sm ring-1 ring-slate-200">
+          <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            <span>Investment</span>
+            <select
+              value={filters.investmentId}
+              onChange={(event) => setFilters((current) => ({ ...current, investmentId: event.target.value }))}
+              className="block rounded-lg border border-slate-200 px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-700"
+            >
+              <option value="">All investments</option>
+              {filterOptions.investments.map(([id, name]) => (
+                <option key={id} value={id}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            <span>Period</span>
+            <select
+              value={filters.period}
+              onChange={(event) => setFilters((current) => ({ ...current, period: event.target.value }))}
+              className="block rounded-lg border border-slate-200 px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-700"
+            >
+              <option value="">All periods</option>
+              {filterOptions.periods.map(([value, raw]) => (
+                <option key={value} value={value}>
+                  {formatPeriod(raw)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            <span>Document</span>
+            <select
+              value={filters.field}
+              onChange={(event) => setFilters((current) => ({ ...current, field: event.target.value }))}
+              className="block rounded-lg border border-slate-200 px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-700"
+            >
+              <option value="">All documents</option>
+              {filterOptions.fields.map((field) => (
+                <option key={field} value={field}>
+                  {field}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="ml-auto flex items-center gap-2">
+            {selectedVisible.length ? (
+              <button
+                type="button"
+                onClick={() => setSelected(new Set())}
+                className="rounded-xl border border-slate-200 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600 transition hover:border-blue-400 hover:text-blue-700"
+              >
+                Clear selection
+              </button>
+            ) : null}
+            {visibleDocuments.length ? (
+              <a
+                href={archiveUrl}
+                className="rounded-xl bg-blue-600 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white shadow-sm transition hover:bg-blue-700"
+              >
+                {selectedVisible.length
+                  ? `Download selected (${selectedVisible.length}) as ZIP`
+                  : `Download all (${visibleDocuments.length}) as ZIP`}
+              </a>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+
       {!initialized ? (
         <div className="h-64 animate-pulse rounded-2xl bg-gradient-to-br from-slate-200/80 to-slate-100" />
       ) : !grouped.length && status !== "error" ? (
         <div className="rounded-2xl border border-dashed border-slate-200 p-10 text-center text-sm text-slate-500">
-          Documents shared with your investments will surface here automatically.
+          {data?.documents?.length
+            ? "No documents match these filters."
+            : "Documents shared with your investments will surface here automatically."}
         </div>
       ) : (
         <div className="space-y-6">
@@ -174,20 +429,71 @@ export default function DocumentsPage() {
                           )}&field=${encodeURIComponent(doc.field)}&index=${doc.index}`;
                           const docKey = `${doc.investmentId}-${doc.field}-${doc.index}`;
                           const sizeLabel = doc.size ? `${(doc.size / (1024 * 1024)).toFixed(2)} MB` : null;
+                          const share = shares[docKey];
                           return (
-                            <a
-                              key={docKey}
-                              href={downloadUrl}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="flex items-center justify-between rounded-xl border border-slate-200 px-4 py-3 text-sm text-blue-700 transition hover:border-blue-400 hover:bg-blue-50"
-                            >
-                              <div>
-                                <p className="font-medium text-slate-900">{doc.name}</p>
-                                <p className="text-xs text-slate-500">{sizeLabel ? `Size: ${sizeLabel}` : "Secure proxy download"}</p>
+                            <div key={docKey} className="space-y-2">
+                              <div className="flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={selected.has(archiveKey(doc))}
+                                  onChange={() => toggleSelected(doc)}
+                                  aria-label={`Select ${doc.name}`}
+                                  className="h-4 w-4 rounded border-slate-300"
+                                />
+                                <a
+                                  href={downloadUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="flex flex-1 items-center justify-between rounded-xl border border-slate-200 px-4 py-3 text-sm text-blue-700 transition hover:border-blue-400 hover:bg-blue-50"
+                                >
+                                  <div>
+                                    <p className="font-medium text-slate-900">
+                                      {doc.name}
+                                      <span className="ml-2 rounded-full bg-slate-100 px-2 py-0.5 align-middle text-[11px] font-semibold text-slate-600">
+                                        {DOCUMENT_CATEGORY_LABELS[doc.category] ?? doc.field}
+                                      </span>
+                                    </p>
+                                    <p className="text-xs text-slate-500">{sizeLabel ? `Size: ${sizeLabel}` : "Secure proxy download"}</p>
+                                  </div>
+                                  <span className="text-xs font-semibold uppercase tracking-wide text-blue-600">Download</span>
+                                </a>
+                                <button
+                                  type="button"
+                                  onClick={() => createShareLink(doc, docKey)}
+                                  disabled={share?.status === "loading"}
+                                  title="Create a temporary link for your accountant or advisor"
+                                  className="rounded-xl border border-slate-200 px-3 py-3 text-xs font-semibold uppercase tracking-wide text-slate-600 transition hover:border-blue-400 hover:text-blue-700 disabled:opacity-60"
+                                >
+                                  {share?.status === "loading" ? "Sharing…" : "Share"}
+                                </button>
                               </div>
-                              <span className="text-xs font-semibold uppercase tracking-wide text-blue-600">Download</span>
-                            </a>
+                              {share?.status === "ready" ? (
+                                <div className="flex flex-wrap items-center gap-2 rounded-xl bg-slate-50 px-4 py-2 text-xs text-slate-600">
+                                  <input
+                                    readOnly
+                                    value={share.url}
+                                    onFocus={(event) => event.currentTarget.select()}
+                                    className="min-w-0 flex-1 rounded-lg border border-slate-200 bg-white px-2 py-1 font-mono"
+                                  />
+                                  <button
+                                    type="button"
+                                    onClick={() => copyShareLink(docKey, share.url)}
+                                    className="rounded-lg border border-slate-200 bg-white px-2 py-1 font-semibold hover:bg-blue-50"
+                                  >
+                                    {share.copied ? "Copied" : "Copy"}
+                                  </button>
+                                  <span>
+                                    Expires{" "}
+                                    {new Date(share.expiresAt).toLocaleString([], {
+                                      dateStyle: "medium",
+                                      timeStyle: "short",
+                                    })}
+                                  </span>
+                                </div>
+                              ) : share?.status === "error" ? (
+                                <p className="px-1 text-xs text-red-600">{share.message}</p>
+                              ) : null}
+                            </div>
                           );
                         })}
                       </div>
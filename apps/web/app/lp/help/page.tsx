@@ -19,6 +19,19 @@ export default function HelpPage() {
           <li>Documents are grouped by investment, and new files appear instantly when uploaded to Airtable.</li>
         </ul>
       </div>
+      <div className="space-y-3 rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900">Account Security</h3>
+        <p className="text-sm text-slate-600">
+          Add a second step to your sign-in with an authenticator app such as 1Password, Google Authenticator, or Authy.
+          Once enabled, you will be asked for a 6-digit code after opening your email sign-in link.
+        </p>
+        <Link
+          className="inline-flex text-sm font-semibold text-blue-600 hover:underline"
+          href="/auth/mfa?setup=1&callbackUrl=/lp/help"
+        >
+          Set up two-factor authentication
+        </Link>
+      </div>
       <div className="space-y-3 rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
         <h3 className="text-lg font-semibold text-slate-900">Compliance &amp; Legal References</h3>
         <p className="text-sm text-slate-600">
@@ -2,38 +2,55 @@
 
 import Link from "next/link";
 import { useParams } from "next/navigation";
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import {
+  Area,
+  AreaChart,
   CartesianGrid,
   Line,
   LineChart,
+  ReferenceLine,
   ResponsiveContainer,
   Tooltip,
   XAxis,
   YAxis,
 } from "recharts";
 import { normalizeFieldKey, type ExpandedRecord } from "@/lib/airtable-shared";
-import { formatCurrencyUSD, formatDate, formatNumber } from "@/lib/format";
-import { usePolling, type RefreshStatus } from "@/hooks/usePolling";
+import { formatCurrencyUSD, formatDate, formatNumber, formatPercent } from "@/lib/format";
+import { useLiveData, type RefreshStatus } from "@/hooks/useLiveData";
 
 interface MetricAvailability {
   commitment: boolean;
+  paidIn: boolean;
+  unfunded: boolean;
   nav: boolean;
   distributions: boolean;
+  dpi: boolean;
+  rvpi: boolean;
+  tvpi: boolean;
   netMoic: boolean;
+  netIrr: boolean;
 }
 
 interface Metrics {
   commitmentTotal: number;
+  paidInTotal: number;
+  unfundedTotal: number;
   navTotal: number;
   distributionsTotal: number;
-  netMoicAvg: number;
+  dpi: number | null;
+  rvpi: number | null;
+  tvpi: number | null;
+  netMoic: number | null;
+  netIrr: number | null;
   availability: MetricAvailability;
 }
 
 interface LpDataResponse {
   records: ExpandedRecord[];
   metrics: Metrics;
+  irrByRecord?: Record<string, number | null>;
+  asOf?: { quarter: string; periodEnd: string } | null;
 }
 
 interface DocumentItem {
@@ -51,6 +68,165 @@ interface DocumentsResponse {
   documents: DocumentItem[];
 }
 
+interface HistoryPoint {
+  quarter: string;
+  periodEnd: string;
+  nav: number | null;
+  distributions: number | null;
+}
+
+interface HistoryResponse {
+  history: HistoryPoint[];
+}
+
+type TransactionType = "capital-call" | "contribution" | "distribution" | "fee" | "recallable";
+
+interface Transaction {
+  id: string;
+  investmentId: string;
+  type: TransactionType | null;
+  date: string | null;
+  amount: number | null;
+  description: string | null;
+}
+
+interface TransactionsResponse {
+  transactions: Transaction[];
+  types: Record<TransactionType, string>;
+}
+
+// Cash from the investor's side, matching the server's ledger convention.
+function signedAmount(transaction: Transaction) {
+  if (transaction.amount === null || !transaction.type) return null;
+  const amount = Math.abs(transaction.amount);
+  if (transaction.type === "contribution" || transaction.type === "fee") return -amount;
+  if (transaction.type === "distribution" || transaction.type === "recallable") return amount;
+  return 0;
+}
+
+function TransactionLedger({ ledger }: { ledger: TransactionsResponse | null }) {
+  const [typeFilter, setTypeFilter] = useState<TransactionType | "all">("all");
+  const transactions = useMemo(() => ledger?.transactions ?? [], [ledger]);
+  const typeLabels = ledger?.types;
+
+  const filtered = useMemo(
+    () => transactions.filter((transaction) => typeFilter === "all" || transaction.type === typeFilter),
+    [transactions, typeFilter]
+  );
+
+  // Cumulative net cash flow over time: the J-curve dips while capital is
+  // called and climbs back as distributions come in.
+  const jCurve = useMemo(() => {
+    let cumulative = 0;
+    const points: { label: string; value: number }[] = [];
+    for (const transaction of transactions) {
+      const amount = signedAmount(transaction);
+      if (!amount || !transaction.date) continue;
+      cumulative += amount;
+      points.push({ label: new Date(transaction.date).toLocaleDateString(), value: cumulative });
+    }
+    return points;
+  }, [transactions]);
+
+  const presentTypes = useMemo(
+    () => Array.from(new Set(transactions.map((transaction) => transaction.type).filter(Boolean))) as TransactionType[],
+    [transactions]
+  );
+
+  if (!transactions.length) {
+    return (
+      <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+        <h3 className="text-lg font-semibold text-slate-900">Cash Flows</h3>
+        <p className="mt-4 rounded-xl border border-dashed border-slate-200 p-8 text-center text-sm text-slate-500">
+          No transactions have been recorded for this investment yet.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">Cash Flows</h3>
+          <p className="text-sm text-slate-500">Capital calls, contributions, distributions and fees for this holding.</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          Type
+          <select
+            value={typeFilter}
+            onChange={(event) => setTypeFilter(event.target.value as TransactionType | "all")}
+            className="rounded-lg border border-slate-200 px-3 py-1.5 text-sm"
+          >
+            <option value="all">All</option>
+            {presentTypes.map((type) => (
+              <option key={type} value={type}>
+                {typeLabels?.[type] ?? type}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {jCurve.length > 1 ? (
+        <div className="h-56">
+          <ResponsiveContainer>
+            <AreaChart data={jCurve} margin={{ top: 10, right: 16, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#E2E8F0" />
+              <XAxis dataKey="label" tick={{ fontSize: 12, fill: "#475569" }} />
+              <YAxis tickFormatter={(value) => formatCurrencyUSD(value).replace("$", "")} tick={{ fontSize: 12, fill: "#475569" }} />
+              <ReferenceLine y={0} stroke="#94A3B8" />
+              <Tooltip formatter={(value: number) => formatCurrencyUSD(value)} labelFormatter={(label) => `As of ${label}`} />
+              <Area type="stepAfter" dataKey="value" stroke="#2563EB" fill="#BFDBFE" strokeWidth={2} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      ) : null}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-slate-200 text-sm">
+          <thead className="bg-slate-100/80">
+            <tr>
+              {["Date", "Type", "Amount", "Description"].map((heading) => (
+                <th
+                  key={heading}
+                  scope="col"
+                  className={`whitespace-nowrap px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600 ${
+                    heading === "Amount" ? "text-right" : "text-left"
+                  }`}
+                >
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {filtered.map((transaction) => {
+              const amount = signedAmount(transaction);
+              return (
+                <tr key={transaction.id} className="odd:bg-white even:bg-slate-50/60">
+                  <td className="whitespace-nowrap px-4 py-2 text-slate-700">{formatDate(transaction.date)}</td>
+                  <td className="whitespace-nowrap px-4 py-2 text-slate-700">
+                    {transaction.type ? typeLabels?.[transaction.type] ?? transaction.type : "—"}
+                  </td>
+                  <td
+                    className={`whitespace-nowrap px-4 py-2 text-right font-medium ${
+                      !amount ? "text-slate-600" : amount < 0 ? "text-red-600" : "text-emerald-700"
+                    }`}
+                  >
+                    {amount === null ? "—" : amount === 0 ? formatCurrencyUSD(transaction.amount) : formatCurrencyUSD(amount)}
+                  </td>
+                  <td className="px-4 py-2 text-slate-600">{transaction.description || "—"}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
 function parseNumber(value: any) {
   if (value === null || value === undefined) return null;
   if (typeof value === "number") return Number.isFinite(value) ? value : null;
@@ -154,12 +330,21 @@ export default function InvestmentDetailPage() {
   const idParam = params?.id;
   const investmentId = Array.isArray(idParam) ? idParam[0] : idParam;
 
-  const { data, status, error, initialized, lastUpdated } = usePolling<LpDataResponse>("/api/lp/data", {
+  const { data, status, error, initialized, lastUpdated } = useLiveData<LpDataResponse>("/api/lp/data", {
     interval: 120000,
   });
-  const { data: docData } = usePolling<DocumentsResponse>("/api/lp/documents", {
+  const { data: docData } = useLiveData<DocumentsResponse>("/api/lp/documents", {
     interval: 120000,
   });
+  const { data: ledger } = useLiveData<TransactionsResponse>(
+    `/api/lp/transactions?investmentId=${encodeURIComponent(investmentId ?? "")}`,
+    { interval: 120000 }
+  );
+
+  const { data: historyData } = useLiveData<HistoryResponse>(
+    `/api/lp/history?investmentId=${encodeURIComponent(investmentId ?? "")}`,
+    { interval: 120000 }
+  );
 
   const record = useMemo(() => {
     return data?.records.find((item) => item.id === investmentId);
@@ -190,7 +375,19 @@ export default function InvestmentDetailPage() {
     return docData.documents.filter((doc) => doc.investmentId === investmentId);
   }, [docData, investmentId]);
 
+  // Quarterly snapshots of this holding when there are any; otherwise the
+  // periods its peer records currently report.
   const navSeries = useMemo(() => {
+    const asOfQuarter = data?.asOf?.quarter;
+    const history = (historyData?.history ?? []).filter(
+      (point) => point.nav !== null && (!asOfQuarter || point.quarter <= asOfQuarter)
+    );
+    if (history.length) {
+      return history.map((point) => {
+        const [year, quarter] = point.quarter.split("-");
+        return { label: `${quarter} ${year}`, value: point.nav as number };
+      });
+    }
     if (!peerRecords.length || !fieldKeys.period || !fieldKeys.nav) return [] as { label: string; value: number }[];
     return peerRecords
       .map((item) => {
@@ -206,13 +403,14 @@ export default function InvestmentDetailPage() {
       .filter((entry): entry is { label: string; value: number; sort: number } => Boolean(entry))
       .sort((a, b) => a.sort - b.sort)
       .map(({ label, value }) => ({ label, value }));
-  }, [peerRecords, fieldKeys]);
+  }, [data?.asOf?.quarter, historyData, peerRecords, fieldKeys]);
 
   const metrics = {
     commitment: fieldKeys.commitment ? parseNumber(record?.fields?.[fieldKeys.commitment]) : null,
     nav: fieldKeys.nav ? parseNumber(record?.fields?.[fieldKeys.nav]) : null,
     distributions: fieldKeys.distributions ? parseNumber(record?.fields?.[fieldKeys.distributions]) : null,
     netMoic: fieldKeys.netMoic ? parseNumber(record?.fields?.[fieldKeys.netMoic]) : null,
+    netIrr: investmentId ? data?.irrByRecord?.[investmentId] ?? null : null,
   };
 
   return (
@@ -246,7 +444,7 @@ export default function InvestmentDetailPage() {
         </div>
       ) : (
         <div className="space-y-6">
-          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
             <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
               <p className="text-sm font-medium text-slate-500">Commitment</p>
               <p className="mt-2 text-2xl font-semibold text-slate-900">
@@ -271,11 +469,17 @@ export default function InvestmentDetailPage() {
                 {metrics.netMoic !== null ? `${formatNumber(metrics.netMoic, 2)}x` : "—"}
               </p>
             </div>
+            <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+              <p className="text-sm font-medium text-slate-500">Net IRR</p>
+              <p className="mt-2 text-2xl font-semibold text-slate-900">
+                {metrics.netIrr !== null ? formatPercent(metrics.netIrr * 100, 1) : "—"}
+              </p>
+            </div>
           </div>
 
           <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
             <h3 className="text-lg font-semibold text-slate-900">Valuation Timeline</h3>
-            <p className="text-sm text-slate-500">Chronological NAV snapshots sourced from Airtable.</p>
+            <p className="text-sm text-slate-500">Quarter-end NAV snapshots captured from Airtable.</p>
             <div className="mt-4 h-64">
               {navSeries.length ? (
                 <ResponsiveContainer>
@@ -295,6 +499,8 @@ export default function InvestmentDetailPage() {
             </div>
           </div>
 
+          <TransactionLedger ledger={ledger ?? null} />
+
           <div className="grid gap-4 lg:grid-cols-2">
             <div className="space-y-4 rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
               <h3 className="text-lg font-semibold text-slate-900">Key Details</h3>
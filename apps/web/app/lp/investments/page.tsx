@@ -3,20 +3,32 @@
 import { useMemo, useState } from "react";
 import { normalizeFieldKey, type ExpandedRecord } from "@/lib/airtable-shared";
 import { formatCurrencyUSD, formatDate, formatNumber, formatPercent } from "@/lib/format";
-import { usePolling, type RefreshStatus } from "@/hooks/usePolling";
+import { useLiveData, type RefreshStatus } from "@/hooks/useLiveData";
 
 interface MetricAvailability {
   commitment: boolean;
+  paidIn: boolean;
+  unfunded: boolean;
   nav: boolean;
   distributions: boolean;
+  dpi: boolean;
+  rvpi: boolean;
+  tvpi: boolean;
   netMoic: boolean;
+  netIrr: boolean;
 }
 
 interface Metrics {
   commitmentTotal: number;
+  paidInTotal: number;
+  unfundedTotal: number;
   navTotal: number;
   distributionsTotal: number;
-  netMoicAvg: number;
+  dpi: number | null;
+  rvpi: number | null;
+  tvpi: number | null;
+  netMoic: number | null;
+  netIrr: number | null;
   availability: MetricAvailability;
 }
 
@@ -150,7 +162,7 @@ function formatValue(key: string, value: any) {
 }
 
 export default function LPInvestmentsPage() {
-  const { data, status, error, initialized, lastUpdated } = usePolling<LpDataResponse>("/api/lp/data", {
+  const { data, status, error, initialized, lastUpdated } = useLiveData<LpDataResponse>("/api/lp/data", {
     interval: 120000,
   });
   const [search, setSearch] = useState("");
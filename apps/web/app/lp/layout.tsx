@@ -8,6 +8,7 @@ const NAV_ITEMS = [
   { href: "/lp", label: "Overview" },
   { href: "/lp/investments", label: "Investments" },
   { href: "/lp/docs", label: "Documents" },
+  { href: "/lp/tax", label: "Tax Documents" },
   { href: "/lp/updates", label: "JBV Updates" },
   { href: "/lp/help", label: "Help" },
   { href: "/lp/summary", label: "Investment Summary" },
@@ -20,12 +21,62 @@ type Profile = {
   email: string;
 };
 
+type Impersonation = {
+  contactName: string;
+  contactRole: string;
+  expiresAt: string;
+};
+
+type InvestorEntity = {
+  id: string;
+  name: string;
+  relationship: "self" | "delegate";
+  scope: "read-only" | "documents-only" | "specific-funds" | null;
+  expiresAt: string | null;
+};
+
+const SCOPE_LABELS: Record<NonNullable<InvestorEntity["scope"]>, string> = {
+  "read-only": "read-only",
+  "documents-only": "documents only",
+  "specific-funds": "selected funds",
+};
+
+function entityLabel(entity: InvestorEntity) {
+  if (entity.relationship === "self" || !entity.scope) return entity.name;
+  return `${entity.name} (delegated, ${SCOPE_LABELS[entity.scope]})`;
+}
+
+type SnapshotPeriod = {
+  quarter: string;
+  periodEnd: string;
+};
+
+function quarterLabel(quarter: string) {
+  const [year, q] = quarter.split("-");
+  return `${q} ${year}`;
+}
+
+function periodEndLabel(periodEnd: string) {
+  return new Date(`${periodEnd}T00:00:00`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
 export default function LPLayout({ children }: { children: ReactNode }) {
   const pathname = usePathname();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
   const [policyAcknowledged, setPolicyAcknowledged] = useState<boolean | null>(null);
+  const [entities, setEntities] = useState<InvestorEntity[]>([]);
+  const [selectedEntityId, setSelectedEntityId] = useState<string | null>(null);
+  const [switchingEntity, setSwitchingEntity] = useState(false);
+  const [impersonation, setImpersonation] = useState<Impersonation | null>(null);
+  const [periods, setPeriods] = useState<SnapshotPeriod[]>([]);
+  const [selectedPeriod, setSelectedPeriod] = useState<string | null>(null);
+  const [switchingPeriod, setSwitchingPeriod] = useState(false);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -45,9 +96,13 @@ export default function LPLayout({ children }: { children: ReactNode }) {
         if (!response.ok) {
           throw new Error(`Request failed with status ${response.status}`);
         }
-        const payload = (await response.json()) as { profile?: Profile | null };
+        const payload = (await response.json()) as {
+          profile?: Profile | null;
+          impersonation?: Impersonation | null;
+        };
         if (!isMounted) return;
         setProfile(payload.profile ?? null);
+        setImpersonation(payload.impersonation ?? null);
         setError(false);
       } catch (err) {
         if (!isMounted) return;
@@ -70,6 +125,107 @@ export default function LPLayout({ children }: { children: ReactNode }) {
     };
   }, []);
 
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadEntities = async () => {
+      try {
+        const response = await fetch("/api/lp/entities", {
+          cache: "no-store",
+          credentials: "same-origin",
+        });
+        if (!response.ok) return;
+        const payload = (await response.json()) as { entities?: InvestorEntity[]; selectedId?: string | null };
+        if (!isMounted) return;
+        setEntities(payload.entities ?? []);
+        setSelectedEntityId(payload.selectedId ?? null);
+      } catch (err) {
+        console.error(err);
+      }
+    };
+
+    loadEntities();
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadPeriods = async () => {
+      try {
+        const response = await fetch("/api/lp/as-of", {
+          cache: "no-store",
+          credentials: "same-origin",
+        });
+        if (!response.ok) return;
+        const payload = (await response.json()) as { periods?: SnapshotPeriod[]; selected?: string | null };
+        if (!isMounted) return;
+        setPeriods(payload.periods ?? []);
+        setSelectedPeriod(payload.selected ?? null);
+      } catch (err) {
+        console.error(err);
+      }
+    };
+
+    loadPeriods();
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  // Every LP page reads the selection from a cookie, so a reload is the
+  // simplest way to refetch them all for the new entity.
+  const handleEntityChange = async (entityId: string) => {
+    setSwitchingEntity(true);
+    try {
+      const response = await fetch("/api/lp/entities", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "same-origin",
+        body: JSON.stringify({ entityId: entityId || null }),
+      });
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+      window.location.reload();
+    } catch (err) {
+      console.error(err);
+      setSwitchingEntity(false);
+    }
+  };
+
+  // Like the entity, the period lives in a cookie every LP route reads.
+  const handlePeriodChange = async (period: string) => {
+    setSwitchingPeriod(true);
+    try {
+      const response = await fetch("/api/lp/as-of", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "same-origin",
+        body: JSON.stringify({ period: period || null }),
+      });
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+      window.location.reload();
+    } catch (err) {
+      console.error(err);
+      setSwitchingPeriod(false);
+    }
+  };
+
+  const activePeriod = periods.find((period) => period.quarter === selectedPeriod) ?? null;
+
+  const handleExitImpersonation = async () => {
+    try {
+      await fetch("/api/admin/impersonation", { method: "DELETE", credentials: "same-origin" });
+    } finally {
+      window.location.href = "/admin";
+    }
+  };
+
   const initials = useMemo(() => {
     const name = profile?.name?.trim();
     if (!name) return "LP";
@@ -103,6 +259,43 @@ export default function LPLayout({ children }: { children: ReactNode }) {
   return (
     <>
       <div aria-hidden={isPolicyGateActive} className="min-h-screen bg-slate-50">
+        {impersonation ? (
+          <div className="bg-amber-100 text-amber-900" role="status">
+            <div className="mx-auto flex max-w-7xl flex-wrap items-center gap-3 px-6 py-2 text-sm">
+              <span className="font-semibold">Viewing as {impersonation.contactName}</span>
+              <span className="text-amber-800">
+                {impersonation.contactRole} view · read-only · ends{" "}
+                {new Date(impersonation.expiresAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+              </span>
+              <button
+                type="button"
+                onClick={handleExitImpersonation}
+                className="ml-auto rounded-full border border-amber-300 bg-white px-3 py-1 text-xs font-semibold hover:bg-amber-50"
+              >
+                Exit to admin
+              </button>
+            </div>
+          </div>
+        ) : null}
+        {activePeriod ? (
+          <div className="bg-indigo-50 text-indigo-900" role="status">
+            <div className="mx-auto flex max-w-7xl flex-wrap items-center gap-3 px-6 py-2 text-sm">
+              <span className="font-semibold">Historical view: {quarterLabel(activePeriod.quarter)}</span>
+              <span className="text-indigo-800">
+                Figures and documents as reported for the period ending {periodEndLabel(activePeriod.periodEnd)}, not
+                live data.
+              </span>
+              <button
+                type="button"
+                disabled={switchingPeriod}
+                onClick={() => handlePeriodChange("")}
+                className="ml-auto rounded-full border border-indigo-200 bg-white px-3 py-1 text-xs font-semibold hover:bg-indigo-100"
+              >
+                Back to latest
+              </button>
+            </div>
+          </div>
+        ) : null}
         <header className="border-b border-slate-200 bg-white">
           <div className="mx-auto max-w-7xl px-6 py-8">
             <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
@@ -113,20 +306,58 @@ export default function LPLayout({ children }: { children: ReactNode }) {
                   Insights, performance, and documents tailored to your investments.
                 </p>
               </div>
-              <div className="flex items-center gap-3 rounded-full border border-slate-200 bg-white px-4 py-2 shadow-sm">
-                <div className="flex h-10 w-10 items-center justify-center rounded-full bg-blue-600 text-sm font-semibold text-white">
-                  {initials}
-                </div>
-                <div className="flex flex-col">
-                  <span className="text-sm font-semibold text-slate-900">
-                    {profile?.name || (loading ? "Loading investor" : "Investor")}
-                  </span>
-                  <span className="text-xs text-slate-500">{profile?.email || (error ? "Unavailable" : "")}</span>
-                </div>
-                <div className={`flex items-center gap-2 text-xs font-medium ${status.tone}`}>
-                  <span className={`h-2 w-2 rounded-full ${status.dot}`} aria-hidden="true" />
-                  {status.label}
+              <div className="flex flex-col items-stretch gap-3 md:items-end">
+                <div className="flex items-center gap-3 rounded-full border border-slate-200 bg-white px-4 py-2 shadow-sm">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-full bg-blue-600 text-sm font-semibold text-white">
+                    {initials}
+                  </div>
+                  <div className="flex flex-col">
+                    <span className="text-sm font-semibold text-slate-900">
+                      {profile?.name || (loading ? "Loading investor" : "Investor")}
+                    </span>
+                    <span className="text-xs text-slate-500">{profile?.email || (error ? "Unavailable" : "")}</span>
+                  </div>
+                  <div className={`flex items-center gap-2 text-xs font-medium ${status.tone}`}>
+                    <span className={`h-2 w-2 rounded-full ${status.dot}`} aria-hidden="true" />
+                    {status.label}
+                  </div>
                 </div>
+                {periods.length ? (
+                  <label className="flex items-center gap-2 text-xs font-medium text-slate-500">
+                    As of
+                    <select
+                      value={activePeriod?.quarter ?? ""}
+                      disabled={switchingPeriod}
+                      onChange={(event) => handlePeriodChange(event.target.value)}
+                      className="rounded-full border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-200"
+                    >
+                      <option value="">Latest (live)</option>
+                      {periods.map((period) => (
+                        <option key={period.quarter} value={period.quarter}>
+                          {quarterLabel(period.quarter)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ) : null}
+                {entities.length > 1 ? (
+                  <label className="flex items-center gap-2 text-xs font-medium text-slate-500">
+                    Viewing
+                    <select
+                      value={selectedEntityId ?? ""}
+                      disabled={switchingEntity}
+                      onChange={(event) => handleEntityChange(event.target.value)}
+                      className="rounded-full border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-900 shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-200"
+                    >
+                      <option value="">All entities</option>
+                      {entities.map((entity) => (
+                        <option key={entity.id} value={entity.id}>
+                          {entityLabel(entity)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ) : null}
               </div>
             </div>
             <nav className="mt-6 flex flex-wrap gap-2 text-sm font-medium">
@@ -13,21 +13,33 @@ import {
   Bar,
 } from "recharts";
 import { normalizeFieldKey, type ExpandedRecord } from "@/lib/airtable-shared";
-import { formatCurrencyUSD, formatDate, formatNumber } from "@/lib/format";
-import { usePolling, type RefreshStatus } from "@/hooks/usePolling";
+import { formatCurrencyUSD, formatDate, formatNumber, formatPercent } from "@/lib/format";
+import { useLiveData, type RefreshStatus } from "@/hooks/useLiveData";
 
 interface MetricAvailability {
   commitment: boolean;
+  paidIn: boolean;
+  unfunded: boolean;
   nav: boolean;
   distributions: boolean;
+  dpi: boolean;
+  rvpi: boolean;
+  tvpi: boolean;
   netMoic: boolean;
+  netIrr: boolean;
 }
 
 interface Metrics {
   commitmentTotal: number;
+  paidInTotal: number;
+  unfundedTotal: number;
   navTotal: number;
   distributionsTotal: number;
-  netMoicAvg: number;
+  dpi: number | null;
+  rvpi: number | null;
+  tvpi: number | null;
+  netMoic: number | null;
+  netIrr: number | null;
   availability: MetricAvailability;
 }
 
@@ -36,13 +48,57 @@ interface Profile {
   email: string;
 }
 
+interface AsOfChange {
+  investmentId: string;
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface AsOfView {
+  quarter: string;
+  periodEnd: string;
+}
+
+interface AsOf extends AsOfView {
+  previous: (AsOfView & { metrics: Metrics }) | null;
+  changes: AsOfChange[];
+}
+
 interface LpDataResponse {
   records: ExpandedRecord[];
   metrics: Metrics;
   profile: Profile;
+  asOf?: AsOf | null;
   note?: string;
 }
 
+interface HistoryPoint {
+  quarter: string;
+  periodEnd: string;
+  nav: number | null;
+  distributions: number | null;
+}
+
+interface HistoryResponse {
+  history: HistoryPoint[];
+}
+
+// Snapshot quarters ("2024-Q1") as chart labels, oldest first.
+function historySeries(history: HistoryPoint[], key: "nav" | "distributions"): ChartDatum[] {
+  return history
+    .filter((point) => point[key] !== null)
+    .map((point) => {
+      const [year, quarter] = point.quarter.split("-");
+      return {
+        label: `${quarter} ${year}`,
+        value: point[key] as number,
+        raw: point.periodEnd,
+        sortKey: { type: "text" as const, value: point.quarter },
+      };
+    });
+}
+
 type ChartDatum = {
   label: string;
   value: number;
@@ -143,22 +199,172 @@ function resolveDisplayName(record: ExpandedRecord, fallback = "Unnamed Investme
   return typeof value === "string" && value.trim() ? value : fallback;
 }
 
+const HIDDEN_METRIC_CAPTION = "Not available with the fields shared with you.";
+
+function formatMultiple(value: number | null) {
+  return value !== null ? `${formatNumber(value, 2)}x` : "—";
+}
+
+function MetricTile({ label, value, caption }: { label: string; value: string; caption: string }) {
+  return (
+    <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+      <p className="text-sm font-medium text-slate-500">{label}</p>
+      <p className="mt-2 text-2xl font-semibold text-slate-900">{value}</p>
+      <p className="mt-1 text-xs text-slate-400">{caption}</p>
+    </div>
+  );
+}
+
+function quarterLabel(quarter: string) {
+  const [year, q] = quarter.split("-");
+  return `${q} ${year}`;
+}
+
+function formatChangeValue(field: string, value: unknown) {
+  const amount = parseNumber(value);
+  if (amount === null) return "—";
+  const key = normalizeFieldKey(field);
+  if (key.includes("moic")) return formatMultiple(amount);
+  if (key.includes("/")) return formatNumber(amount, 2);
+  return formatCurrencyUSD(amount);
+}
+
+function formatDelta(delta: number, format: (value: number) => string) {
+  if (delta === 0) return "No change";
+  return `${delta > 0 ? "+" : "−"}${format(Math.abs(delta))}`;
+}
+
+const PERIOD_METRICS: Array<{
+  label: string;
+  key: "navTotal" | "distributionsTotal" | "paidInTotal" | "tvpi";
+  available: keyof MetricAvailability;
+  format: (value: number) => string;
+}> = [
+  { label: "Total NAV", key: "navTotal", available: "nav", format: formatCurrencyUSD },
+  { label: "Total Distributions", key: "distributionsTotal", available: "distributions", format: formatCurrencyUSD },
+  { label: "Paid-in Capital", key: "paidInTotal", available: "paidIn", format: formatCurrencyUSD },
+  { label: "TVPI", key: "tvpi", available: "tvpi", format: (value) => formatMultiple(value) },
+];
+
+// Period-over-period view of a historical statement: portfolio totals next to
+// the quarter before, then each field that moved.
+function PeriodChanges({ asOf, metrics, records }: { asOf: AsOf; metrics: Metrics; records: ExpandedRecord[] }) {
+  const previous = asOf.previous;
+  const names = new Map(records.map((record) => [record.id, resolveDisplayName(record)]));
+
+  return (
+    <div className="space-y-4 rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-900">
+          What moved in {quarterLabel(asOf.quarter)}
+          {previous ? ` since ${quarterLabel(previous.quarter)}` : ""}
+        </h3>
+        <p className="text-sm text-slate-500">
+          {previous
+            ? "Changes between the two quarter-end statements."
+            : "No earlier statement was captured, so there is nothing to compare this quarter with."}
+        </p>
+      </div>
+
+      {previous ? (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            {PERIOD_METRICS.map(({ label, key, available, format }) => {
+              const now = metrics[key];
+              const before = previous.metrics[key];
+              const comparable =
+                metrics.availability[available] && previous.metrics.availability[available] && now !== null && before !== null;
+              return (
+                <div key={key} className="rounded-xl border border-slate-200 p-4">
+                  <p className="text-xs font-medium uppercase tracking-wide text-slate-500">{label}</p>
+                  <p className="mt-1 text-lg font-semibold text-slate-900">{comparable ? format(now) : "—"}</p>
+                  <p className="text-xs text-slate-500">
+                    {comparable ? `${formatDelta(now - before, format)} vs ${format(before)}` : HIDDEN_METRIC_CAPTION}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          {asOf.changes.length ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-slate-200 text-sm">
+                <thead className="bg-slate-100/80">
+                  <tr>
+                    {["Investment", "Field", "Before", "After"].map((heading) => (
+                      <th
+                        key={heading}
+                        scope="col"
+                        className="whitespace-nowrap px-4 py-2 text-left text-xs font-semibold uppercase tracking-wide text-slate-600"
+                      >
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {asOf.changes.map((change) => (
+                    <tr key={`${change.investmentId}:${change.field}`} className="odd:bg-white even:bg-slate-50/60">
+                      <td className="px-4 py-2 text-slate-700">{names.get(change.investmentId) ?? change.investmentId}</td>
+                      <td className="whitespace-nowrap px-4 py-2 text-slate-600">{change.field}</td>
+                      <td className="whitespace-nowrap px-4 py-2 text-slate-500">{formatChangeValue(change.field, change.before)}</td>
+                      <td className="whitespace-nowrap px-4 py-2 font-medium text-slate-900">
+                        {formatChangeValue(change.field, change.after)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="rounded-xl border border-dashed border-slate-200 p-6 text-center text-sm text-slate-500">
+              None of the figures shared with you changed between these quarters.
+            </p>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
+
 export default function LPDashboardPage() {
-  const { data, status, error, initialized, lastUpdated } = usePolling<LpDataResponse>("/api/lp/data", {
+  const { data, status, error, initialized, lastUpdated } = useLiveData<LpDataResponse>("/api/lp/data", {
+    interval: 120000,
+  });
+
+  const { data: historyData } = useLiveData<HistoryResponse>("/api/lp/history", {
     interval: 120000,
   });
 
   const records = useMemo(() => data?.records ?? [], [data?.records]);
-  const metrics = data?.metrics ?? {
+  const asOf = data?.asOf ?? null;
+  // A historical view charts nothing after the quarter it shows.
+  const history = useMemo(
+    () => (historyData?.history ?? []).filter((point) => !asOf || point.quarter <= asOf.quarter),
+    [historyData?.history, asOf]
+  );
+  const metrics: Metrics = data?.metrics ?? {
     commitmentTotal: 0,
+    paidInTotal: 0,
+    unfundedTotal: 0,
     navTotal: 0,
     distributionsTotal: 0,
-    netMoicAvg: 0,
+    dpi: null,
+    rvpi: null,
+    tvpi: null,
+    netMoic: null,
+    netIrr: null,
     availability: {
       commitment: false,
+      paidIn: false,
+      unfunded: false,
       nav: false,
       distributions: false,
+      dpi: false,
+      rvpi: false,
+      tvpi: false,
       netMoic: false,
+      netIrr: false,
     },
   };
   const note = data?.note;
@@ -184,7 +390,11 @@ export default function LPDashboardPage() {
     };
   }, [records]);
 
+  // Snapshot history when there is any; otherwise whatever periods the current
+  // records report.
   const navSeries = useMemo(() => {
+    const fromHistory = historySeries(history, "nav");
+    if (fromHistory.length) return fromHistory;
     if (!records.length || !fieldKeys.period) return [] as ChartDatum[];
     const series: ChartDatum[] = [];
     for (const record of records) {
@@ -210,9 +420,11 @@ export default function LPDashboardPage() {
       });
     }
     return series.sort((a, b) => compareSortKey(a.sortKey, b.sortKey));
-  }, [records, fieldKeys]);
+  }, [history, records, fieldKeys]);
 
   const distributionsSeries = useMemo(() => {
+    const fromHistory = historySeries(history, "distributions");
+    if (fromHistory.length) return fromHistory;
     if (!records.length || !fieldKeys.period || !fieldKeys.distributions) return [] as ChartDatum[];
     const map = new Map<string, ChartDatum>();
     for (const record of records) {
@@ -237,7 +449,7 @@ export default function LPDashboardPage() {
       }
     }
     return Array.from(map.values()).sort((a, b) => compareSortKey(a.sortKey, b.sortKey));
-  }, [records, fieldKeys]);
+  }, [history, records, fieldKeys]);
 
   const recentActivity = useMemo(() => {
     const items = [...records];
@@ -250,12 +462,7 @@ export default function LPDashboardPage() {
   }, [records]);
 
   const navKey = fieldKeys.totalNav ?? fieldKeys.currentNav;
-  const metricAvailability = metrics.availability ?? {
-    commitment: false,
-    nav: false,
-    distributions: false,
-    netMoic: false,
-  };
+  const metricAvailability = metrics.availability;
 
   return (
     <div className="space-y-8">
@@ -280,8 +487,8 @@ export default function LPDashboardPage() {
       ) : null}
 
       {!initialized ? (
-        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-          {Array.from({ length: 4 }).map((_, idx) => (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
+          {Array.from({ length: 5 }).map((_, idx) => (
             <div
               key={idx}
               className="h-32 animate-pulse rounded-2xl bg-gradient-to-br from-slate-200/80 to-slate-100"
@@ -289,63 +496,106 @@ export default function LPDashboardPage() {
           ))}
         </div>
       ) : (
-        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-          <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
-            <p className="text-sm font-medium text-slate-500">Total Commitment</p>
-            <p className="mt-2 text-2xl font-semibold text-slate-900">
-              {metricAvailability.commitment ? formatCurrencyUSD(metrics.commitmentTotal) : "—"}
-            </p>
-            <p className="mt-1 text-xs text-slate-400">
-              {metricAvailability.commitment
-                ? "Capital committed across all vehicles."
-                : "Visibility disabled by your administrator."}
-            </p>
-          </div>
-          <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
-            <p className="text-sm font-medium text-slate-500">Total Distributions</p>
-            <p className="mt-2 text-2xl font-semibold text-slate-900">
-              {metricAvailability.distributions ? formatCurrencyUSD(metrics.distributionsTotal) : "—"}
-            </p>
-            <p className="mt-1 text-xs text-slate-400">
-              {metricAvailability.distributions
-                ? "Realized capital returned to date."
-                : "Visibility disabled by your administrator."}
-            </p>
-          </div>
-          <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
-            <p className="text-sm font-medium text-slate-500">Total NAV</p>
-            <p className="mt-2 text-2xl font-semibold text-slate-900">
-              {metricAvailability.nav ? formatCurrencyUSD(metrics.navTotal) : "—"}
-            </p>
-            <p className="mt-1 text-xs text-slate-400">
-              {metricAvailability.nav
-                ? "Net asset value across current holdings."
-                : "Visibility disabled by your administrator."}
-            </p>
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
+            <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+              <p className="text-sm font-medium text-slate-500">Total Commitment</p>
+              <p className="mt-2 text-2xl font-semibold text-slate-900">
+                {metricAvailability.commitment ? formatCurrencyUSD(metrics.commitmentTotal) : "—"}
+              </p>
+              <p className="mt-1 text-xs text-slate-400">
+                {metricAvailability.commitment
+                  ? "Capital committed across all vehicles."
+                  : "Visibility disabled by your administrator."}
+              </p>
+            </div>
+            <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+              <p className="text-sm font-medium text-slate-500">Total Distributions</p>
+              <p className="mt-2 text-2xl font-semibold text-slate-900">
+                {metricAvailability.distributions ? formatCurrencyUSD(metrics.distributionsTotal) : "—"}
+              </p>
+              <p className="mt-1 text-xs text-slate-400">
+                {metricAvailability.distributions
+                  ? "Realized capital returned to date."
+                  : "Visibility disabled by your administrator."}
+              </p>
+            </div>
+            <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+              <p className="text-sm font-medium text-slate-500">Total NAV</p>
+              <p className="mt-2 text-2xl font-semibold text-slate-900">
+                {metricAvailability.nav ? formatCurrencyUSD(metrics.navTotal) : "—"}
+              </p>
+              <p className="mt-1 text-xs text-slate-400">
+                {metricAvailability.nav
+                  ? "Net asset value across current holdings."
+                  : "Visibility disabled by your administrator."}
+              </p>
+            </div>
+            <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+              <p className="flex items-center gap-2 text-sm font-medium text-slate-500">
+                Net MOIC
+                <span className="inline-flex items-center rounded-full bg-slate-100 px-2 py-0.5 text-[11px] text-slate-500">
+                  MOIC = Multiple on Invested Capital
+                </span>
+              </p>
+              <p className="mt-2 text-2xl font-semibold text-slate-900">
+                {metricAvailability.netMoic && metrics.netMoic !== null ? `${formatNumber(metrics.netMoic, 2)}x` : "—"}
+              </p>
+              <p className="mt-1 text-xs text-slate-400">
+                {metricAvailability.netMoic
+                  ? "Commitment-weighted multiple across realized and unrealized positions."
+                  : "Visibility disabled by your administrator."}
+              </p>
+            </div>
+            <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+              <p className="flex items-center gap-2 text-sm font-medium text-slate-500">
+                Net IRR
+                <span className="inline-flex items-center rounded-full bg-slate-100 px-2 py-0.5 text-[11px] text-slate-500">
+                  Cash-flow weighted
+                </span>
+              </p>
+              <p className="mt-2 text-2xl font-semibold text-slate-900">
+                {metrics.netIrr !== null && metrics.netIrr !== undefined ? formatPercent(metrics.netIrr * 100, 1) : "—"}
+              </p>
+              <p className="mt-1 text-xs text-slate-400">
+                {metricAvailability.netIrr
+                  ? "Annualised return on dated contributions, distributions and current NAV."
+                  : "Not enough dated cash flows to compute an IRR."}
+              </p>
+            </div>
           </div>
-          <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
-            <p className="flex items-center gap-2 text-sm font-medium text-slate-500">
-              Net MOIC
-              <span className="inline-flex items-center rounded-full bg-slate-100 px-2 py-0.5 text-[11px] text-slate-500">
-                MOIC = Multiple on Invested Capital
-              </span>
-            </p>
-            <p className="mt-2 text-2xl font-semibold text-slate-900">
-              {metricAvailability.netMoic
-                ? metrics.netMoicAvg
-                  ? `${formatNumber(metrics.netMoicAvg, 2)}x`
-                  : "—"
-                : "—"}
-            </p>
-            <p className="mt-1 text-xs text-slate-400">
-              {metricAvailability.netMoic
-                ? "Average multiple across realized and unrealized positions."
-                : "Visibility disabled by your administrator."}
-            </p>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5">
+            <MetricTile
+              label="Paid-in Capital"
+              value={metricAvailability.paidIn ? formatCurrencyUSD(metrics.paidInTotal) : "—"}
+              caption={metricAvailability.paidIn ? "Capital contributed to date." : HIDDEN_METRIC_CAPTION}
+            />
+            <MetricTile
+              label="Unfunded Commitment"
+              value={metricAvailability.unfunded ? formatCurrencyUSD(metrics.unfundedTotal) : "—"}
+              caption={metricAvailability.unfunded ? "Commitment not yet called." : HIDDEN_METRIC_CAPTION}
+            />
+            <MetricTile
+              label="DPI"
+              value={formatMultiple(metricAvailability.dpi ? metrics.dpi : null)}
+              caption={metricAvailability.dpi ? "Distributions / paid-in capital." : HIDDEN_METRIC_CAPTION}
+            />
+            <MetricTile
+              label="RVPI"
+              value={formatMultiple(metricAvailability.rvpi ? metrics.rvpi : null)}
+              caption={metricAvailability.rvpi ? "Remaining NAV / paid-in capital." : HIDDEN_METRIC_CAPTION}
+            />
+            <MetricTile
+              label="TVPI"
+              value={formatMultiple(metricAvailability.tvpi ? metrics.tvpi : null)}
+              caption={metricAvailability.tvpi ? "Distributions plus NAV / paid-in capital." : HIDDEN_METRIC_CAPTION}
+            />
           </div>
         </div>
       )}
 
+      {initialized && asOf ? <PeriodChanges asOf={asOf} metrics={metrics} records={records} /> : null}
+
       <div className="grid gap-6 lg:grid-cols-2">
         <div className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
           <div className="flex items-center justify-between">
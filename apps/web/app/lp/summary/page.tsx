@@ -5,7 +5,7 @@ import { useMemo } from "react";
 import { normalizeFieldKey } from "@/lib/airtable-shared";
 import { toCsv } from "@/lib/csv";
 import { formatCurrencyUSD, formatDate, formatNumber, formatPercent } from "@/lib/format";
-import { usePolling, type RefreshStatus } from "@/hooks/usePolling";
+import { useLiveData, type RefreshStatus } from "@/hooks/useLiveData";
 
 type SummaryRecord = {
   id: string;
@@ -13,11 +13,55 @@ type SummaryRecord = {
   _updatedTime: string | null;
 };
 
+type FundMetrics = {
+  fundId: string;
+  fundName: string;
+  investments: number;
+  metrics: {
+    commitmentTotal: number;
+    paidInTotal: number;
+    unfundedTotal: number;
+    navTotal: number;
+    distributionsTotal: number;
+    dpi: number | null;
+    rvpi: number | null;
+    tvpi: number | null;
+    netMoic: number | null;
+    netIrr: number | null;
+    availability: Record<
+      "commitment" | "paidIn" | "unfunded" | "nav" | "distributions" | "dpi" | "rvpi" | "tvpi" | "netMoic" | "netIrr",
+      boolean
+    >;
+  };
+};
+
 type SummaryResponse = {
   fieldOrder: string[];
   records: SummaryRecord[];
+  funds?: FundMetrics[];
 };
 
+// Columns of the per-fund table; each is blank when its fields are hidden.
+const FUND_COLUMNS: Array<{
+  label: string;
+  render: (metrics: FundMetrics["metrics"]) => string;
+}> = [
+  { label: "Commitment", render: (m) => (m.availability.commitment ? formatCurrencyUSD(m.commitmentTotal) : "—") },
+  { label: "Paid-in", render: (m) => (m.availability.paidIn ? formatCurrencyUSD(m.paidInTotal) : "—") },
+  { label: "Unfunded", render: (m) => (m.availability.unfunded ? formatCurrencyUSD(m.unfundedTotal) : "—") },
+  { label: "Distributions", render: (m) => (m.availability.distributions ? formatCurrencyUSD(m.distributionsTotal) : "—") },
+  { label: "NAV", render: (m) => (m.availability.nav ? formatCurrencyUSD(m.navTotal) : "—") },
+  { label: "DPI", render: (m) => formatMultiple(m.availability.dpi ? m.dpi : null) },
+  { label: "RVPI", render: (m) => formatMultiple(m.availability.rvpi ? m.rvpi : null) },
+  { label: "TVPI", render: (m) => formatMultiple(m.availability.tvpi ? m.tvpi : null) },
+  { label: "Net MOIC", render: (m) => formatMultiple(m.availability.netMoic ? m.netMoic : null) },
+  { label: "Net IRR", render: (m) => (m.netIrr !== null ? formatPercent(m.netIrr * 100, 1) : "—") },
+];
+
+function formatMultiple(value: number | null) {
+  return value !== null ? `${formatNumber(value, 2)}x` : "—";
+}
+
 function buildStatusBadge(status: RefreshStatus, lastUpdated: Date | null) {
   const label = status === "refreshing" ? "Refreshing" : status === "error" ? "Error" : "Idle";
   const tone =
@@ -214,12 +258,13 @@ function renderFieldValue(recordId: string, field: string, value: any) {
 }
 
 export default function InvestmentSummaryPage() {
-  const { data, status, error, initialized, lastUpdated } = usePolling<SummaryResponse>("/api/lp/summary", {
+  const { data, status, error, initialized, lastUpdated } = useLiveData<SummaryResponse>("/api/lp/summary", {
     interval: 120000,
   });
 
   const fieldOrder = useMemo(() => data?.fieldOrder ?? [], [data?.fieldOrder]);
   const records = useMemo(() => data?.records ?? [], [data?.records]);
+  const funds = useMemo(() => data?.funds ?? [], [data?.funds]);
 
   const handleExport = () => {
     if (!data || !data.records.length) {
@@ -273,41 +318,90 @@ export default function InvestmentSummaryPage() {
           No data available for your investments. If this seems incorrect, please contact support.
         </div>
       ) : (
-        <div className="overflow-x-auto rounded-2xl bg-white shadow-sm ring-1 ring-slate-200">
-          <table className="min-w-full divide-y divide-slate-200 text-sm">
-            <thead className="bg-slate-100/80">
-              <tr>
-                {fieldOrder.map((field) => (
-                  <th
-                    key={field}
-                    scope="col"
-                    className="whitespace-nowrap px-4 py-3 text-left text-xs font-semibold uppercase tracking-wide text-slate-600"
-                  >
-                    {field}
-                  </th>
-                ))}
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-slate-100">
-              {records.map((record) => (
-                <tr
-                  key={record.id}
-                  className="odd:bg-white even:bg-slate-50/60 hover:bg-blue-50/40"
-                >
-                  {fieldOrder.map((field) => {
-                    const value = Object.prototype.hasOwnProperty.call(record.fields, field)
-                      ? record.fields[field]
-                      : undefined;
-                    return (
-                      <td key={field} className="whitespace-nowrap px-4 py-2 align-top text-slate-700">
-                        {renderFieldValue(record.id, field, value)}
+        <div className="space-y-6">
+          {funds.length ? (
+            <div className="overflow-x-auto rounded-2xl bg-white shadow-sm ring-1 ring-slate-200">
+              <div className="px-4 pt-4">
+                <h3 className="text-lg font-semibold text-slate-900">By Fund</h3>
+                <p className="text-sm text-slate-500">Paid-in multiples and returns for each fund you hold.</p>
+              </div>
+              <table className="mt-3 min-w-full divide-y divide-slate-200 text-sm">
+                <thead className="bg-slate-100/80">
+                  <tr>
+                    <th
+                      scope="col"
+                      className="whitespace-nowrap px-4 py-3 text-left text-xs font-semibold uppercase tracking-wide text-slate-600"
+                    >
+                      Fund
+                    </th>
+                    {FUND_COLUMNS.map((column) => (
+                      <th
+                        key={column.label}
+                        scope="col"
+                        className="whitespace-nowrap px-4 py-3 text-right text-xs font-semibold uppercase tracking-wide text-slate-600"
+                      >
+                        {column.label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {funds.map((fund) => (
+                    <tr key={fund.fundId} className="odd:bg-white even:bg-slate-50/60">
+                      <td className="whitespace-nowrap px-4 py-2 font-medium text-slate-900">
+                        {fund.fundName}
+                        <span className="ml-2 text-xs font-normal text-slate-400">
+                          {fund.investments} {fund.investments === 1 ? "investment" : "investments"}
+                        </span>
                       </td>
-                    );
-                  })}
+                      {FUND_COLUMNS.map((column) => (
+                        <td key={column.label} className="whitespace-nowrap px-4 py-2 text-right text-slate-700">
+                          {column.render(fund.metrics)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+
+          <div className="overflow-x-auto rounded-2xl bg-white shadow-sm ring-1 ring-slate-200">
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead className="bg-slate-100/80">
+                <tr>
+                  {fieldOrder.map((field) => (
+                    <th
+                      key={field}
+                      scope="col"
+                      className="whitespace-nowrap px-4 py-3 text-left text-xs font-semibold uppercase tracking-wide text-slate-600"
+                    >
+                      {field}
+                    </th>
+                  ))}
                 </tr>
-              ))}
-            </tbody>
-          </table>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {records.map((record) => (
+                  <tr
+                    key={record.id}
+                    className="odd:bg-white even:bg-slate-50/60 hover:bg-blue-50/40"
+                  >
+                    {fieldOrder.map((field) => {
+                      const value = Object.prototype.hasOwnProperty.call(record.fields, field)
+                        ? record.fields[field]
+                        : undefined;
+                      return (
+                        <td key={field} className="whitespace-nowrap px-4 py-2 align-top text-slate-700">
+                          {renderFieldValue(record.id, field, value)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,170 @@
+"use client";
+
+import { useMemo } from "react";
+import { useLiveData, type RefreshStatus } from "@/hooks/useLiveData";
+import { formatDate } from "@/lib/format";
+
+type K1Status = "posted" | "expected" | "not-due";
+
+interface TaxDocument {
+  name: string;
+  size?: number;
+  type?: string;
+  investmentId: string;
+  field: string;
+  index: number;
+}
+
+interface TaxInvestment {
+  investmentId: string;
+  investmentName: string;
+  status: K1Status;
+  documents: TaxDocument[];
+}
+
+interface TaxYearGroup {
+  taxYear: number | null;
+  expectedBy: string | null;
+  investments: TaxInvestment[];
+}
+
+interface TaxDocumentsResponse {
+  years: TaxYearGroup[];
+  note?: string;
+}
+
+const STATUS_STYLES: Record<K1Status, { label: string; tone: string }> = {
+  posted: { label: "K-1 posted", tone: "bg-emerald-50 text-emerald-700" },
+  expected: { label: "K-1 expected", tone: "bg-amber-50 text-amber-700" },
+  "not-due": { label: "Tax year open", tone: "bg-slate-100 text-slate-600" },
+};
+
+function buildStatusBadge(status: RefreshStatus, lastUpdated: Date | null) {
+  const label =
+    status === "refreshing"
+      ? "Refreshing"
+      : status === "error"
+      ? "Error"
+      : "Idle";
+  const tone =
+    status === "refreshing"
+      ? "bg-blue-50 text-blue-600"
+      : status === "error"
+      ? "bg-red-50 text-red-600"
+      : "bg-emerald-50 text-emerald-600";
+
+  return (
+    <span className={`inline-flex items-center gap-2 rounded-full px-3 py-1 text-xs font-semibold ${tone}`}>
+      <span className="h-2 w-2 rounded-full bg-current opacity-70" aria-hidden="true" />
+      Refresh: {label}
+      {lastUpdated ? (
+        <span className="text-[11px] font-normal opacity-70">
+          {lastUpdated.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+        </span>
+      ) : null}
+    </span>
+  );
+}
+
+function buildDownloadUrl(doc: TaxDocument) {
+  return `/api/lp/documents/download?recordId=${encodeURIComponent(doc.investmentId)}&field=${encodeURIComponent(
+    doc.field
+  )}&index=${doc.index}`;
+}
+
+export default function TaxDocumentsPage() {
+  const { data, status, error, initialized, lastUpdated } = useLiveData<TaxDocumentsResponse>(
+    "/api/lp/tax-documents",
+    { interval: 120000 }
+  );
+  const years = useMemo(() => data?.years ?? [], [data]);
+  const outstanding = useMemo(
+    () =>
+      years.reduce(
+        (count, year) => count + year.investments.filter((investment) => investment.status === "expected").length,
+        0
+      ),
+    [years]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold text-slate-900">Tax Documents</h2>
+          <p className="text-sm text-slate-500">Schedule K-1s by tax year, with the ones still to be issued.</p>
+        </div>
+        {buildStatusBadge(status, lastUpdated)}
+      </div>
+
+      {status === "error" && error ? (
+        <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-600">
+          We were unable to refresh your tax documents. Please retry in a moment.
+        </div>
+      ) : null}
+
+      {initialized && outstanding > 0 ? (
+        <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700">
+          {outstanding === 1 ? "1 K-1 is" : `${outstanding} K-1s are`} still expected. They will appear here as soon as
+          they are posted.
+        </div>
+      ) : null}
+
+      {!initialized ? (
+        <div className="h-64 animate-pulse rounded-2xl bg-gradient-to-br from-slate-200/80 to-slate-100" />
+      ) : !years.length && status !== "error" ? (
+        <div className="rounded-2xl border border-dashed border-slate-200 p-10 text-center text-sm text-slate-500">
+          K-1s for your investments will surface here once they are issued.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {years.map((year) => (
+            <div
+              key={year.taxYear ?? "unassigned"}
+              className="space-y-4 rounded-2xl bg-white p-6 shadow-sm ring-1 ring-slate-200"
+            >
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h3 className="text-lg font-semibold text-slate-900">
+                  {year.taxYear !== null ? `Tax Year ${year.taxYear}` : "Tax Year Not Assigned"}
+                </h3>
+                {year.expectedBy ? (
+                  <p className="text-xs text-slate-500">K-1s due by {formatDate(`${year.expectedBy}T00:00:00`)}</p>
+                ) : null}
+              </div>
+              <div className="space-y-3">
+                {year.investments.map((investment) => {
+                  const badge = STATUS_STYLES[investment.status];
+                  return (
+                    <div
+                      key={investment.investmentId}
+                      className="space-y-2 rounded-xl border border-slate-200 px-4 py-3"
+                    >
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="text-sm font-medium text-slate-900">{investment.investmentName}</p>
+                        <span className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${badge.tone}`}>
+                          {badge.label}
+                        </span>
+                      </div>
+                      {investment.documents.map((doc) => (
+                        <a
+                          key={`${doc.investmentId}-${doc.field}-${doc.index}`}
+                          href={buildDownloadUrl(doc)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center justify-between rounded-lg bg-slate-50 px-3 py-2 text-sm text-blue-700 transition hover:bg-blue-50"
+                        >
+                          <span className="text-slate-900">{doc.name}</span>
+                          <span className="text-xs font-semibold uppercase tracking-wide text-blue-600">Download</span>
+                        </a>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
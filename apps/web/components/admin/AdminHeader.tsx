@@ -0,0 +1,52 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import type { ReactNode } from "react";
+
+const ADMIN_NAV_ITEMS = [
+  { href: "/admin", label: "Partner Investments" },
+  { href: "/admin/users", label: "Users" },
+  { href: "/admin/delegations", label: "Delegations" },
+  { href: "/admin/audit", label: "Audit Log" },
+  { href: "/admin/documents", label: "Document Access" },
+];
+
+type Props = {
+  title: string;
+  children?: ReactNode;
+};
+
+export default function AdminHeader({ title, children }: Props) {
+  const pathname = usePathname();
+
+  return (
+    <header className="sticky top-0 z-10 border-b bg-white/90 backdrop-blur">
+      <div className="mx-auto flex max-w-7xl flex-wrap items-center gap-4 px-6 py-4">
+        <div className="flex items-center gap-2">
+          <div className="h-7 w-7 rounded bg-[#2563EB]" />
+          <h1 className="text-xl font-semibold">JBV Investment Platform</h1>
+          <span className="text-gray-400">·</span>
+          <span className="text-slate-600">Admin · {title}</span>
+        </div>
+        <nav className="flex items-center gap-1 text-sm">
+          {ADMIN_NAV_ITEMS.map((item) => {
+            const isActive = pathname === item.href;
+            return (
+              <Link
+                key={item.href}
+                href={item.href}
+                className={`rounded-lg px-3 py-1 transition ${
+                  isActive ? "bg-blue-50 font-semibold text-blue-700" : "text-slate-600 hover:bg-slate-100"
+                }`}
+              >
+                {item.label}
+              </Link>
+            );
+          })}
+        </nav>
+        {children ? <div className="ml-auto flex items-center gap-3">{children}</div> : null}
+      </div>
+    </header>
+  );
+}
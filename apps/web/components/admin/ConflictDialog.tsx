@@ -0,0 +1,103 @@
+"use client";
+
+import type { FieldDiff } from "@/lib/record-conflicts";
+
+type Props = {
+  recordLabel: string;
+  diff: FieldDiff[];
+  formatValue: (field: string, value: unknown) => string;
+  saving?: boolean;
+  onKeepMine: () => void;
+  onKeepTheirs: () => void;
+};
+
+function ValueText({ text }: { text: string }) {
+  return text ? <span className="break-words">{text}</span> : <span className="text-slate-400">empty</span>;
+}
+
+// Shown when PUT /api/record answers 409: someone else saved this record
+// after it was loaded. The other admin's values are already in Airtable, so
+// "Keep theirs" only refreshes the row; "Keep mine" saves again on top of them.
+export default function ConflictDialog({ recordLabel, diff, formatValue, saving, onKeepMine, onKeepTheirs }: Props) {
+  const edited = diff.filter((entry) => Object.prototype.hasOwnProperty.call(entry, "yours"));
+  const others = diff.filter((entry) => !Object.prototype.hasOwnProperty.call(entry, "yours"));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 px-4 py-6">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="conflict-dialog-title"
+        className="w-full max-w-2xl space-y-5 rounded-2xl bg-white p-6 shadow-xl"
+      >
+        <div className="space-y-1">
+          <h2 id="conflict-dialog-title" className="text-lg font-semibold text-slate-900">
+            {recordLabel} was changed by someone else
+          </h2>
+          <p className="text-sm text-slate-600">
+            Your edit was not saved. Compare the values below and choose which to keep.
+          </p>
+        </div>
+
+        <table className="min-w-full border-collapse text-sm">
+          <thead>
+            <tr className="bg-slate-50 text-left text-slate-600">
+              <th className="border-b px-3 py-2 font-semibold">Field</th>
+              <th className="border-b px-3 py-2 font-semibold">When you loaded it</th>
+              <th className="border-b px-3 py-2 font-semibold">Saved by someone else</th>
+              <th className="border-b px-3 py-2 font-semibold">Yours</th>
+            </tr>
+          </thead>
+          <tbody>
+            {edited.map((entry) => (
+              <tr key={entry.field} className={entry.conflicting ? "bg-amber-50" : undefined}>
+                <td className="border-b px-3 py-2 font-medium text-slate-800">{entry.field}</td>
+                <td className="border-b px-3 py-2 text-slate-600">
+                  {"base" in entry ? <ValueText text={formatValue(entry.field, entry.base)} /> : "—"}
+                </td>
+                <td className="border-b px-3 py-2 text-slate-800">
+                  <ValueText text={formatValue(entry.field, entry.theirs)} />
+                </td>
+                <td className="border-b px-3 py-2 text-slate-800">
+                  <ValueText text={formatValue(entry.field, entry.yours)} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {others.length ? (
+          <div className="space-y-1 text-sm text-slate-600">
+            <p className="font-medium text-slate-700">Other fields that changed meanwhile</p>
+            <ul className="list-disc pl-5">
+              {others.map((entry) => (
+                <li key={entry.field}>
+                  {entry.field}: <ValueText text={formatValue(entry.field, entry.theirs)} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onKeepTheirs}
+            disabled={saving}
+            className="rounded-lg border px-4 py-2 text-sm hover:bg-slate-50 disabled:opacity-60"
+          >
+            Keep theirs
+          </button>
+          <button
+            type="button"
+            onClick={onKeepMine}
+            disabled={saving}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:bg-blue-300"
+          >
+            {saving ? "Saving…" : "Keep mine"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
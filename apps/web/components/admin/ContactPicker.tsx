@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "";
+
+export type ContactMatch = { id: string; name: string; email: string | null };
+
+type Props = {
+  value: ContactMatch | null;
+  onChange: (contact: ContactMatch | null) => void;
+  placeholder?: string;
+};
+
+export default function ContactPicker({ value, onChange, placeholder = "Search contacts by name or email" }: Props) {
+  const [query, setQuery] = useState("");
+  const [matches, setMatches] = useState<ContactMatch[]>([]);
+
+  useEffect(() => {
+    if (value || query.trim().length < 2) {
+      setMatches([]);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = window.setTimeout(async () => {
+      try {
+        const res = await fetch(`${API_BASE}/api/admin/contacts?q=${encodeURIComponent(query.trim())}`, {
+          cache: "no-store",
+          signal: controller.signal,
+        });
+        if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+        const json = await res.json();
+        setMatches(json.contacts || []);
+      } catch (e) {
+        if (!controller.signal.aborted) console.error(e);
+      }
+    }, 300);
+    return () => {
+      controller.abort();
+      window.clearTimeout(timer);
+    };
+  }, [query, value]);
+
+  if (value) {
+    return (
+      <div className="flex items-center justify-between rounded-xl border bg-blue-50 px-3 py-2 text-sm">
+        <span>
+          {value.name}
+          {value.email ? <span className="text-slate-500"> · {value.email}</span> : null}
+        </span>
+        <button
+          type="button"
+          onClick={() => {
+            setQuery("");
+            onChange(null);
+          }}
+          className="text-xs text-blue-700 hover:underline"
+        >
+          Change
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={placeholder}
+        className="w-full rounded-xl border px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-200"
+      />
+      {matches.length ? (
+        <ul className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-xl border bg-white text-sm shadow-lg">
+          {matches.map((contact) => (
+            <li key={contact.id}>
+              <button
+                type="button"
+                onClick={() => {
+                  setMatches([]);
+                  onChange(contact);
+                }}
+                className="w-full px-3 py-2 text-left hover:bg-blue-50"
+              >
+                {contact.name}
+                {contact.email ? <span className="text-slate-500"> · {contact.email}</span> : null}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useState } from "react";
+import ContactPicker, { type ContactMatch } from "./ContactPicker";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "";
+
+export default function ViewAsLpButton() {
+  const [open, setOpen] = useState(false);
+  const [contact, setContact] = useState<ContactMatch | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const start = async () => {
+    if (!contact) return;
+    setStarting(true);
+    setErrorMessage(null);
+    try {
+      const res = await fetch(`${API_BASE}/api/admin/impersonation`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ contactId: contact.id }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(err?.error || "Failed to open the portal.");
+      }
+      window.location.href = "/lp";
+    } catch (e: any) {
+      setErrorMessage(e?.message || "Failed to open the portal.");
+      setStarting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        className="rounded-lg border px-3 py-1 text-sm hover:bg-blue-50"
+      >
+        View as LP…
+      </button>
+      {open ? (
+        <div className="absolute right-0 z-20 mt-2 w-80 space-y-3 rounded-2xl border bg-white p-4 shadow-xl">
+          <p className="text-sm text-slate-600">
+            Open the LP portal exactly as this investor sees it. The session is read-only and recorded in the audit log.
+          </p>
+          <ContactPicker value={contact} onChange={setContact} />
+          {errorMessage ? <p className="text-xs text-red-600">{errorMessage}</p> : null}
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setOpen(false)} className="rounded-lg border px-3 py-1 text-sm">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={start}
+              disabled={!contact || starting}
+              className="rounded-lg bg-blue-600 px-3 py-1 text-sm font-semibold text-white hover:bg-blue-700 disabled:bg-blue-300"
+            >
+              {starting ? "Opening…" : "Open portal"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { usePolling } from "./usePolling";
+
+export type { RefreshStatus } from "./usePolling";
+
+const STREAM_URL = "/api/lp/stream";
+// While the stream is up, polling only backs it up.
+const STREAMING_INTERVAL_MS = 5 * 60 * 1000;
+const CHANGE_DEBOUNCE_MS = 500;
+const REOPEN_DELAY_MS = 30 * 1000;
+
+type StreamListener = {
+  onChange: () => void;
+  onStatus: (connected: boolean) => void;
+};
+
+// One EventSource per tab, shared by every hook on the page.
+let source: EventSource | null = null;
+let connected = false;
+let reopenTimer: number | undefined;
+const listeners = new Set<StreamListener>();
+
+function setConnected(next: boolean) {
+  connected = next;
+  listeners.forEach((listener) => listener.onStatus(next));
+}
+
+function openStream() {
+  window.clearTimeout(reopenTimer);
+  const stream = new EventSource(STREAM_URL, { withCredentials: true });
+  source = stream;
+
+  const notifyChange = () => listeners.forEach((listener) => listener.onChange());
+  stream.addEventListener("ready", () => setConnected(true));
+  stream.addEventListener("change", notifyChange);
+  stream.addEventListener("refresh", notifyChange);
+  stream.onerror = () => {
+    setConnected(false);
+    // The browser retries dropped connections itself; a rejected one (signed
+    // out, server error) is closed for good, so retry later by hand.
+    if (stream.readyState === EventSource.CLOSED && source === stream) {
+      source = null;
+      reopenTimer = window.setTimeout(() => {
+        if (listeners.size && !source) openStream();
+      }, REOPEN_DELAY_MS);
+    }
+  };
+}
+
+function subscribe(listener: StreamListener) {
+  listeners.add(listener);
+  if (!source) openStream();
+  else listener.onStatus(connected);
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size) {
+      window.clearTimeout(reopenTimer);
+      source?.close();
+      source = null;
+      connected = false;
+    }
+  };
+}
+
+// usePolling, but driven by the LP change stream: data is refetched when the
+// server reports a change, and the regular polling interval only applies while
+// the stream is down.
+export function useLiveData<T = unknown>(
+  url: string,
+  options?: { interval?: number; fetcher?: () => Promise<T> }
+) {
+  const [streaming, setStreaming] = useState(false);
+  const interval = options?.interval ?? 15000;
+  const polling = usePolling<T>(url, {
+    ...options,
+    interval: streaming ? Math.max(interval, STREAMING_INTERVAL_MS) : interval,
+  });
+
+  const refreshRef = useRef(polling.refresh);
+  useEffect(() => {
+    refreshRef.current = polling.refresh;
+  }, [polling.refresh]);
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+    let timer: number | undefined;
+    const unsubscribe = subscribe({
+      onChange: () => {
+        window.clearTimeout(timer);
+        timer = window.setTimeout(() => refreshRef.current(), CHANGE_DEBOUNCE_MS);
+      },
+      onStatus: setStreaming,
+    });
+    return () => {
+      window.clearTimeout(timer);
+      unsubscribe();
+    };
+  }, []);
+
+  return { ...polling, streaming };
+}
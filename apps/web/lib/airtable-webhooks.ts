@@ -0,0 +1,267 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { readJson, updateJson } from "./json-store";
+
+// Overridable so a local stand-in can serve recorded payloads.
+const AIRTABLE_API_URL = (process.env.AIRTABLE_API_URL || "https://api.airtable.com").replace(/\/$/, "");
+const CURSOR_STORE = "airtable-webhook-cursors";
+// A payload whose handlers keep failing is retried on this many pings before
+// it is given up on, so one bad change cannot stall the webhook for good.
+const MAX_HANDLER_ATTEMPTS = 5;
+
+// The ping Airtable POSTs to the notification URL; it carries no changes, only
+// which webhook has new payloads to fetch.
+export type WebhookNotification = {
+  base: { id: string };
+  webhook: { id: string };
+  timestamp: string;
+};
+
+type CellValues = Record<string, unknown>;
+
+export type WebhookPayload = {
+  timestamp: string;
+  baseTransactionNumber: number;
+  payloadFormat: string;
+  actionMetadata?: {
+    source?: string;
+    sourceMetadata?: { user?: { id?: string; email?: string; name?: string } };
+  };
+  changedTablesById?: Record<
+    string,
+    {
+      createdRecordsById?: Record<string, { createdTime?: string; cellValuesByFieldId?: CellValues }>;
+      changedRecordsById?: Record<
+        string,
+        {
+          current?: { cellValuesByFieldId?: CellValues };
+          previous?: { cellValuesByFieldId?: CellValues };
+        }
+      >;
+      destroyedRecordIds?: string[];
+    }
+  >;
+  error?: boolean;
+  code?: string;
+};
+
+type PayloadPage = {
+  payloads: WebhookPayload[];
+  cursor: number;
+  mightHaveMore: boolean;
+};
+
+// One record-level change, flattened out of a payload. Cell values are keyed
+// by field id, as Airtable sends them.
+export type WebhookRecordChange = {
+  kind: "created" | "changed" | "destroyed";
+  tableId: string;
+  recordId: string;
+  current: CellValues;
+  previous: CellValues;
+  // "client", "publicApi", "automation", "formSubmission", "sync", "system"…
+  source: string;
+  actorEmail: string | null;
+  timestamp: string;
+  transaction: number;
+};
+
+export type WebhookContext = {
+  portalUrl: string;
+  // Set when an earlier attempt at the same payload failed in this handler.
+  retry?: boolean;
+};
+
+// A payload is retried until every handler has succeeded on it; handlers that
+// already did are not run again, but the failing one is, so it must be safe to
+// repeat (including after a partial run).
+export interface WebhookChangeHandler {
+  readonly name: string;
+  handle(changes: WebhookRecordChange[], context: WebhookContext): Promise<void>;
+}
+
+// `pending` tracks a payload whose handlers did not all succeed yet.
+type PendingPayload = { transaction: number; completed: string[]; attempts: number };
+
+type CursorState = { cursor: number; lastTransaction: number; pending?: PendingPayload; updatedAt: string };
+
+export function isWebhookNotification(value: any): value is WebhookNotification {
+  return typeof value?.base?.id === "string" && typeof value?.webhook?.id === "string";
+}
+
+// X-Airtable-Content-MAC is "hmac-sha256=<hex>" over the raw request body,
+// keyed with the webhook's base64 macSecret.
+export function verifyWebhookSignature(rawBody: string, header: string | null, macSecretBase64: string) {
+  if (!header?.startsWith("hmac-sha256=")) return false;
+  const expected = Buffer.from(
+    createHmac("sha256", Buffer.from(macSecretBase64, "base64")).update(rawBody, "utf8").digest("hex")
+  );
+  const provided = Buffer.from(header.slice("hmac-sha256=".length));
+  return expected.length === provided.length && timingSafeEqual(expected, provided);
+}
+
+export function extractRecordChanges(payload: WebhookPayload): WebhookRecordChange[] {
+  const source = payload.actionMetadata?.source || "unknown";
+  const actorEmail = payload.actionMetadata?.sourceMetadata?.user?.email?.toLowerCase() || null;
+  const common = { source, actorEmail, timestamp: payload.timestamp, transaction: payload.baseTransactionNumber };
+  const changes: WebhookRecordChange[] = [];
+
+  for (const [tableId, table] of Object.entries(payload.changedTablesById || {})) {
+    for (const [recordId, created] of Object.entries(table.createdRecordsById || {})) {
+      changes.push({
+        ...common,
+        kind: "created",
+        tableId,
+        recordId,
+        current: created.cellValuesByFieldId || {},
+        previous: {},
+      });
+    }
+    for (const [recordId, changed] of Object.entries(table.changedRecordsById || {})) {
+      changes.push({
+        ...common,
+        kind: "changed",
+        tableId,
+        recordId,
+        current: changed.current?.cellValuesByFieldId || {},
+        previous: changed.previous?.cellValuesByFieldId || {},
+      });
+    }
+    for (const recordId of table.destroyedRecordIds || []) {
+      changes.push({ ...common, kind: "destroyed", tableId, recordId, current: {}, previous: {} });
+    }
+  }
+
+  return changes;
+}
+
+async function fetchPayloadPage(baseId: string, webhookId: string, cursor: number): Promise<PayloadPage> {
+  const url = `${AIRTABLE_API_URL}/v0/bases/${encodeURIComponent(baseId)}/webhooks/${encodeURIComponent(
+    webhookId
+  )}/payloads?cursor=${cursor}`;
+  const response = await fetch(url, {
+    headers: { Authorization: `Bearer ${process.env.AIRTABLE_API_KEY}` },
+    cache: "no-store",
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch webhook payloads (${response.status})`);
+  }
+  const json = await response.json();
+  return {
+    payloads: Array.isArray(json?.payloads) ? json.payloads : [],
+    cursor: Number(json?.cursor) || cursor,
+    mightHaveMore: Boolean(json?.mightHaveMore),
+  };
+}
+
+async function readCursor(webhookId: string): Promise<CursorState> {
+  const store = await readJson<Record<string, CursorState>>(CURSOR_STORE, {});
+  return store[webhookId] ?? { cursor: 1, lastTransaction: 0, updatedAt: new Date(0).toISOString() };
+}
+
+async function saveCursor(webhookId: string, state: Omit<CursorState, "updatedAt">) {
+  await updateJson<Record<string, CursorState>, void>(CURSOR_STORE, {}, (store) => ({
+    value: { ...store, [webhookId]: { ...state, updatedAt: new Date().toISOString() } },
+    result: undefined,
+  }));
+}
+
+// Runs every handler not yet completed for the payload and returns the names
+// of those that failed. One failing handler does not hold back the others.
+async function dispatch(
+  handlers: WebhookChangeHandler[],
+  changes: WebhookRecordChange[],
+  context: WebhookContext,
+  pending: PendingPayload
+): Promise<string[]> {
+  if (!changes.length) return [];
+  const failed: string[] = [];
+  for (const handler of handlers) {
+    if (pending.completed.includes(handler.name)) continue;
+    try {
+      await handler.handle(changes, { ...context, retry: pending.attempts > 0 });
+      pending.completed.push(handler.name);
+    } catch (error) {
+      console.error(`[airtable-webhook] Handler ${handler.name} failed`, error);
+      failed.push(handler.name);
+    }
+  }
+  return failed;
+}
+
+export type WebhookRunResult = { payloads: number; skipped: number; changes: number };
+
+// Reads payloads from the stored cursor until Airtable has no more. Progress is
+// saved after every payload, and payloads at or below the last processed
+// transaction are skipped, so a retried or overlapping ping never runs
+// handlers twice for the same change. When a handler fails the run stops
+// without moving past that payload; the next ping retries it.
+async function drainPayloads(
+  notification: WebhookNotification,
+  handlers: WebhookChangeHandler[],
+  context: WebhookContext
+): Promise<WebhookRunResult> {
+  const webhookId = notification.webhook.id;
+  const result: WebhookRunResult = { payloads: 0, skipped: 0, changes: 0 };
+  const state = await readCursor(webhookId);
+  let { cursor, lastTransaction } = state;
+
+  for (;;) {
+    const page = await fetchPayloadPage(notification.base.id, webhookId, cursor);
+    for (const payload of page.payloads) {
+      if (payload.error) {
+        console.error("[airtable-webhook] Airtable reported a payload error", payload.code);
+        continue;
+      }
+      if (payload.baseTransactionNumber <= lastTransaction) {
+        result.skipped += 1;
+        continue;
+      }
+      const changes = extractRecordChanges(payload);
+      const pending: PendingPayload =
+        state.pending?.transaction === payload.baseTransactionNumber
+          ? { ...state.pending, completed: [...state.pending.completed] }
+          : { transaction: payload.baseTransactionNumber, completed: [], attempts: 0 };
+      const failed = await dispatch(handlers, changes, context, pending);
+      if (failed.length) {
+        pending.attempts += 1;
+        if (pending.attempts < MAX_HANDLER_ATTEMPTS) {
+          await saveCursor(webhookId, { cursor, lastTransaction, pending });
+          throw new Error(`Webhook handlers failed on transaction ${pending.transaction}: ${failed.join(", ")}`);
+        }
+        console.error(
+          `[airtable-webhook] Giving up on transaction ${pending.transaction} after ${pending.attempts} attempts`,
+          failed
+        );
+      }
+      lastTransaction = payload.baseTransactionNumber;
+      await saveCursor(webhookId, { cursor, lastTransaction });
+      result.payloads += 1;
+      result.changes += changes.length;
+    }
+    cursor = page.cursor;
+    await saveCursor(webhookId, { cursor, lastTransaction });
+    if (!page.mightHaveMore || !page.payloads.length) break;
+  }
+
+  return result;
+}
+
+const inFlight = new Map<string, Promise<WebhookRunResult>>();
+
+// Pings for the same webhook are processed one after another.
+export function processWebhookNotification(
+  notification: WebhookNotification,
+  handlers: WebhookChangeHandler[],
+  context: WebhookContext
+): Promise<WebhookRunResult> {
+  const webhookId = notification.webhook.id;
+  const previous = inFlight.get(webhookId) ?? Promise.resolve(null);
+  const run = previous.catch(() => null).then(() => drainPayloads(notification, handlers, context));
+  inFlight.set(webhookId, run);
+  run
+    .finally(() => {
+      if (inFlight.get(webhookId) === run) inFlight.delete(webhookId);
+    })
+    .catch(() => undefined);
+  return run;
+}
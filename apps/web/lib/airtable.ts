@@ -1,114 +1,35 @@
 import Airtable from "airtable";
 import Bottleneck from "bottleneck";
-import { normalizeFieldKey } from "./airtable-shared";
-import type { ExpandedRecord, LinkedRecord } from "./airtable-shared";
 
 export const PARTNER_INVESTMENTS_TABLE = "Partner Investments";
 export const VISIBILITY_RULES_TABLE = "VisibilityRules";
 export const CONTACTS_TABLE = "Contacts";
+export const PORTAL_USERS_TABLE = "Portal Users";
+export const DELEGATIONS_TABLE = "Portal Delegations";
+export const FUNDS_TABLE = "JBV Entities";
+export const AUDIT_LOG_TABLE = "Audit Log";
+export const DOCUMENT_ACCESS_TABLE = "Document Access Log";
+export const TRANSACTIONS_TABLE = "Investment Transactions";
 
 export const VIEW_ID = process.env.AIRTABLE_VIEW_ID || undefined;
 
+// Airtable only exposes when a record last changed through a "Last modified
+// time" field. Naming it here turns on conflict detection for edits.
+export const LAST_MODIFIED_FIELD = process.env.AIRTABLE_LAST_MODIFIED_FIELD || "";
+
 export const base = new Airtable({ apiKey: process.env.AIRTABLE_API_KEY! }).base(
   process.env.AIRTABLE_BASE_ID!
 );
 
-const LINK_MAP: Record<string, string> = {
-  "Target Securities": "Target Securities",
-  Partner: "Partners",
-  Fund: "JBV Entities",
-  "PRIMARY CONTACT": "Contacts",
-  "Primary Contact": "Contacts",
-};
-
 const limiter = new Bottleneck({ minTime: 60 });
 
 export const airtableLimiter = limiter;
 
 export type AirtableRecord = Airtable.Record<any>;
 
-const CHUNK_SIZE = 50;
-
-function toLinkedRecord(rec: AirtableRecord): LinkedRecord {
-  const fields: any = rec.fields || {};
-  const primary = fields.Name || fields.Title || Object.values(fields || {})[0];
-  return { id: rec.id, fields, displayName: primary };
-}
-
-async function fetchLinkedRecords(tableName: string, ids: string[]) {
-  if (!ids.length) return new Map<string, LinkedRecord>();
-
-  const uniqueIds = Array.from(new Set(ids));
-  const lookup = new Map<string, LinkedRecord>();
-
-  for (let i = 0; i < uniqueIds.length; i += CHUNK_SIZE) {
-    const chunk = uniqueIds.slice(i, i + CHUNK_SIZE);
-    const filterByFormula =
-      chunk.length === 1
-        ? `RECORD_ID()='${chunk[0]}'`
-        : `OR(${chunk.map((id) => `RECORD_ID()='${id}'`).join(",")})`;
-
-    const records = await limiter.schedule(() =>
-      base(tableName)
-        .select({ filterByFormula })
-        .all()
-    );
-
-    for (const rec of records) {
-      const formatted = toLinkedRecord(rec as AirtableRecord);
-      lookup.set(formatted.id, formatted);
-    }
-  }
-
-  return lookup;
-}
-
-export async function expandPartnerInvestmentRecords(rows: AirtableRecord[]): Promise<ExpandedRecord[]> {
-  if (!rows.length) return [];
-
-  const idsByTable = new Map<string, Set<string>>();
-
-  for (const row of rows) {
-    const rowFields: Record<string, any> = (row.fields || {}) as Record<string, any>;
-    for (const [fieldName, tableName] of Object.entries(LINK_MAP)) {
-      const value = rowFields[fieldName];
-      if (Array.isArray(value) && value.length) {
-        if (!idsByTable.has(tableName)) idsByTable.set(tableName, new Set());
-        const idSet = idsByTable.get(tableName)!;
-        for (const id of value) idSet.add(id);
-      }
-    }
-  }
-
-  const lookups = new Map<string, Map<string, LinkedRecord>>();
-
-  await Promise.all(
-    Array.from(idsByTable.entries()).map(async ([tableName, idSet]) => {
-      const tableLookup = await fetchLinkedRecords(tableName, Array.from(idSet));
-      lookups.set(tableName, tableLookup);
-    })
-  );
-
-  return rows.map((row) => {
-    const originalFields: Record<string, any> = (row.fields || {}) as Record<string, any>;
-    const fields: Record<string, any> = { ...originalFields };
-
-    for (const [fieldName, tableName] of Object.entries(LINK_MAP)) {
-      const ids = originalFields[fieldName];
-      if (Array.isArray(ids) && ids.length) {
-        const lookup = lookups.get(tableName);
-        fields[fieldName] = lookup
-          ? ids.map((id: string) => lookup.get(id) ?? { id, error: true })
-          : [];
-      }
-    }
-
-    return {
-      id: row.id,
-      fields,
-      _updatedTime: (row as any)._rawJson?.modifiedTime || null,
-    };
-  });
+export function recordModifiedTime(rec: AirtableRecord): string | null {
+  const fromField = LAST_MODIFIED_FIELD ? rec.fields?.[LAST_MODIFIED_FIELD] : null;
+  return (rec as any)._rawJson?.modifiedTime || (typeof fromField === "string" ? fromField : null);
 }
 
 export async function selectAllRecords(
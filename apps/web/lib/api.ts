@@ -1,10 +1,14 @@
+import type { ConflictResponse } from "./record-conflicts";
+
 export const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:4000";
 
 export type SaveBody = {
   tableIdOrName: string;
   recordId: string;
   fields: Record<string, any>;
-  lastSeenModifiedTime?: number | null;
+  lastSeenModifiedTime?: number | string | null;
+  // The values the editor started from, so only overlapping edits conflict.
+  baseFields?: Record<string, any> | null;
 };
 
 export async function fetchInitialData(): Promise<any[]> {
@@ -20,9 +24,10 @@ export async function saveRecord(body: SaveBody) {
     body: JSON.stringify(body),
   });
   if (res.status === 409) {
-    const latest = await res.json();
+    const conflict = (await res.json()) as ConflictResponse;
     const err = new Error('Conflict');
-    (err as any).latest = latest;
+    (err as any).latest = conflict.latest;
+    (err as any).diff = conflict.diff;
     throw err;
   }
   if (!res.ok) throw new Error('Failed to save');
@@ -0,0 +1,168 @@
+import { AUDIT_LOG_TABLE, airtableLimiter, base } from "./airtable";
+import type { Role } from "./is-admin";
+
+// Audit Log table columns: Timestamp, Action, Actor Email, Actor Role, Table,
+// Record ID, Field, Before, After, Request ID, Details (JSON). Rows are only
+// ever appended; nothing in the app updates or deletes them.
+export type AuditEvent = {
+  action: string;
+  actorEmail: string;
+  // "airtable" for edits made directly in the base, reported by the webhook.
+  actorRole: Role | "airtable";
+  table?: string | null;
+  recordId?: string | null;
+  field?: string | null;
+  before?: unknown;
+  after?: unknown;
+  requestId?: string | null;
+  details?: Record<string, unknown> | null;
+};
+
+export type AuditEntry = {
+  id: string;
+  timestamp: string;
+  action: string;
+  actorEmail: string;
+  actorRole: string;
+  table: string | null;
+  recordId: string | null;
+  field: string | null;
+  before: string | null;
+  after: string | null;
+  requestId: string | null;
+  details: string | null;
+};
+
+export type AuditQuery = {
+  actor?: string | null;
+  recordId?: string | null;
+  field?: string | null;
+  action?: string | null;
+  requestId?: string | null;
+  from?: string | null;
+  to?: string | null;
+  limit?: number;
+};
+
+const MAX_CELL_LENGTH = 100_000;
+const CREATE_BATCH_SIZE = 10;
+const DEFAULT_QUERY_LIMIT = 500;
+export const MAX_QUERY_LIMIT = 5000;
+
+export function resolveRequestId(req: Request) {
+  const provided = req.headers.get("x-request-id")?.trim();
+  return provided && provided.length <= 128 ? provided : crypto.randomUUID();
+}
+
+function serializeValue(value: unknown) {
+  if (value === undefined) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > MAX_CELL_LENGTH ? `${text.slice(0, MAX_CELL_LENGTH - 1)}…` : text;
+}
+
+function toAirtableFields(event: AuditEvent, timestamp: string) {
+  return {
+    Timestamp: timestamp,
+    Action: event.action,
+    "Actor Email": event.actorEmail.trim().toLowerCase(),
+    "Actor Role": event.actorRole,
+    Table: event.table ?? "",
+    "Record ID": event.recordId ?? "",
+    Field: event.field ?? "",
+    Before: serializeValue(event.before),
+    After: serializeValue(event.after),
+    "Request ID": event.requestId ?? "",
+    Details: event.details ? serializeValue(event.details) : "",
+  };
+}
+
+export async function recordAuditEvents(events: AuditEvent[]): Promise<void> {
+  if (!events.length) return;
+  const timestamp = new Date().toISOString();
+  for (let i = 0; i < events.length; i += CREATE_BATCH_SIZE) {
+    const chunk = events.slice(i, i + CREATE_BATCH_SIZE).map((event) => ({
+      fields: toAirtableFields(event, timestamp),
+    }));
+    await airtableLimiter.schedule(() => base(AUDIT_LOG_TABLE).create(chunk, { typecast: true }));
+  }
+}
+
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  await recordAuditEvents([event]);
+}
+
+function isSameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// One event per field whose value actually changed, so the log can be
+// filtered by field.
+export function buildFieldChangeEvents(
+  event: Omit<AuditEvent, "field" | "before" | "after">,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fieldNames: string[]
+): AuditEvent[] {
+  return fieldNames
+    .filter((field) => !isSameValue(before[field], after[field]))
+    .map((field) => ({ ...event, field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+function escapeFormulaValue(value: string) {
+  return value.replace(/'/g, "''");
+}
+
+function buildFilterFormula(query: AuditQuery) {
+  const clauses: string[] = [];
+  const actor = query.actor?.trim().toLowerCase();
+  if (actor) clauses.push(`SEARCH('${escapeFormulaValue(actor)}', LOWER({Actor Email}))`);
+  const recordId = query.recordId?.trim();
+  if (recordId) clauses.push(`{Record ID} = '${escapeFormulaValue(recordId)}'`);
+  const field = query.field?.trim().toLowerCase();
+  if (field) clauses.push(`SEARCH('${escapeFormulaValue(field)}', LOWER({Field} & ' ' & {Details}))`);
+  const action = query.action?.trim();
+  if (action) clauses.push(`{Action} = '${escapeFormulaValue(action)}'`);
+  const requestId = query.requestId?.trim();
+  if (requestId) clauses.push(`{Request ID} = '${escapeFormulaValue(requestId)}'`);
+  if (query.from && !Number.isNaN(Date.parse(query.from))) {
+    clauses.push(`IS_AFTER({Timestamp}, '${new Date(query.from).toISOString()}')`);
+  }
+  if (query.to && !Number.isNaN(Date.parse(query.to))) {
+    clauses.push(`IS_BEFORE({Timestamp}, '${new Date(query.to).toISOString()}')`);
+  }
+  if (!clauses.length) return "";
+  return clauses.length === 1 ? clauses[0] : `AND(${clauses.join(", ")})`;
+}
+
+function toAuditEntry(record: { id: string; fields: Record<string, any> }): AuditEntry {
+  const f = record.fields || {};
+  return {
+    id: record.id,
+    timestamp: f["Timestamp"] || "",
+    action: f["Action"] || "",
+    actorEmail: f["Actor Email"] || "",
+    actorRole: f["Actor Role"] || "",
+    table: f["Table"] || null,
+    recordId: f["Record ID"] || null,
+    field: f["Field"] || null,
+    before: f["Before"] || null,
+    after: f["After"] || null,
+    requestId: f["Request ID"] || null,
+    details: f["Details"] || null,
+  };
+}
+
+export async function listAuditEntries(query: AuditQuery = {}): Promise<AuditEntry[]> {
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_QUERY_LIMIT, 1), MAX_QUERY_LIMIT);
+  const filterByFormula = buildFilterFormula(query);
+  const records = await airtableLimiter.schedule(() =>
+    base(AUDIT_LOG_TABLE)
+      .select({
+        ...(filterByFormula ? { filterByFormula } : {}),
+        sort: [{ field: "Timestamp", direction: "desc" }],
+        maxRecords: limit,
+      })
+      .all()
+  );
+  return records.map((record) => toAuditEntry({ id: record.id, fields: record.fields as Record<string, any> }));
+}
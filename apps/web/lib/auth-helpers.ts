@@ -1,6 +1,5 @@
-export type Role = "admin" | "lp" | "partner";
-
-export { getAdminEmails, isAdmin } from "./is-admin";
+export type { Role } from "./is-admin";
+export { ROLES, getAdminEmails, isAdmin, isAdminRole, isRole } from "./is-admin";
 
 function escapeFormulaValue(value: string) {
   return value.replace(/'/g, "''");
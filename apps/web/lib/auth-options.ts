@@ -1,38 +1,45 @@
 import type { NextAuthOptions } from "next-auth";
 import CredentialsProvider from "next-auth/providers/credentials";
 
-import { isAdmin, isEmailInAirtableContacts } from "./auth-helpers";
+import { consumeMagicLinkToken } from "./magic-link";
+import { getMfaStatus, verifyMfaCode } from "./mfa";
+import { ROLE_RECHECK_MS, isAdminRole } from "./is-admin";
+import { canSignIn, lookupUserRole } from "./user-directory";
+
+const MAGIC_LINK_ERRORS = {
+  invalid: "LinkInvalid",
+  expired: "LinkExpired",
+  used: "LinkUsed",
+} as const;
 
 export const authOptions: NextAuthOptions = {
   providers: [
     CredentialsProvider({
-      name: "Email",
+      id: "magic-link",
+      name: "Email link",
       credentials: {
-        email: {
-          label: "Email",
-          type: "email",
-          placeholder: "you@example.com",
-        },
+        token: { label: "Token", type: "text" },
       },
       async authorize(credentials) {
-        const email = credentials?.email;
-        if (!email || typeof email !== "string") {
+        const token = credentials?.token;
+        if (!token || typeof token !== "string") {
           return null;
         }
 
-        const normalizedEmail = email.trim().toLowerCase();
-        if (!normalizedEmail) {
-          return null;
+        const verification = await consumeMagicLinkToken(token);
+        if (!verification.ok) {
+          throw new Error(MAGIC_LINK_ERRORS[verification.reason]);
         }
 
-        const exists = await isEmailInAirtableContacts(normalizedEmail);
+        // Contacts can be removed between requesting and opening the link.
+        const exists = await canSignIn(verification.email);
         if (!exists) {
           return null;
         }
 
         return {
-          id: normalizedEmail,
-          email: normalizedEmail,
+          id: verification.email,
+          email: verification.email,
         };
       },
     }),
@@ -42,15 +49,51 @@ export const authOptions: NextAuthOptions = {
   },
   secret: process.env.NEXTAUTH_SECRET || "development-secret",
   callbacks: {
-    async jwt({ token }) {
-      if (typeof token.email === "string") {
-        token.role = isAdmin(token.email) ? "admin" : "lp";
+    async jwt({ token, user, trigger, session }) {
+      // Re-resolved once the claim is older than ROLE_RECHECK_MS, so grants
+      // and revocations apply without forcing the user to sign in again. A
+      // failed lookup drops staff roles and is retried on the next call.
+      const roleStale = !token.roleCheckedAt || Date.now() - token.roleCheckedAt >= ROLE_RECHECK_MS;
+      if (typeof token.email === "string" && (user || trigger === "update" || roleStale)) {
+        try {
+          token.role = await lookupUserRole(token.email);
+          token.roleCheckedAt = Date.now();
+        } catch (error) {
+          console.error("[auth] Failed to re-resolve role", error);
+          if (!token.role || isAdminRole(token.role)) token.role = "lp";
+        }
+      }
+
+      // Every new sign-in starts unverified; the second factor is proven
+      // afterwards through `useSession().update({ mfaCode })`.
+      if (user && typeof token.email === "string") {
+        const status = await getMfaStatus(token.email, token.role);
+        token.mfaEnrolled = status.enrolled;
+        token.mfaRequired = status.required;
+        token.mfaVerified = false;
       }
+
+      if (trigger === "update" && typeof token.email === "string") {
+        const status = await getMfaStatus(token.email, token.role);
+        token.mfaEnrolled = status.enrolled;
+        token.mfaRequired = status.required;
+        const code = typeof session?.mfaCode === "string" ? session.mfaCode : null;
+        if (code && status.enrolled && (await verifyMfaCode(token.email, code))) {
+          token.mfaVerified = true;
+        }
+        if (!status.enrolled) {
+          token.mfaVerified = false;
+        }
+      }
+
       return token;
     },
     async session({ session, token }) {
       if (session.user) {
-        session.user.role = token.role ?? (isAdmin(session.user.email) ? "admin" : "lp");
+        session.user.role = token.role ?? "lp";
+        session.user.mfaEnrolled = Boolean(token.mfaEnrolled);
+        session.user.mfaRequired = Boolean(token.mfaRequired);
+        session.user.mfaVerified = Boolean(token.mfaVerified);
       }
       return session;
     },
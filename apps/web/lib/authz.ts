@@ -0,0 +1,107 @@
+import { createHash, timingSafeEqual } from "crypto";
+import type { Session } from "next-auth";
+import { PARTNER_INVESTMENTS_TABLE, TRANSACTIONS_TABLE } from "./airtable";
+import { getSession } from "./auth";
+import { isAdminRole, type Role } from "./is-admin";
+
+export type Permission =
+  | "profile:read"
+  | "lp:read"
+  | "lp:impersonate"
+  | "data:read"
+  | "records:write"
+  | "visibility:read"
+  | "visibility:write"
+  | "users:read"
+  | "users:write"
+  | "delegations:read"
+  | "delegations:write"
+  | "audit:read"
+  | "notifications:run"
+  | "snapshots:run";
+
+// Which roles may call what. Every /api route (other than NextAuth, the magic
+// link request, the Airtable webhook, signed document share links and
+// scheduler calls carrying a cron secret) goes through `authorizeRequest`.
+const PERMISSION_ROLES: Record<Permission, readonly Role[]> = {
+  "profile:read": ["admin", "read-only-admin", "partner", "lp"],
+  "lp:read": ["admin", "read-only-admin", "partner", "lp"],
+  "lp:impersonate": ["admin", "read-only-admin"],
+  "data:read": ["admin", "read-only-admin"],
+  "records:write": ["admin"],
+  "visibility:read": ["admin", "read-only-admin"],
+  "visibility:write": ["admin"],
+  "users:read": ["admin", "read-only-admin"],
+  "users:write": ["admin"],
+  "delegations:read": ["admin", "read-only-admin"],
+  "delegations:write": ["admin"],
+  "audit:read": ["admin", "read-only-admin"],
+  "notifications:run": ["admin"],
+  "snapshots:run": ["admin"],
+};
+
+// Tables that may be named by clients, per permission. Anything else in the
+// base is unreachable through the API.
+const TABLE_ALLOW_LIST: Partial<Record<Permission, readonly string[]>> = {
+  "records:write": [PARTNER_INVESTMENTS_TABLE, process.env.AIRTABLE_PARTNER_INVESTMENTS_TABLE_ID || ""].filter(Boolean),
+  "visibility:read": [PARTNER_INVESTMENTS_TABLE, TRANSACTIONS_TABLE],
+  "visibility:write": [PARTNER_INVESTMENTS_TABLE, TRANSACTIONS_TABLE],
+};
+
+export type AuthorizedRequest = {
+  session: Session;
+  email: string;
+  role: Role;
+};
+
+type AuthorizeOptions = {
+  // Sign-in flows that run before the second factor has been presented.
+  allowPendingMfa?: boolean;
+};
+
+function deny(status: 401 | 403, error: string) {
+  return Response.json({ error }, { status });
+}
+
+export function hasPermission(role: Role | undefined | null, permission: Permission) {
+  return Boolean(role && PERMISSION_ROLES[permission].includes(role));
+}
+
+export function isTableAllowed(tableIdOrName: unknown, permission: Permission) {
+  const allowed = TABLE_ALLOW_LIST[permission];
+  return typeof tableIdOrName === "string" && Boolean(allowed?.includes(tableIdOrName));
+}
+
+export async function authorizeRequest(
+  permission: Permission,
+  options?: AuthorizeOptions
+): Promise<AuthorizedRequest | Response> {
+  const session = await getSession();
+  const user = session?.user;
+  const email = user?.email;
+  if (!session || !user || !email) {
+    return deny(401, "Unauthorized");
+  }
+
+  const role = user.role ?? "lp";
+  // Admin roles always need the second factor, even if promoted mid-session.
+  const mfaRequired = user.mfaRequired || isAdminRole(role);
+  if (!options?.allowPendingMfa && mfaRequired && !user.mfaVerified) {
+    return deny(403, "Two-factor verification required");
+  }
+  if (!hasPermission(role, permission)) {
+    return deny(403, "Forbidden");
+  }
+
+  return { session, email, role };
+}
+
+// Schedulers authenticate with `Authorization: Bearer <secret>`, the secret
+// coming from the env var the route names. Unset secrets never match.
+export function hasCronSecret(req: Request, secret: string | undefined) {
+  const header = req.headers.get("authorization") || "";
+  if (!secret || !header.startsWith("Bearer ")) return false;
+  const expected = createHash("sha256").update(secret).digest();
+  const provided = createHash("sha256").update(header.slice("Bearer ".length)).digest();
+  return timingSafeEqual(expected, provided);
+}
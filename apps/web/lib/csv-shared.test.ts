@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { escapeCsvValue, rowsToCsv } from "./csv-shared";
+
+describe("escapeCsvValue", () => {
+  it("leaves negative numbers alone, formatted or not", () => {
+    expect(escapeCsvValue("-1250.5")).toBe("-1250.5");
+    expect(escapeCsvValue("-$1,250.00")).toBe('"-$1,250.00"');
+    expect(escapeCsvValue("-12.50%")).toBe("-12.50%");
+    expect(escapeCsvValue("-1.25x")).toBe("-1.25x");
+    expect(escapeCsvValue("+3.2%")).toBe("+3.2%");
+  });
+
+  it("neutralises cells a spreadsheet would run as a formula", () => {
+    expect(escapeCsvValue("=HYPERLINK(\"https://example.com\")")).toBe('"\'=HYPERLINK(""https://example.com"")"');
+    expect(escapeCsvValue("-2+3")).toBe("'-2+3");
+    expect(escapeCsvValue("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(escapeCsvValue("+$1000 cmd")).toBe("'+$1000 cmd");
+  });
+});
+
+describe("rowsToCsv", () => {
+  it("exports gain/loss columns as the baseline did", () => {
+    expect(
+      rowsToCsv([
+        ["Investment", "Gain/Loss", "Return"],
+        ["Fund I", "-$1,250.00", "-12.50%"],
+      ])
+    ).toBe('Investment,Gain/Loss,Return\r\nFund I,"-$1,250.00",-12.50%');
+  });
+});
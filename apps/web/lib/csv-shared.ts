@@ -0,0 +1,22 @@
+// Spreadsheets run a cell starting with one of these as a formula. Numbers,
+// including formatted ones such as "-1250.50", "-$1,250.00", "-12.50%" and
+// "-1.25x", are left alone.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMERIC_CELL = /^[-+]?\$?\d[\d,]*(\.\d+)?[%x]?$/i;
+
+export function escapeCsvValue(value: string) {
+  if (FORMULA_PREFIX.test(value) && !NUMERIC_CELL.test(value)) {
+    value = `'${value}`;
+  }
+  if (value.includes("\"")) {
+    value = value.replace(/"/g, '""');
+  }
+  if (/[",\n\r]/.test(value)) {
+    return `"${value}"`;
+  }
+  return value;
+}
+
+export function rowsToCsv(rows: string[][]) {
+  return rows.map((row) => row.map((cell) => escapeCsvValue(cell ?? "")).join(",")).join("\r\n");
+}
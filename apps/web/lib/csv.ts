@@ -1,6 +1,7 @@
 "use client";
 
 import { normalizeFieldKey } from "@/lib/airtable-shared";
+import { rowsToCsv } from "@/lib/csv-shared";
 import { formatCurrencyUSD, formatDate, formatNumber, formatPercent } from "@/lib/format";
 
 type CsvRecord = {
@@ -43,16 +44,6 @@ function isDateField(normalized: string) {
   return /date|period|as of|paid/.test(normalized);
 }
 
-function escapeCsvValue(value: string) {
-  if (value.includes("\"")) {
-    value = value.replace(/"/g, '""');
-  }
-  if (/[",\n\r]/.test(value)) {
-    return `"${value}"`;
-  }
-  return value;
-}
-
 function isLinkedArray(value: any[]): boolean {
   return value.some((entry) => entry && typeof entry === "object" && "displayName" in entry);
 }
@@ -184,6 +175,6 @@ export function toCsv({ fieldOrder, records }: CsvInput): Blob {
     rows.push(row);
   });
 
-  const csvContent = rows.map((row) => row.map((cell) => escapeCsvValue(cell ?? "")).join(",")).join("\r\n");
+  const csvContent = rowsToCsv(rows);
   return new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
 }
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { RedisLikeClient } from "./data-access";
+
+const airtable = vi.hoisted(() => ({
+  rows: [] as Array<{ id: string; fields: Record<string, any> }>,
+  selects: 0,
+}));
+
+vi.mock("./airtable", () => ({
+  airtableLimiter: { schedule: (task: () => unknown) => task() },
+  base: () => ({
+    select: () => ({
+      all: async () => {
+        airtable.selects += 1;
+        return airtable.rows.map((row) => ({ ...row, _rawJson: { modifiedTime: null } }));
+      },
+    }),
+  }),
+  recordModifiedTime: () => null,
+}));
+
+// One Redis shared by every "instance" below.
+function fakeRedis(): RedisLikeClient {
+  const values = new Map<string, string>();
+  return {
+    async get(key) {
+      return values.get(key) ?? null;
+    },
+    async set(key, value) {
+      values.set(key, value);
+      return "OK";
+    },
+    async del(...keys) {
+      keys.forEach((key) => values.delete(key));
+      return keys.length;
+    },
+    async incr(key) {
+      const next = (Number(values.get(key)) || 0) + 1;
+      values.set(key, String(next));
+      return next;
+    },
+  };
+}
+
+// A fresh copy of the module stands in for another server process.
+async function startInstance(redis: RedisLikeClient) {
+  vi.resetModules();
+  const dataAccess = await import("./data-access");
+  dataAccess.setCacheAdapter(dataAccess.createRedisCacheAdapter(redis));
+  return dataAccess;
+}
+
+describe("getCachedSelect with a shared Redis adapter", () => {
+  beforeEach(() => {
+    airtable.rows = [{ id: "rec1", fields: { Name: "Fund I" } }];
+    airtable.selects = 0;
+  });
+
+  it("drops queries cached by one instance when another invalidates the table", async () => {
+    const redis = fakeRedis();
+    const writer = await startInstance(redis);
+    const reader = await startInstance(redis);
+
+    await writer.getCachedSelect("Partner Investments", { filterByFormula: "{Status}='Active'" });
+    expect(await reader.getCachedSelect("Partner Investments", { filterByFormula: "{Status}='Active'" })).toEqual([
+      { id: "rec1", fields: { Name: "Fund I" }, _updatedTime: null },
+    ]);
+    expect(airtable.selects).toBe(1);
+
+    airtable.rows = [{ id: "rec1", fields: { Name: "Fund I (renamed)" } }];
+    await reader.invalidateTable("Partner Investments");
+
+    const reloaded = await writer.getCachedSelect("Partner Investments", { filterByFormula: "{Status}='Active'" });
+    expect(reloaded[0].fields.Name).toBe("Fund I (renamed)");
+    expect(airtable.selects).toBe(2);
+  });
+
+  it("leaves other tables cached", async () => {
+    const redis = fakeRedis();
+    const first = await startInstance(redis);
+    const second = await startInstance(redis);
+
+    await first.getCachedTable("Contacts");
+    await second.invalidateTable("Partner Investments");
+    await second.getCachedTable("Contacts");
+
+    expect(airtable.selects).toBe(1);
+  });
+});
@@ -0,0 +1,244 @@
+import { airtableLimiter, base, recordModifiedTime, type AirtableRecord } from "./airtable";
+
+// Airtable reads shared by every route in the process. Rows are plain JSON
+// so they can live in an external cache; callers must treat them as read-only.
+export type CachedRecord = {
+  id: string;
+  fields: Record<string, any>;
+  _updatedTime: string | null;
+};
+
+// Each table has a generation that is part of every cache key on it.
+// Invalidating a table bumps it, which orphans the old keys (they expire with
+// their TTL) in every process that shares the adapter.
+export interface CacheAdapter {
+  readonly name: string;
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  generation(table: string): Promise<number>;
+  bumpGeneration(table: string): Promise<number>;
+}
+
+const MEMORY_SWEEP_THRESHOLD = 500;
+
+class MemoryCacheAdapter implements CacheAdapter {
+  readonly name = "memory";
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+  private generations = new Map<string, number>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    // Per-investor queries add up; drop expired ones now and then.
+    if (this.entries.size >= MEMORY_SWEEP_THRESHOLD) {
+      this.entries.forEach((entry, existing) => {
+        if (entry.expiresAt <= now) this.entries.delete(existing);
+      });
+    }
+    this.entries.set(key, { value, expiresAt: now + ttlMs });
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.entries.delete(key));
+  }
+
+  async generation(table: string): Promise<number> {
+    return this.generations.get(table) ?? 0;
+  }
+
+  async bumpGeneration(table: string): Promise<number> {
+    const next = (this.generations.get(table) ?? 0) + 1;
+    this.generations.set(table, next);
+    return next;
+  }
+}
+
+// The few commands the Redis adapter needs, in ioredis' calling convention.
+// Any client exposing them (ioredis, a node-redis wrapper, Upstash) will do.
+export type RedisLikeClient = {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: "PX", ttlMs: number): Promise<unknown>;
+  del(...keys: string[]): Promise<unknown>;
+  incr(key: string): Promise<number>;
+};
+
+export function createRedisCacheAdapter(client: RedisLikeClient, prefix = "jbv:airtable:"): CacheAdapter {
+  return {
+    name: "redis",
+    async get<T>(key: string) {
+      const raw = await client.get(prefix + key);
+      return raw == null ? undefined : (JSON.parse(raw) as T);
+    },
+    async set<T>(key: string, value: T, ttlMs: number) {
+      await client.set(prefix + key, JSON.stringify(value), "PX", Math.max(1, Math.round(ttlMs)));
+    },
+    async delete(keys: string[]) {
+      if (keys.length) await client.del(...keys.map((key) => prefix + key));
+    },
+    async generation(table: string) {
+      return Number(await client.get(`${prefix}generation:${table}`)) || 0;
+    },
+    async bumpGeneration(table: string) {
+      return client.incr(`${prefix}generation:${table}`);
+    },
+  };
+}
+
+let adapter: CacheAdapter = new MemoryCacheAdapter();
+
+export function getCacheAdapter(): CacheAdapter {
+  return adapter;
+}
+
+// Passing null goes back to the in-process cache.
+export function setCacheAdapter(next: CacheAdapter | null) {
+  adapter = next ?? new MemoryCacheAdapter();
+}
+
+const DEFAULT_TTL_MS = Number(process.env.AIRTABLE_CACHE_TTL_MS) || 60 * 1000;
+
+type TableMetrics = {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  invalidations: number;
+  errors: number;
+};
+
+const metrics = new Map<string, TableMetrics>();
+const inFlight = new Map<string, Promise<CachedRecord[]>>();
+
+export type SelectParams = {
+  view?: string;
+  filterByFormula?: string;
+  fields?: string[];
+};
+
+function metricsFor(table: string) {
+  let entry = metrics.get(table);
+  if (!entry) {
+    entry = { hits: 0, misses: 0, coalesced: 0, invalidations: 0, errors: 0 };
+    metrics.set(table, entry);
+  }
+  return entry;
+}
+
+function cacheKey(table: string, generation: number | null, params: SelectParams) {
+  const fields = params.fields ? [...params.fields].sort().join(",") : "*";
+  return `table:${table}:${generation ?? "uncached"}:${params.view || ""}:${fields}:${params.filterByFormula || ""}`;
+}
+
+function toCachedRecord(record: AirtableRecord): CachedRecord {
+  return { id: record.id, fields: record.fields as Record<string, any>, _updatedTime: recordModifiedTime(record) };
+}
+
+// The records one select returns, cached until the table changes or the TTL
+// runs out. Concurrent callers that miss the cache share one Airtable read.
+// When the table's generation cannot be read, the cache is bypassed.
+export async function getCachedSelect(
+  table: string,
+  params: SelectParams = {},
+  options: { ttlMs?: number } = {}
+): Promise<CachedRecord[]> {
+  const tableMetrics = metricsFor(table);
+
+  let generation: number | null = null;
+  try {
+    generation = await adapter.generation(table);
+  } catch (error) {
+    tableMetrics.errors += 1;
+    console.error(`[data-access] Cache generation read failed for ${table}`, error);
+  }
+  const key = cacheKey(table, generation, params);
+
+  if (generation !== null) {
+    try {
+      const cached = await adapter.get<CachedRecord[]>(key);
+      if (cached) {
+        tableMetrics.hits += 1;
+        return cached;
+      }
+    } catch (error) {
+      tableMetrics.errors += 1;
+      console.error(`[data-access] Cache read failed for ${table}`, error);
+    }
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) {
+    tableMetrics.coalesced += 1;
+    return pending;
+  }
+
+  tableMetrics.misses += 1;
+  const select: Record<string, unknown> = {};
+  if (params.view) select.view = params.view;
+  if (params.filterByFormula) select.filterByFormula = params.filterByFormula;
+  if (params.fields) select.fields = params.fields;
+
+  const load = (async () => {
+    const records = await airtableLimiter.schedule(() => base(table).select(select).all());
+    const rows = records.map(toCachedRecord);
+    // A load that raced an invalidation writes under the old generation, where
+    // nothing reads it any more.
+    if (generation !== null) {
+      try {
+        await adapter.set(key, rows, options.ttlMs ?? DEFAULT_TTL_MS);
+      } catch (error) {
+        tableMetrics.errors += 1;
+        console.error(`[data-access] Cache write failed for ${table}`, error);
+      }
+    }
+    return rows;
+  })().finally(() => {
+    inFlight.delete(key);
+  });
+  inFlight.set(key, load);
+  return load;
+}
+
+// Every record of a table, optionally through a view.
+export async function getCachedTable(
+  table: string,
+  options: { view?: string; ttlMs?: number } = {}
+): Promise<CachedRecord[]> {
+  return getCachedSelect(table, { view: options.view }, { ttlMs: options.ttlMs });
+}
+
+export async function invalidateTable(table: string) {
+  metricsFor(table).invalidations += 1;
+  try {
+    await adapter.bumpGeneration(table);
+  } catch (error) {
+    metricsFor(table).errors += 1;
+    console.error(`[data-access] Cache invalidation failed for ${table}`, error);
+  }
+}
+
+function withHitRate(entry: TableMetrics) {
+  const lookups = entry.hits + entry.misses + entry.coalesced;
+  return { ...entry, hitRate: lookups ? (entry.hits + entry.coalesced) / lookups : null };
+}
+
+// Coalesced lookups count as hits: they did not cost an Airtable read.
+export function getCacheMetrics() {
+  const totals: TableMetrics = { hits: 0, misses: 0, coalesced: 0, invalidations: 0, errors: 0 };
+  const tables: Record<string, ReturnType<typeof withHitRate>> = {};
+  metrics.forEach((entry, table) => {
+    tables[table] = withHitRate(entry);
+    (Object.keys(totals) as Array<keyof TableMetrics>).forEach((key) => {
+      totals[key] += entry[key];
+    });
+  });
+  return { adapter: adapter.name, ttlMs: DEFAULT_TTL_MS, totals: withHitRate(totals), tables };
+}
@@ -0,0 +1,144 @@
+import { DELEGATIONS_TABLE, FUNDS_TABLE, airtableLimiter, base } from "./airtable";
+import { getCachedTable, invalidateTable } from "./data-access";
+import { publishRefresh } from "./live-updates";
+
+// read-only: everything the grantor sees, never anything that writes.
+// documents-only: the grantor's documents, without balances or performance.
+// specific-funds: read-only, limited to investments in the listed funds.
+export type DelegationScope = "read-only" | "documents-only" | "specific-funds";
+
+export const DELEGATION_SCOPES: readonly DelegationScope[] = ["read-only", "documents-only", "specific-funds"];
+
+export function isDelegationScope(value: unknown): value is DelegationScope {
+  return typeof value === "string" && (DELEGATION_SCOPES as readonly string[]).includes(value);
+}
+
+// Portal Delegations table columns: Grantor (link to Contacts), Delegate Email,
+// Scope, Funds (link to JBV Entities), Expires At, Granted By, Granted At, Notes.
+export type Delegation = {
+  id: string;
+  grantorContactId: string;
+  delegateEmail: string;
+  scope: DelegationScope;
+  fundIds: string[];
+  expiresAt: string | null;
+  grantedBy: string | null;
+  grantedAt: string | null;
+  notes: string | null;
+};
+
+export type FundEntity = { id: string; name: string };
+
+const CACHE_TTL_MS = 60 * 1000;
+
+function normalizeEmail(email: string) {
+  return (email || "").trim().toLowerCase();
+}
+
+function toDelegation(record: { id: string; fields: Record<string, any> }): Delegation | null {
+  const fields = record.fields || {};
+  const grantorContactId = Array.isArray(fields["Grantor"]) ? fields["Grantor"][0] : null;
+  const delegateEmail = normalizeEmail(String(fields["Delegate Email"] || ""));
+  const scope = fields["Scope"];
+  if (!grantorContactId || !delegateEmail || !isDelegationScope(scope)) return null;
+  return {
+    id: record.id,
+    grantorContactId,
+    delegateEmail,
+    scope,
+    fundIds: Array.isArray(fields["Funds"]) ? fields["Funds"] : [],
+    expiresAt: fields["Expires At"] || null,
+    grantedBy: fields["Granted By"] || null,
+    grantedAt: fields["Granted At"] || null,
+    notes: fields["Notes"] || null,
+  };
+}
+
+async function loadDelegations(): Promise<Delegation[]> {
+  const records = await getCachedTable(DELEGATIONS_TABLE, { ttlMs: CACHE_TTL_MS });
+  const delegations: Delegation[] = [];
+  for (const record of records) {
+    const delegation = toDelegation(record);
+    if (delegation) delegations.push(delegation);
+  }
+  return delegations;
+}
+
+export async function invalidateDelegations() {
+  await invalidateTable(DELEGATIONS_TABLE);
+}
+
+export function isDelegationActive(delegation: Delegation, now = Date.now()) {
+  if (!delegation.expiresAt) return true;
+  const expiresAt = Date.parse(delegation.expiresAt);
+  return Number.isNaN(expiresAt) || expiresAt > now;
+}
+
+export async function listDelegations(): Promise<Delegation[]> {
+  const delegations = await loadDelegations();
+  return [...delegations].sort((a, b) => a.delegateEmail.localeCompare(b.delegateEmail));
+}
+
+export async function getActiveDelegationsForEmail(email: string): Promise<Delegation[]> {
+  const normalized = normalizeEmail(email);
+  if (!normalized) return [];
+  const delegations = await loadDelegations();
+  const now = Date.now();
+  return delegations.filter(
+    (delegation) => delegation.delegateEmail === normalized && isDelegationActive(delegation, now)
+  );
+}
+
+export async function hasActiveDelegation(email: string): Promise<boolean> {
+  const delegations = await getActiveDelegationsForEmail(email);
+  return delegations.length > 0;
+}
+
+export async function createDelegation(input: {
+  grantorContactId: string;
+  delegateEmail: string;
+  scope: DelegationScope;
+  fundIds?: string[];
+  expiresAt?: string | null;
+  grantedBy: string;
+  notes?: string | null;
+}): Promise<Delegation> {
+  const fields = {
+    Grantor: [input.grantorContactId],
+    "Delegate Email": normalizeEmail(input.delegateEmail),
+    Scope: input.scope,
+    Funds: input.scope === "specific-funds" ? input.fundIds ?? [] : [],
+    "Expires At": input.expiresAt || null,
+    "Granted By": normalizeEmail(input.grantedBy),
+    "Granted At": new Date().toISOString(),
+    Notes: input.notes ?? "",
+  };
+
+  const record = await airtableLimiter.schedule(() =>
+    base(DELEGATIONS_TABLE).create(fields as Record<string, any>, { typecast: true })
+  );
+
+  await invalidateDelegations();
+  publishRefresh("delegations");
+  return toDelegation({ id: record.id, fields: record.fields as Record<string, any> })!;
+}
+
+export async function revokeDelegation(id: string): Promise<Delegation | null> {
+  const delegations = await loadDelegations();
+  const existing = delegations.find((delegation) => delegation.id === id);
+  if (!existing) return null;
+  await airtableLimiter.schedule(() => base(DELEGATIONS_TABLE).destroy(existing.id));
+  await invalidateDelegations();
+  publishRefresh("delegations");
+  return existing;
+}
+
+export async function listFundEntities(): Promise<FundEntity[]> {
+  const records = await airtableLimiter.schedule(() => base(FUNDS_TABLE).select().all());
+  return records
+    .map((record) => {
+      const fields = record.fields as Record<string, any>;
+      return { id: record.id, name: String(fields["Name"] || fields["Entity Name"] || record.id) };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
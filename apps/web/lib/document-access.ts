@@ -0,0 +1,233 @@
+import { DOCUMENT_ACCESS_TABLE, PARTNER_INVESTMENTS_TABLE, airtableLimiter, base } from "./airtable";
+import { getCachedTable } from "./data-access";
+import { categorizeDocument, isDocumentCategory, type DocumentCategory } from "./document-taxonomy";
+import type { Role } from "./is-admin";
+import { expandLinkedFields } from "./linked-records";
+
+// Document Access Log table columns: Timestamp, Viewer Email, Viewer Role,
+// Contact IDs, Record ID, Field, Index, Attachment ID, Document Name,
+// Document Type, IP Address, User Agent, Impersonated, Access Via, Watermark ID,
+// Watermark Error.
+export type DocumentAccess = {
+  viewerEmail: string;
+  viewerRole: Role;
+  contactIds: string[];
+  recordId: string;
+  field: string;
+  index: number;
+  attachmentId: string | null;
+  documentName: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  impersonated: boolean;
+  // "share-link" when opened through a signed link an investor handed out.
+  via: "portal" | "share-link";
+  // Document ID embedded in the stamped copy, when the file was watermarked.
+  watermarkId?: string | null;
+  // Set when a file due a watermark could not be fetched or stamped; such
+  // files are withheld from everyone but admins.
+  watermarkError?: "upstream" | "watermark" | null;
+};
+
+export type DocumentAccessEntry = DocumentAccess & {
+  id: string;
+  timestamp: string;
+  documentType: DocumentCategory;
+};
+
+export function resolveClientIp(req: Request) {
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0]!.trim() || null;
+  return req.headers.get("x-real-ip");
+}
+
+const CREATE_BATCH_SIZE = 10;
+
+function toAirtableFields(access: DocumentAccess, timestamp: string) {
+  return {
+    Timestamp: timestamp,
+    "Viewer Email": access.viewerEmail.trim().toLowerCase(),
+    "Viewer Role": access.viewerRole,
+    "Contact IDs": access.contactIds.join(","),
+    "Record ID": access.recordId,
+    Field: access.field,
+    Index: access.index,
+    "Attachment ID": access.attachmentId ?? "",
+    "Document Name": access.documentName,
+    "Document Type": categorizeDocument(access.field, access.documentName),
+    "IP Address": access.ipAddress ?? "",
+    "User Agent": (access.userAgent ?? "").slice(0, 1000),
+    Impersonated: access.impersonated,
+    "Access Via": access.via,
+    "Watermark ID": access.watermarkId ?? "",
+    "Watermark Error": access.watermarkError ?? "",
+  };
+}
+
+export async function recordDocumentAccesses(accesses: DocumentAccess[]): Promise<void> {
+  if (!accesses.length) return;
+  const timestamp = new Date().toISOString();
+  for (let i = 0; i < accesses.length; i += CREATE_BATCH_SIZE) {
+    const chunk = accesses.slice(i, i + CREATE_BATCH_SIZE).map((access) => ({
+      fields: toAirtableFields(access, timestamp),
+    }));
+    await airtableLimiter.schedule(() => base(DOCUMENT_ACCESS_TABLE).create(chunk, { typecast: true }));
+  }
+}
+
+export async function recordDocumentAccess(access: DocumentAccess): Promise<void> {
+  await recordDocumentAccesses([access]);
+}
+
+function toEntry(record: { id: string; fields: Record<string, any> }): DocumentAccessEntry {
+  const f = record.fields || {};
+  const field = f["Field"] || "";
+  const documentName = f["Document Name"] || "";
+  const storedType = f["Document Type"];
+  return {
+    id: record.id,
+    timestamp: f["Timestamp"] || "",
+    viewerEmail: f["Viewer Email"] || "",
+    viewerRole: f["Viewer Role"] || "lp",
+    contactIds: String(f["Contact IDs"] || "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean),
+    recordId: f["Record ID"] || "",
+    field,
+    index: Number(f["Index"]) || 0,
+    attachmentId: f["Attachment ID"] || null,
+    documentName,
+    documentType: isDocumentCategory(storedType) ? storedType : categorizeDocument(field, documentName),
+    ipAddress: f["IP Address"] || null,
+    userAgent: f["User Agent"] || null,
+    impersonated: Boolean(f["Impersonated"]),
+    via: f["Access Via"] === "share-link" ? "share-link" : "portal",
+    watermarkId: f["Watermark ID"] || null,
+    watermarkError:
+      f["Watermark Error"] === "upstream" || f["Watermark Error"] === "watermark" ? f["Watermark Error"] : null,
+  };
+}
+
+export async function listDocumentAccess(range: { from?: string | null; to?: string | null }) {
+  const clauses: string[] = [];
+  if (range.from && !Number.isNaN(Date.parse(range.from))) {
+    clauses.push(`IS_AFTER({Timestamp}, '${new Date(range.from).toISOString()}')`);
+  }
+  if (range.to && !Number.isNaN(Date.parse(range.to))) {
+    clauses.push(`IS_BEFORE({Timestamp}, '${new Date(range.to).toISOString()}')`);
+  }
+  const filterByFormula = clauses.length > 1 ? `AND(${clauses.join(", ")})` : clauses[0] || "";
+  const records = await airtableLimiter.schedule(() =>
+    base(DOCUMENT_ACCESS_TABLE)
+      .select({
+        ...(filterByFormula ? { filterByFormula } : {}),
+        sort: [{ field: "Timestamp", direction: "desc" }],
+      })
+      .all()
+  );
+  return records.map((record) => toEntry({ id: record.id, fields: record.fields as Record<string, any> }));
+}
+
+export type DocumentOpenStatus = {
+  contactId: string;
+  contactName: string;
+  contactEmail: string | null;
+  recordId: string;
+  investmentName: string;
+  field: string;
+  index: number;
+  documentName: string;
+  documentType: DocumentCategory;
+  opened: boolean;
+  openCount: number;
+  firstOpenedAt: string | null;
+  lastOpenedAt: string | null;
+};
+
+const CONTACT_LINK_FIELDS = ["Primary Contact", "PRIMARY CONTACT"];
+
+function linkedContacts(fields: Record<string, any>) {
+  for (const name of CONTACT_LINK_FIELDS) {
+    const value = fields[name];
+    if (Array.isArray(value) && value.length) return value as Array<{ id: string; displayName?: string; fields?: any }>;
+  }
+  return [];
+}
+
+// One row per (investor Contact, tracked document): whether that investor, or
+// someone acting for them, opened it during the window. Admin views as an
+// investor do not count as the investor opening anything.
+export async function buildDocumentOpenReport(options: {
+  from?: string | null;
+  to?: string | null;
+  types?: DocumentCategory[];
+}): Promise<DocumentOpenStatus[]> {
+  const types = new Set<DocumentCategory>(options.types?.length ? options.types : ["k1", "pcap", "subscription"]);
+  const [rows, accesses] = await Promise.all([
+    getCachedTable(PARTNER_INVESTMENTS_TABLE),
+    listDocumentAccess(options),
+  ]);
+  const records = await expandLinkedFields(rows, { markMissing: true });
+
+  const opens = new Map<string, { count: number; first: string; last: string }>();
+  for (const access of accesses) {
+    // Withheld copies were not opened.
+    if (access.impersonated || access.watermarkError) continue;
+    const documentKey = `${access.recordId}|${access.field}|${access.attachmentId || access.index}`;
+    for (const contactId of access.contactIds) {
+      const key = `${contactId}|${documentKey}`;
+      const existing = opens.get(key);
+      if (!existing) {
+        opens.set(key, { count: 1, first: access.timestamp, last: access.timestamp });
+      } else {
+        existing.count += 1;
+        if (access.timestamp < existing.first) existing.first = access.timestamp;
+        if (access.timestamp > existing.last) existing.last = access.timestamp;
+      }
+    }
+  }
+
+  const report: DocumentOpenStatus[] = [];
+  for (const record of records) {
+    const fields = record.fields || {};
+    const contacts = linkedContacts(fields);
+    if (!contacts.length) continue;
+    const investmentName = String(fields["Partner Investment"] || record.id);
+
+    for (const [field, value] of Object.entries(fields)) {
+      if (!Array.isArray(value)) continue;
+      value.forEach((attachment: any, index: number) => {
+        if (!attachment || typeof attachment.url !== "string") return;
+        const documentName = attachment.filename || attachment.name || "Document";
+        const documentType = categorizeDocument(field, documentName);
+        if (!types.has(documentType)) return;
+
+        for (const contact of contacts) {
+          const byId = opens.get(`${contact.id}|${record.id}|${field}|${attachment.id}`);
+          const byIndex = opens.get(`${contact.id}|${record.id}|${field}|${index}`);
+          const hit = byId ?? byIndex;
+          report.push({
+            contactId: contact.id,
+            contactName: String(contact.displayName || contact.fields?.Name || contact.id),
+            contactEmail: contact.fields?.Email ?? null,
+            recordId: record.id,
+            investmentName,
+            field,
+            index,
+            documentName,
+            documentType,
+            opened: Boolean(hit),
+            openCount: hit?.count ?? 0,
+            firstOpenedAt: hit?.first ?? null,
+            lastOpenedAt: hit?.last ?? null,
+          });
+        }
+      });
+    }
+  }
+
+  return report.sort(
+    (a, b) => a.contactName.localeCompare(b.contactName) || a.investmentName.localeCompare(b.investmentName)
+  );
+}
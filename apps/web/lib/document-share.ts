@@ -0,0 +1,84 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+const TOKEN_SECRET = process.env.NEXTAUTH_SECRET || "development-secret";
+
+export const SHARE_LINK_DEFAULT_TTL_MINUTES = 24 * 60;
+export const SHARE_LINK_MAX_TTL_MINUTES = 72 * 60;
+
+type SharePayload = {
+  e: string; // issuing investor's email; the file is re-checked against their access
+  r: string; // Partner Investment record id
+  f: string; // attachment field
+  i: number; // index within the field
+  a: string | null; // attachment id, so a replaced file is not served by an old link
+  x: number; // expiry (ms since epoch)
+};
+
+export type DocumentShare = {
+  issuerEmail: string;
+  recordId: string;
+  field: string;
+  index: number;
+  attachmentId: string | null;
+  expiresAt: number;
+};
+
+function sign(encodedPayload: string) {
+  return createHmac("sha256", TOKEN_SECRET).update(`document-share:${encodedPayload}`).digest("base64url");
+}
+
+export function createDocumentShareToken(share: DocumentShare) {
+  const payload: SharePayload = {
+    e: share.issuerEmail.trim().toLowerCase(),
+    r: share.recordId,
+    f: share.field,
+    i: share.index,
+    a: share.attachmentId,
+    x: share.expiresAt,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+}
+
+export function verifyDocumentShareToken(
+  token: string,
+  now = Date.now()
+): { ok: true; share: DocumentShare } | { ok: false; reason: "invalid" | "expired" } {
+  const [encoded, signature] = (token || "").split(".");
+  if (!encoded || !signature) return { ok: false, reason: "invalid" };
+
+  const expected = Buffer.from(sign(encoded));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return { ok: false, reason: "invalid" };
+  }
+
+  let payload: SharePayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    return { ok: false, reason: "invalid" };
+  }
+  if (
+    typeof payload?.e !== "string" ||
+    typeof payload?.r !== "string" ||
+    typeof payload?.f !== "string" ||
+    typeof payload?.i !== "number" ||
+    typeof payload?.x !== "number"
+  ) {
+    return { ok: false, reason: "invalid" };
+  }
+  if (payload.x <= now) return { ok: false, reason: "expired" };
+
+  return {
+    ok: true,
+    share: {
+      issuerEmail: payload.e,
+      recordId: payload.r,
+      field: payload.f,
+      index: payload.i,
+      attachmentId: payload.a ?? null,
+      expiresAt: payload.x,
+    },
+  };
+}
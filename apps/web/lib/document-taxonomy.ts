@@ -0,0 +1,59 @@
+export type DocumentCategory =
+  | "k1"
+  | "pcap"
+  | "capital-call"
+  | "distribution"
+  | "subscription"
+  | "side-letter"
+  | "other";
+
+export const DOCUMENT_CATEGORIES: DocumentCategory[] = [
+  "k1",
+  "pcap",
+  "capital-call",
+  "distribution",
+  "subscription",
+  "side-letter",
+  "other",
+];
+
+export const DOCUMENT_CATEGORY_LABELS: Record<DocumentCategory, string> = {
+  k1: "K-1",
+  pcap: "PCAP",
+  "capital-call": "Capital call notice",
+  distribution: "Distribution notice",
+  subscription: "Subscription documents",
+  "side-letter": "Side letter",
+  other: "Other",
+};
+
+export function isDocumentCategory(value: unknown): value is DocumentCategory {
+  return typeof value === "string" && (DOCUMENT_CATEGORIES as string[]).includes(value);
+}
+
+// Checked in order, so "PCAP Distribution Report" is a PCAP rather than a
+// distribution notice.
+const CATEGORY_PATTERNS: Array<[DocumentCategory, RegExp]> = [
+  ["side-letter", /side[\s_-]*letter/],
+  ["k1", /\bk[\s_-]?1s?\b|schedule[\s_-]*k/],
+  ["pcap", /pcap|capital[\s_-]*account/],
+  ["capital-call", /capital[\s_-]*call|drawdown|call[\s_-]*notice/],
+  ["distribution", /distribution/],
+  ["subscription", /sub[\s_-]*doc|subscription/],
+];
+
+function matchCategory(text: string): DocumentCategory {
+  const normalized = text.toLowerCase();
+  for (const [category, pattern] of CATEGORY_PATTERNS) {
+    if (pattern.test(normalized)) return category;
+  }
+  return "other";
+}
+
+// The attachment field is the more deliberate signal; the filename is only
+// consulted for generic fields such as "Attachments".
+export function categorizeDocument(field: string, filename?: string | null): DocumentCategory {
+  const byField = matchCategory(field);
+  if (byField !== "other") return byField;
+  return filename ? matchCategory(filename) : "other";
+}
@@ -0,0 +1,97 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+
+const COOKIE_SECRET = process.env.NEXTAUTH_SECRET || "development-secret";
+const IMPERSONATION_TTL_MS = Number(process.env.IMPERSONATION_TTL_MINUTES || 60) * 60 * 1000;
+
+export const IMPERSONATION_COOKIE = "jbv-impersonation";
+
+type CookiePayload = {
+  a: string; // admin email
+  c: string; // impersonated Contact id
+  s: string; // session id, shared by the start and end audit entries
+  t: number; // started at (ms since epoch)
+  x: number; // expiry (ms since epoch)
+};
+
+export type ImpersonationSession = {
+  sessionId: string;
+  adminEmail: string;
+  contactId: string;
+  startedAt: number;
+  expiresAt: number;
+};
+
+function sign(encodedPayload: string) {
+  return createHmac("sha256", COOKIE_SECRET).update(`impersonation:${encodedPayload}`).digest("base64url");
+}
+
+function decode(value: string): CookiePayload | null {
+  const [encoded, signature] = (value || "").split(".");
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    if (
+      typeof payload?.a !== "string" ||
+      typeof payload?.c !== "string" ||
+      typeof payload?.s !== "string" ||
+      typeof payload?.t !== "number" ||
+      typeof payload?.x !== "number"
+    ) {
+      return null;
+    }
+    return payload as CookiePayload;
+  } catch {
+    return null;
+  }
+}
+
+function toSession(payload: CookiePayload): ImpersonationSession {
+  return {
+    sessionId: payload.s,
+    adminEmail: payload.a,
+    contactId: payload.c,
+    startedAt: payload.t,
+    expiresAt: payload.x,
+  };
+}
+
+// Starts a session by setting the signed cookie. Must run in a route handler.
+export function startImpersonation(adminEmail: string, contactId: string, now = Date.now()): ImpersonationSession {
+  const payload: CookiePayload = {
+    a: adminEmail.trim().toLowerCase(),
+    c: contactId,
+    s: randomBytes(12).toString("base64url"),
+    t: now,
+    x: now + IMPERSONATION_TTL_MS,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  cookies().set(IMPERSONATION_COOKIE, `${encoded}.${sign(encoded)}`, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: Math.floor(IMPERSONATION_TTL_MS / 1000),
+  });
+  return toSession(payload);
+}
+
+// The active session for this admin, if any. Cookies left behind by another
+// account on the same browser, or past their expiry, are ignored.
+export function getImpersonation(adminEmail: string, now = Date.now()): ImpersonationSession | null {
+  const payload = decode(cookies().get(IMPERSONATION_COOKIE)?.value || "");
+  if (!payload || payload.x <= now) return null;
+  if (payload.a !== adminEmail.trim().toLowerCase()) return null;
+  return toSession(payload);
+}
+
+export function endImpersonation() {
+  cookies().delete(IMPERSONATION_COOKIE);
+}
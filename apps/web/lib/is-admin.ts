@@ -1,4 +1,19 @@
-const DEFAULT_ADMIN_EMAILS = ["jb@jbv.com"];
+export type Role = "admin" | "read-only-admin" | "partner" | "lp";
+
+export const ROLES: Role[] = ["admin", "read-only-admin", "partner", "lp"];
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as string[]).includes(value);
+}
+
+// How long a role claim in the session token is trusted before the directory
+// is asked again; the middleware refreshes tokens older than this.
+export const ROLE_RECHECK_MS = Number(process.env.ROLE_RECHECK_MS) || 60 * 1000;
+
+// Both admin roles see every field; only "admin" may change anything.
+export function isAdminRole(role?: Role | null): boolean {
+  return role === "admin" || role === "read-only-admin";
+}
 
 function normalizeEmails(value: string | undefined | null) {
   return (value || "")
@@ -7,12 +22,11 @@ function normalizeEmails(value: string | undefined | null) {
     .filter(Boolean);
 }
 
+// Bootstrap administrators. Roles live in the Portal Users directory; this list
+// only applies to emails that have no directory entry yet, so the first admin
+// can sign in and grant everyone else.
 export function getAdminEmails(): string[] {
-  const configured = normalizeEmails(process.env.ADMIN_EMAILS);
-  if (configured.length > 0) {
-    return configured;
-  }
-  return DEFAULT_ADMIN_EMAILS.slice();
+  return normalizeEmails(process.env.ADMIN_EMAILS);
 }
 
 export function isAdmin(email?: string | null): boolean {
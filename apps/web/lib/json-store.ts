@@ -0,0 +1,54 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Small JSON-file persistence for portal state that does not belong in Airtable
+// (one-time tokens, secrets, cursors). Mirrors the data/ store used by server.js.
+const DATA_DIR = process.env.PORTAL_DATA_DIR || path.join(process.cwd(), "data");
+
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function resolvePath(name: string) {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export async function readJson<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(resolvePath(name), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") {
+      console.error(`[json-store] Failed to read ${name}`, error);
+    }
+    return fallback;
+  }
+}
+
+async function writeJson<T>(name: string, value: T) {
+  const filePath = resolvePath(name);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(value, null, 2));
+  await fs.rename(tmpPath, filePath);
+}
+
+// Serialize read-modify-write cycles per file so concurrent requests in the
+// same process cannot lose each other's updates.
+export async function updateJson<T, R = T>(
+  name: string,
+  fallback: T,
+  mutate: (current: T) => { value: T; result: R } | Promise<{ value: T; result: R }>
+): Promise<R> {
+  const previous = writeQueues.get(name) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(async () => {
+    const current = await readJson<T>(name, fallback);
+    const { value, result } = await mutate(current);
+    await writeJson(name, value);
+    return result;
+  });
+  writeQueues.set(name, next);
+  try {
+    return await next;
+  } finally {
+    if (writeQueues.get(name) === next) writeQueues.delete(name);
+  }
+}
@@ -0,0 +1,157 @@
+import {
+  CONTACTS_TABLE,
+  FUNDS_TABLE,
+  airtableLimiter,
+  base,
+  recordModifiedTime,
+  type AirtableRecord,
+} from "./airtable";
+import type { ExpandedRecord, LinkedRecord } from "./airtable-shared";
+import { getCachedTable } from "./data-access";
+
+// Link fields on Partner Investments and the tables they point into.
+export const LINKED_FIELD_TABLES: Record<string, string> = {
+  "Target Securities": "Target Securities",
+  Partner: "Partners",
+  Fund: FUNDS_TABLE,
+  "Primary Contact": CONTACTS_TABLE,
+  "PRIMARY CONTACT": CONTACTS_TABLE,
+};
+
+// Small reference tables are read whole through the shared table cache, so
+// every request resolves them without a round trip. Contacts are fetched by id.
+const SHARED_TABLES = new Set(["Target Securities", "Partners", FUNDS_TABLE]);
+
+const CHUNK_SIZE = 50;
+
+// Linked records already resolved while serving one request, by table.
+export type LinkedRecordMemo = Map<string, Map<string, LinkedRecord | null>>;
+
+export function createLinkedRecordMemo(): LinkedRecordMemo {
+  return new Map();
+}
+
+function toLinkedRecord(rec: { id: string; fields: Record<string, any> }): LinkedRecord {
+  const fields = rec.fields || {};
+  const firstText = Object.values(fields).find((value) => typeof value === "string");
+  const displayName =
+    fields["Name"] ||
+    fields["Title"] ||
+    fields["Full Name"] ||
+    fields["Company"] ||
+    fields["Email"] ||
+    firstText ||
+    rec.id;
+  return { id: rec.id, fields, displayName };
+}
+
+async function loadLinkedRecords(tableName: string, ids: string[]) {
+  const lookup = new Map<string, LinkedRecord>();
+
+  if (SHARED_TABLES.has(tableName)) {
+    const wanted = new Set(ids);
+    for (const rec of await getCachedTable(tableName)) {
+      if (wanted.has(rec.id)) lookup.set(rec.id, toLinkedRecord(rec));
+    }
+    return lookup;
+  }
+
+  for (let i = 0; i < ids.length; i += CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + CHUNK_SIZE);
+    const filterByFormula =
+      chunk.length === 1
+        ? `RECORD_ID()='${chunk[0]}'`
+        : `OR(${chunk.map((id) => `RECORD_ID()='${id}'`).join(",")})`;
+
+    const records = await airtableLimiter.schedule(() =>
+      base(tableName)
+        .select({ filterByFormula })
+        .all()
+    );
+    for (const rec of records) {
+      lookup.set(rec.id, toLinkedRecord({ id: rec.id, fields: rec.fields as Record<string, any> }));
+    }
+  }
+  return lookup;
+}
+
+// Resolves linked ids in one batch per table, skipping ids the memo already
+// holds. Ids that could not be resolved are remembered as null.
+export async function fetchLinkedRecords(
+  tableName: string,
+  ids: string[],
+  memo: LinkedRecordMemo = createLinkedRecordMemo()
+): Promise<Map<string, LinkedRecord | null>> {
+  let known = memo.get(tableName);
+  if (!known) {
+    known = new Map();
+    memo.set(tableName, known);
+  }
+
+  const missing = Array.from(new Set(ids)).filter((id) => !known!.has(id));
+  if (missing.length) {
+    try {
+      const loaded = await loadLinkedRecords(tableName, missing);
+      missing.forEach((id) => known!.set(id, loaded.get(id) ?? null));
+    } catch (error) {
+      console.error(`[linked-records] Failed to expand linked records (${tableName})`, error);
+      missing.forEach((id) => known!.set(id, null));
+    }
+  }
+  return known;
+}
+
+// Replaces link-field id lists with the linked records. Unresolvable ids are
+// dropped, or kept as { id, error: true } with `markMissing`.
+export async function expandLinkedFields<T extends { fields: Record<string, any> }>(
+  rows: T[],
+  options: { memo?: LinkedRecordMemo; markMissing?: boolean } = {}
+): Promise<T[]> {
+  if (!rows.length) return [];
+  const memo = options.memo ?? createLinkedRecordMemo();
+
+  const idsByTable = new Map<string, Set<string>>();
+  for (const row of rows) {
+    for (const [fieldName, tableName] of Object.entries(LINKED_FIELD_TABLES)) {
+      const value = row.fields?.[fieldName];
+      if (!Array.isArray(value) || !value.length) continue;
+      if (!idsByTable.has(tableName)) idsByTable.set(tableName, new Set());
+      const idSet = idsByTable.get(tableName)!;
+      value.forEach((id) => typeof id === "string" && idSet.add(id));
+    }
+  }
+
+  const lookups = new Map<string, Map<string, LinkedRecord | null>>();
+  await Promise.all(
+    Array.from(idsByTable.entries()).map(async ([tableName, idSet]) => {
+      lookups.set(tableName, await fetchLinkedRecords(tableName, Array.from(idSet), memo));
+    })
+  );
+
+  return rows.map((row) => {
+    const fields: Record<string, any> = { ...(row.fields || {}) };
+    for (const [fieldName, tableName] of Object.entries(LINKED_FIELD_TABLES)) {
+      const ids = fields[fieldName];
+      if (!Array.isArray(ids) || !ids.length) continue;
+      const lookup = lookups.get(tableName);
+      fields[fieldName] = ids.flatMap((id: string): Array<LinkedRecord | { id: string; error: true }> => {
+        const linked = lookup?.get(id);
+        if (linked) return [linked];
+        return options.markMissing ? [{ id, error: true }] : [];
+      });
+    }
+    return { ...row, fields };
+  });
+}
+
+export async function expandPartnerInvestmentRecords(rows: AirtableRecord[]): Promise<ExpandedRecord[]> {
+  const expanded = await expandLinkedFields(
+    rows.map((row) => ({ row, fields: (row.fields || {}) as Record<string, any> })),
+    { markMissing: true }
+  );
+  return expanded.map(({ row, fields }) => ({
+    id: row.id,
+    fields,
+    _updatedTime: recordModifiedTime(row),
+  }));
+}
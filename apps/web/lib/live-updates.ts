@@ -0,0 +1,36 @@
+import { EventEmitter } from "events";
+
+export type LiveUpdate =
+  // These Partner Investments changed; streams forward the ids their LP can see.
+  | { type: "records"; recordIds: string[]; at: string }
+  // Something that changes which records or fields LPs see (visibility rules,
+  // delegations, created or deleted records); every stream re-scopes.
+  | { type: "refresh"; reason: string; at: string };
+
+const EVENT = "live-update";
+
+// In-process fan-out from the places that learn about changes (the Airtable
+// webhook, portal edits) to open SSE streams. Kept on globalThis so every route
+// bundle in this Node process shares one emitter; streams served by another
+// process are not reached.
+const globalBus = globalThis as typeof globalThis & { __jbvLiveUpdates?: EventEmitter };
+const emitter = globalBus.__jbvLiveUpdates ?? new EventEmitter();
+emitter.setMaxListeners(0);
+globalBus.__jbvLiveUpdates = emitter;
+
+export function publishRecordChanges(recordIds: string[]) {
+  const unique = Array.from(new Set(recordIds.filter(Boolean)));
+  if (!unique.length) return;
+  emitter.emit(EVENT, { type: "records", recordIds: unique, at: new Date().toISOString() } satisfies LiveUpdate);
+}
+
+export function publishRefresh(reason: string) {
+  emitter.emit(EVENT, { type: "refresh", reason, at: new Date().toISOString() } satisfies LiveUpdate);
+}
+
+export function subscribeToLiveUpdates(listener: (update: LiveUpdate) => void) {
+  emitter.on(EVENT, listener);
+  return () => {
+    emitter.off(EVENT, listener);
+  };
+}
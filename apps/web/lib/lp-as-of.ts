@@ -0,0 +1,111 @@
+import { cookies } from "next/headers";
+import { normalizeFieldKey } from "./airtable-shared";
+import type { Role } from "./is-admin";
+import {
+  PERIOD_FIELDS,
+  SNAPSHOT_FIELDS,
+  allowedSnapshotFields,
+  isQuarterKey,
+  quarterEnd,
+  snapshotsAsOf,
+  type NavSnapshot,
+} from "./nav-snapshots";
+import type { Transaction } from "./transactions";
+import { filterFields } from "./visibility-policy";
+
+// The quarter an LP is looking back at, if any. While it is set the LP routes
+// answer from the NAV snapshot store instead of the live financial fields.
+export const LP_AS_OF_COOKIE = "jbv-lp-as-of";
+
+export function getSelectedAsOf(): string | null {
+  const value = cookies().get(LP_AS_OF_COOKIE)?.value;
+  return isQuarterKey(value) ? value : null;
+}
+
+export type AsOfView = { quarter: string; periodEnd: string };
+
+export function asOfView(quarter: string): AsOfView {
+  return { quarter, periodEnd: quarterEnd(quarter) };
+}
+
+type Row = { id: string; fields: Record<string, any>; _access?: "full" | "documents" };
+
+function isSnapshotField(key: string) {
+  const normalized = normalizeFieldKey(key);
+  return SNAPSHOT_FIELDS.has(normalized) || PERIOD_FIELDS.includes(normalized);
+}
+
+// Live fields with the financial ones and the period swapped for the
+// snapshot's. Documents-only records keep seeing no money.
+function overlay<T extends Row>(record: T, snapshot: NavSnapshot, allowed: Set<string> | null): T {
+  const fields: Record<string, any> = {};
+  for (const [key, value] of Object.entries(record.fields || {})) {
+    if (PERIOD_FIELDS.includes(normalizeFieldKey(key))) fields[key] = snapshot.period;
+    else if (!isSnapshotField(key)) fields[key] = value;
+  }
+  if (record._access !== "documents") Object.assign(fields, filterFields(snapshot.fields, allowed));
+  return { ...record, fields };
+}
+
+export type RecordsAsOf<T> = {
+  records: T[];
+  snapshots: Map<string, NavSnapshot>;
+};
+
+// The records as their statements read at the end of the quarter. Records
+// with no snapshot by then did not report yet and are left out.
+export async function recordsAsOf<T extends Row>(records: T[], quarter: string, role: Role): Promise<RecordsAsOf<T>> {
+  const [snapshots, allowed] = await Promise.all([
+    snapshotsAsOf(
+      records.map((record) => record.id),
+      quarter
+    ),
+    allowedSnapshotFields(role),
+  ]);
+  return {
+    records: records.flatMap((record) => {
+      const snapshot = snapshots.get(record.id);
+      return snapshot ? [overlay(record, snapshot, allowed)] : [];
+    }),
+    snapshots,
+  };
+}
+
+// Attachments are served from the live record, so a historical view can only
+// hide the ones added since. Snapshots that predate document tracking hide none.
+export function attachmentExistedAsOf(snapshot: NavSnapshot | undefined, attachment: { id?: string }) {
+  if (!snapshot?.attachmentIds || !attachment.id) return true;
+  return snapshot.attachmentIds.includes(attachment.id);
+}
+
+// Ledger entries dated on or before the period end; undated ones are dropped.
+export function ledgerAsOf(transactions: Transaction[], periodEnd: string) {
+  return transactions.filter((transaction) => transaction.date && transaction.date.slice(0, 10) <= periodEnd);
+}
+
+export type AsOfChange = {
+  investmentId: string;
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+// Financial fields that differ between two as-of views of the same records.
+// A record missing from `previous` reports every visible field as new.
+export function diffRecordsAsOf(current: Row[], previous: Row[]): AsOfChange[] {
+  const before = new Map(previous.map((record) => [record.id, record.fields]));
+  const changes: AsOfChange[] = [];
+  for (const record of current) {
+    const earlier = before.get(record.id) ?? {};
+    const keys = new Set([...Object.keys(record.fields), ...Object.keys(earlier)]);
+    keys.forEach((field) => {
+      if (!SNAPSHOT_FIELDS.has(normalizeFieldKey(field))) return;
+      const after = record.fields[field] ?? null;
+      const prior = earlier[field] ?? null;
+      if (JSON.stringify(after) !== JSON.stringify(prior)) {
+        changes.push({ investmentId: record.id, field, before: prior, after });
+      }
+    });
+  }
+  return changes;
+}
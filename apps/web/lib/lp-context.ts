@@ -0,0 +1,78 @@
+import { authorizeRequest, hasPermission, type AuthorizedRequest } from "./authz";
+import { getImpersonation, type ImpersonationSession } from "./impersonation";
+import type { Role } from "./is-admin";
+import { getSelectedAsOf } from "./lp-as-of";
+import { getSelectedEntityId } from "./lp-entities";
+import { contactDisplayName, findContactsByIds } from "./lp-server";
+import { resolveUserRole } from "./user-directory";
+
+export type ActiveImpersonation = ImpersonationSession & {
+  contactName: string;
+  contactEmail: string | null;
+  contactRole: Role;
+};
+
+// Who the LP pipeline runs as. Normally the signed-in user; while an admin is
+// viewing as an investor, that investor's Contact and role.
+export type LpRequestContext = {
+  actor: AuthorizedRequest;
+  email: string;
+  role: Role;
+  entityId: string | null;
+  contactId: string | null;
+  readOnly: boolean;
+  impersonation: ActiveImpersonation | null;
+  // A quarter key ("2024-Q1") while looking at a past statement.
+  asOf: string | null;
+};
+
+async function resolveImpersonation(actor: AuthorizedRequest): Promise<ActiveImpersonation | null> {
+  if (!hasPermission(actor.role, "lp:impersonate")) return null;
+  const session = getImpersonation(actor.email);
+  if (!session) return null;
+
+  const [contact] = await findContactsByIds([session.contactId]);
+  if (!contact) return null;
+
+  const contactEmail = typeof contact.fields["Email"] === "string" ? contact.fields["Email"].trim().toLowerCase() : null;
+  return {
+    ...session,
+    contactName: String(contactDisplayName(contact)),
+    contactEmail,
+    contactRole: contactEmail ? await resolveUserRole(contactEmail) : "lp",
+  };
+}
+
+export async function resolveLpRequest(): Promise<LpRequestContext | Response> {
+  const actor = await authorizeRequest("lp:read");
+  if (actor instanceof Response) return actor;
+
+  const impersonation = await resolveImpersonation(actor);
+  if (impersonation) {
+    return {
+      actor,
+      email: impersonation.contactEmail ?? "",
+      role: impersonation.contactRole,
+      entityId: null,
+      contactId: impersonation.contactId,
+      readOnly: true,
+      impersonation,
+      asOf: getSelectedAsOf(),
+    };
+  }
+
+  return {
+    actor,
+    email: actor.email,
+    role: actor.role,
+    entityId: getSelectedEntityId(),
+    contactId: null,
+    readOnly: false,
+    impersonation: null,
+    asOf: getSelectedAsOf(),
+  };
+}
+
+export function denyReadOnly() {
+  return Response.json({ error: "Read-only while viewing as an investor" }, { status: 403 });
+}
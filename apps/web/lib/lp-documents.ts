@@ -0,0 +1,205 @@
+import { categorizeDocument } from "./document-taxonomy";
+import type { Role } from "./is-admin";
+import { contactDisplayName, findContactsByIds, loadLpInvestmentRecords, type InvestmentRecord } from "./lp-server";
+import { watermarkPdf, type WatermarkStamp } from "./pdf-watermark";
+
+const VIEW_ID = process.env.AIRTABLE_VIEW_ID;
+
+export type Attachment = {
+  id?: string;
+  url: string;
+  filename?: string;
+  name?: string;
+  size?: number;
+  type?: string;
+};
+
+export function isAttachment(value: any): value is Attachment {
+  return value && typeof value === "object" && typeof value.url === "string";
+}
+
+export function attachmentFilename(attachment: Attachment) {
+  return attachment.filename || attachment.name || "Document";
+}
+
+export function resolveInvestmentName(fields: Record<string, any>) {
+  const preferredKeys = ["Partner Investment", "Investment", "Name", "Title"];
+  for (const key of preferredKeys) {
+    if (Object.prototype.hasOwnProperty.call(fields, key)) {
+      const value = fields[key];
+      if (Array.isArray(value) && value[0] && typeof value[0] === "object" && "displayName" in value[0]) {
+        return value[0].displayName as string;
+      }
+      if (typeof value === "string" && value.trim()) return value;
+    }
+  }
+  return undefined;
+}
+
+export function resolvePeriodEnding(fields: Record<string, any>) {
+  const candidates = ["Period Ending", "Period", "As of Date"];
+  for (const key of candidates) {
+    if (Object.prototype.hasOwnProperty.call(fields, key)) {
+      return fields[key];
+    }
+  }
+  return undefined;
+}
+
+type Viewer = {
+  email: string;
+  role: Role;
+  entityId?: string | null;
+  contactId?: string | null;
+};
+
+// Resolves a document through the same pipeline as the Documents page, so a
+// file is only reachable while its field is visible to the viewer.
+export async function findLpAttachment(
+  viewer: Viewer,
+  recordId: string,
+  field: string,
+  index: number
+): Promise<{ record: InvestmentRecord; attachment: Attachment } | null> {
+  const { records } = await loadLpInvestmentRecords(viewer.email, viewer.role, VIEW_ID, {
+    entityId: viewer.entityId,
+    contactId: viewer.contactId,
+    expand: false,
+  });
+  const record = records.find((item) => item.id === recordId);
+  if (!record || !Object.prototype.hasOwnProperty.call(record.fields, field)) return null;
+
+  const value = record.fields[field];
+  if (!Array.isArray(value) || value.length <= index) return null;
+
+  const attachment = value[index];
+  return isAttachment(attachment) ? { record, attachment } : null;
+}
+
+export function contentDisposition(type: "inline" | "attachment", filename: string) {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+const PASSTHROUGH_HEADERS = ["content-length", "content-range", "etag", "last-modified"];
+
+// Streams the file from Airtable's CDN without exposing its URL. Range
+// requests are forwarded so large PDFs can be read page by page.
+export async function streamAttachment(
+  req: Request,
+  attachment: Attachment,
+  options: { disposition?: "inline" | "attachment" } = {}
+): Promise<Response> {
+  const range = req.headers.get("range");
+  const upstream = await fetch(attachment.url, {
+    headers: range ? { Range: range } : undefined,
+    cache: "no-store",
+  });
+
+  if (upstream.status === 416) {
+    return new Response(null, {
+      status: 416,
+      headers: { "Content-Range": upstream.headers.get("content-range") ?? "" },
+    });
+  }
+  if (!upstream.ok || !upstream.body) {
+    console.error("[documents] Upstream attachment fetch failed", upstream.status);
+    return new Response("Unable to download document", { status: 502 });
+  }
+
+  const filename = attachmentFilename(attachment);
+  const contentType = attachment.type || upstream.headers.get("content-type") || "application/octet-stream";
+  const disposition =
+    options.disposition ?? (contentType === "application/pdf" || contentType.startsWith("image/") ? "inline" : "attachment");
+
+  const headers = new Headers({
+    "Content-Type": contentType,
+    "Content-Disposition": contentDisposition(disposition, filename),
+    "Accept-Ranges": upstream.headers.get("accept-ranges") || "bytes",
+    "Cache-Control": "private, no-store",
+    "X-Content-Type-Options": "nosniff",
+  });
+  for (const name of PASSTHROUGH_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+
+  return new Response(upstream.body, { status: upstream.status === 206 ? 206 : 200, headers });
+}
+
+// Fund reports and subscription documents are confidential enough to be
+// stamped with the downloader's identity; K-1s and other files pass through.
+export function shouldWatermark(field: string, attachment: Attachment) {
+  const filename = attachmentFilename(attachment);
+  const type = categorizeDocument(field, filename);
+  if (type !== "pcap" && type !== "subscription") return false;
+  return attachment.type === "application/pdf" || /\.pdf$/i.test(filename);
+}
+
+// Names of the investors the record belongs to, for the watermark. Falls back
+// to the viewer's email when the Contact cannot be resolved.
+export async function resolveInvestorName(record: InvestmentRecord, fallback: string) {
+  const ids = record._contactIds ?? [];
+  if (!ids.length) return fallback;
+  try {
+    const contacts = await findContactsByIds(ids);
+    const names = contacts.map((contact) => String(contactDisplayName(contact) || "")).filter(Boolean);
+    return names.length ? names.join(", ") : fallback;
+  } catch (error) {
+    console.error("[documents] Failed to resolve investor name for watermark", error);
+    return fallback;
+  }
+}
+
+export type WatermarkResult =
+  | { ok: true; body: Buffer }
+  // "upstream": the file could not be fetched. "watermark": it could not be
+  // stamped (encrypted, malformed); `original` is kept for admin viewers only.
+  | { ok: false; error: "upstream" }
+  | { ok: false; error: "watermark"; original: Buffer };
+
+// Fetches the whole file and stamps it.
+export async function fetchWatermarkedPdf(attachment: Attachment, stamp: WatermarkStamp): Promise<WatermarkResult> {
+  const upstream = await fetch(attachment.url, { cache: "no-store" });
+  if (!upstream.ok) {
+    console.error("[documents] Upstream attachment fetch failed", upstream.status);
+    return { ok: false, error: "upstream" };
+  }
+
+  const original = new Uint8Array(await upstream.arrayBuffer());
+  try {
+    return { ok: true, body: Buffer.from(await watermarkPdf(original, stamp)) };
+  } catch (error) {
+    console.error("[documents] Failed to watermark PDF", error);
+    return { ok: false, error: "watermark", original: Buffer.from(original) };
+  }
+}
+
+// Watermarked copies are generated per download, so range requests are not
+// offered for them. A file that could not be stamped is withheld (fail closed)
+// unless `allowOriginal` is set, which is for admins only.
+export function watermarkedPdfResponse(
+  result: WatermarkResult,
+  attachment: Attachment,
+  options: { disposition?: "inline" | "attachment"; allowOriginal?: boolean } = {}
+): Response {
+  if (!result.ok && result.error === "upstream") {
+    return new Response("Unable to download document", { status: 502 });
+  }
+  if (!result.ok && !options.allowOriginal) {
+    return new Response("This document cannot be served right now; please contact the JBV team", { status: 503 });
+  }
+  const body = result.ok ? result.body : result.original;
+
+  return new Response(new Uint8Array(body), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": contentDisposition(options.disposition ?? "inline", attachmentFilename(attachment)),
+      "Content-Length": String(body.byteLength),
+      "Accept-Ranges": "none",
+      "Cache-Control": "private, no-store",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
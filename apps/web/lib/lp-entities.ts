@@ -0,0 +1,29 @@
+import { cookies } from "next/headers";
+import type { DelegationScope } from "./delegations";
+import { contactDisplayName, findContactsByEmail } from "./lp-server";
+
+export const LP_ENTITY_COOKIE = "jbv-lp-entity";
+
+export type InvestorEntity = {
+  id: string;
+  name: string;
+  relationship: "self" | "delegate";
+  scope: DelegationScope | null;
+  expiresAt: string | null;
+};
+
+export async function listInvestorEntities(email: string): Promise<InvestorEntity[]> {
+  const contacts = await findContactsByEmail(email);
+  return contacts.map((contact) => ({
+    id: contact.id,
+    name: String(contactDisplayName(contact)),
+    relationship: contact.access.kind,
+    scope: contact.access.kind === "delegate" ? contact.access.scope : null,
+    expiresAt: contact.access.kind === "delegate" ? contact.access.expiresAt : null,
+  }));
+}
+
+// The entity chosen in the LP header switcher; null means "all entities".
+export function getSelectedEntityId(): string | null {
+  return cookies().get(LP_ENTITY_COOKIE)?.value || null;
+}
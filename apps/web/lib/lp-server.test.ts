@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+type Row = { id: string; fields: Record<string, any> };
+
+const airtable = vi.hoisted(() => {
+  process.env.AIRTABLE_API_KEY ||= "keyTest";
+  process.env.AIRTABLE_BASE_ID ||= "appTest";
+  return {
+    contactNames: new Map<string, string>(),
+    investments: [] as Row[],
+    selects: [] as Array<{ filterByFormula?: string; fields?: string[] }>,
+    transferred: 0,
+  };
+});
+
+// Evaluates the formulas lp-server builds the way Airtable would: a link field
+// reads as the linked Contacts' names.
+function matchesFormula(row: Row, formula: string) {
+  const [, field] = formula.match(/ARRAYJOIN\(\{([^}]+)\}/) ?? [];
+  const wanted = Array.from(formula.matchAll(/FIND\(',((?:[^']|'')*),'/g), ([, value]) => value.replace(/''/g, "'"));
+  const linked: string[] = row.fields[field] ?? [];
+  const joined = `,${linked.map((id) => airtable.contactNames.get(id) ?? "").join(",")},`;
+  return wanted.some((value) => joined.includes(`,${value},`));
+}
+
+vi.mock("./airtable", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./airtable")>()),
+  airtableLimiter: { schedule: (task: () => unknown) => task() },
+  base: () => ({
+    select: (params: { filterByFormula?: string; fields?: string[] }) => ({
+      all: async () => {
+        airtable.selects.push(params);
+        const rows = params.filterByFormula
+          ? airtable.investments.filter((row) => matchesFormula(row, params.filterByFormula!))
+          : airtable.investments;
+        airtable.transferred += rows.length;
+        return rows.map((row) => ({
+          id: row.id,
+          fields: params.fields
+            ? Object.fromEntries(Object.entries(row.fields).filter(([key]) => params.fields!.includes(key)))
+            : row.fields,
+          _rawJson: {},
+        }));
+      },
+    }),
+  }),
+}));
+
+const { getInvestmentsForContactIds } = await import("./lp-server");
+const { invalidateTable } = await import("./data-access");
+
+const CONTACTS = 2_000;
+const INVESTMENTS = 10_000;
+const FIELDS = ["Partner Investment", "Primary Contact", "Fund", "Commitment"];
+
+function contact(index: number, name = `Investor ${index}`) {
+  return { id: `recContact${index}`, fields: { Name: name }, access: { kind: "self" as const } };
+}
+
+describe("getInvestmentsForContactIds against a large base", () => {
+  beforeEach(async () => {
+    airtable.contactNames.clear();
+    for (let i = 0; i < CONTACTS; i += 1) airtable.contactNames.set(`recContact${i}`, `Investor ${i}`);
+    airtable.investments = Array.from({ length: INVESTMENTS }, (_, i) => ({
+      id: `recInvestment${i}`,
+      fields: {
+        "Partner Investment": `Investment ${i}`,
+        "Primary Contact": [`recContact${i % CONTACTS}`],
+        Fund: [`recFund${i % 7}`],
+        Commitment: 100_000 + i,
+        "Internal Notes": "not for LPs",
+      },
+    }));
+    airtable.selects = [];
+    airtable.transferred = 0;
+    await invalidateTable("Partner Investments");
+  });
+
+  it("filters by Contact name in Airtable and reads only the matching rows", async () => {
+    const records = await getInvestmentsForContactIds([contact(7), contact(1_234)], undefined, { fields: FIELDS });
+
+    const expected = [7, 1_234].flatMap((offset) =>
+      Array.from({ length: INVESTMENTS / CONTACTS }, (_, i) => `recInvestment${offset + i * CONTACTS}`)
+    );
+    expect(records.map((record) => record.id).sort()).toEqual(expected.sort());
+    // Rows sent by Airtable, against the 10,000 a whole-table read costs.
+    expect(airtable.transferred).toBe(records.length);
+    expect(airtable.selects).toHaveLength(1);
+    expect(airtable.selects[0].fields).toEqual(FIELDS);
+    expect(records.every((record) => !("Internal Notes" in record.fields))).toBe(true);
+  });
+
+  it("chunks the filter for investors reaching many Contacts", async () => {
+    const contacts = Array.from({ length: 120 }, (_, i) => contact(i));
+
+    const records = await getInvestmentsForContactIds(contacts, undefined, { fields: FIELDS });
+
+    expect(airtable.selects).toHaveLength(3);
+    expect(records).toHaveLength(120 * (INVESTMENTS / CONTACTS));
+    expect(airtable.transferred).toBe(records.length);
+  });
+
+  it("drops records of another Contact that shares the name", async () => {
+    airtable.contactNames.set("recContact8", "Investor 7");
+
+    const records = await getInvestmentsForContactIds([contact(7)], undefined, { fields: FIELDS });
+
+    expect(airtable.transferred).toBe(2 * (INVESTMENTS / CONTACTS));
+    expect(records).toHaveLength(INVESTMENTS / CONTACTS);
+    expect(records.every((record) => record._contactIds?.[0] === "recContact7")).toBe(true);
+  });
+
+  it("never reads the whole table", async () => {
+    const nameless = await getInvestmentsForContactIds([contact(7, "")], undefined, { fields: FIELDS });
+    const unmatched = await getInvestmentsForContactIds([contact(CONTACTS + 1)], undefined, { fields: FIELDS });
+    const mixed = await getInvestmentsForContactIds([contact(7, ""), contact(8)], undefined, { fields: FIELDS });
+
+    expect(nameless).toEqual([]);
+    expect(unmatched).toEqual([]);
+    expect(mixed).toHaveLength(INVESTMENTS / CONTACTS);
+    expect(airtable.transferred).toBe(INVESTMENTS / CONTACTS);
+    expect(airtable.selects.every((select) => select.filterByFormula && select.fields?.join() === FIELDS.join())).toBe(true);
+  });
+});
@@ -1,19 +1,30 @@
-import Airtable from "airtable";
-import Bottleneck from "bottleneck";
-import type { Role } from "@/lib/auth-helpers";
+import { isAdminRole, type Role } from "@/lib/auth-helpers";
+import {
+  CONTACTS_TABLE,
+  LAST_MODIFIED_FIELD,
+  PARTNER_INVESTMENTS_TABLE as INVEST_TABLE,
+  airtableLimiter as limiter,
+  base,
+} from "@/lib/airtable";
 import { normalizeFieldKey } from "@/lib/airtable-shared";
-
-const base = new Airtable({ apiKey: process.env.AIRTABLE_API_KEY! }).base(
-  process.env.AIRTABLE_BASE_ID!
-);
-const limiter = new Bottleneck({ minTime: 220 });
-
-const CONTACTS_TABLE = "Contacts";
-const INVEST_TABLE = "Partner Investments";
-const VISIBILITY_TABLE = "VisibilityRules";
+import { getCachedSelect, type CachedRecord } from "@/lib/data-access";
+import { getActiveDelegationsForEmail, type DelegationScope } from "@/lib/delegations";
+import { expandLinkedFields } from "@/lib/linked-records";
+import { investmentPosition, portfolioIrr } from "@/lib/performance";
+import type { Transaction } from "@/lib/transactions";
+import { allowedFieldsFor, filterFields, getVisibilityPolicy } from "@/lib/visibility-policy";
+
+// Formulas see a link field as its Contacts' primary field values (names), not
+// their ids. Partner Investments are filtered in Airtable by those names, and
+// the linked ids are checked here, since names need not be unique. A lookup of
+// the linked Contacts' RECORD_ID()s, when configured, filters by id instead.
+const CONTACT_LINK_FIELD = process.env.AIRTABLE_CONTACT_LINK_FIELD || "Primary Contact";
+const CONTACT_PRIMARY_FIELD = process.env.AIRTABLE_CONTACTS_PRIMARY_FIELD || "Name";
+const CONTACT_IDS_FIELD = process.env.AIRTABLE_CONTACT_IDS_FIELD || "";
+const CONTACT_FILTER_CHUNK_SIZE = 50;
 
 // Support both "Primary Contact" and "PRIMARY CONTACT"
-const CONTACT_LINK_FIELD_CANDIDATES = ["Primary Contact", "PRIMARY CONTACT"];
+const CONTACT_LINK_FIELD_CANDIDATES = Array.from(new Set([CONTACT_LINK_FIELD, "Primary Contact", "PRIMARY CONTACT"]));
 
 // Try to find a field name that exists on a record
 export function pickExistingField(fields: Record<string, any>, candidates: string[]) {
@@ -33,141 +44,261 @@ export function num(v: any): number {
   return 0;
 }
 
-type ContactRecord = { id: string; fields: Record<string, any> };
+// How the signed-in user reaches a Contact: as the investor themselves, or
+// through a delegation granted by that investor.
+type ContactAccess =
+  | { kind: "self" }
+  | {
+      kind: "delegate";
+      delegationId: string;
+      scope: DelegationScope;
+      fundIds: string[];
+      expiresAt: string | null;
+    };
+
+type ContactRecord = { id: string; fields: Record<string, any>; access: ContactAccess };
 type InvestmentRecord = {
   id: string;
   fields: Record<string, any>;
   _updatedTime: string | null;
+  // "documents" when the record is only reachable through a documents-only delegation.
+  _access?: "full" | "documents";
+  // Linked Contacts on the record that the signed-in user reaches.
+  _contactIds?: string[];
 };
 
 function escapeFormulaValue(value: string) {
   return value.replace(/'/g, "''");
 }
 
-// 1) Find one or more Contact records that match email
+// 1) Find one or more Contact records that match email, plus the Contacts
+// whose investors delegated access to it
 export async function findContactsByEmail(email: string): Promise<ContactRecord[]> {
   const e = normEmail(email);
   if (!e) return [];
   const formula = `LOWER({Email}) = '${escapeFormulaValue(e)}'`;
   try {
-    const records = await limiter.schedule(() =>
-      base(CONTACTS_TABLE)
-        .select({ filterByFormula: formula })
-        .all()
-    );
-    return records.map((r) => ({ id: r.id, fields: r.fields as any }));
+    const [records, delegations] = await Promise.all([
+      limiter.schedule(() =>
+        base(CONTACTS_TABLE)
+          .select({ filterByFormula: formula })
+          .all()
+      ),
+      getActiveDelegationsForEmail(e),
+    ]);
+    const contacts: ContactRecord[] = records.map((r) => ({
+      id: r.id,
+      fields: r.fields as any,
+      access: { kind: "self" },
+    }));
+
+    const ownIds = new Set(contacts.map((c) => c.id));
+    const delegated = delegations.filter((d) => !ownIds.has(d.grantorContactId));
+    const grantors = await findContactsByIds(delegated.map((d) => d.grantorContactId));
+    const grantorsById = new Map(grantors.map((g) => [g.id, g]));
+
+    for (const delegation of delegated) {
+      const grantor = grantorsById.get(delegation.grantorContactId);
+      if (!grantor) continue;
+      // A second grant for the same investor replaces the first only if it is broader.
+      const existing = contacts.find((c) => c.id === grantor.id);
+      const access: ContactAccess = {
+        kind: "delegate",
+        delegationId: delegation.id,
+        scope: delegation.scope,
+        fundIds: delegation.fundIds,
+        expiresAt: delegation.expiresAt,
+      };
+      if (!existing) {
+        contacts.push({ ...grantor, access });
+      } else if (existing.access.kind === "delegate" && scopeRank(delegation.scope) > scopeRank(existing.access.scope)) {
+        existing.access = access;
+      }
+    }
+
+    return contacts;
   } catch (error) {
     console.error("[lp-server] Failed to find contacts by email", error);
     throw error;
   }
 }
 
-// 2) Fetch Partner Investments for given Contact IDs (supports multi-contact links)
+function scopeRank(scope: DelegationScope) {
+  return scope === "read-only" ? 2 : scope === "specific-funds" ? 1 : 0;
+}
+
+export async function findContactsByIds(ids: string[]): Promise<Array<{ id: string; fields: Record<string, any> }>> {
+  const unique = Array.from(new Set(ids.filter(Boolean)));
+  if (!unique.length) return [];
+  const formula = `OR(${unique.map((id) => `RECORD_ID() = '${escapeFormulaValue(id)}'`).join(", ")})`;
+  const records = await limiter.schedule(() =>
+    base(CONTACTS_TABLE)
+      .select({ filterByFormula: formula })
+      .all()
+  );
+  return records.map((r) => ({ id: r.id, fields: r.fields as any }));
+}
+
+export async function searchContacts(query: string, limit = 20): Promise<Array<{ id: string; fields: Record<string, any> }>> {
+  const q = normEmail(query);
+  if (!q) return [];
+  const formula = `SEARCH('${escapeFormulaValue(q)}', LOWER(CONCATENATE({Name}, ' ', {Email})))`;
+  const records = await limiter.schedule(() =>
+    base(CONTACTS_TABLE)
+      .select({ filterByFormula: formula, maxRecords: limit })
+      .all()
+  );
+  return records.map((r) => ({ id: r.id, fields: r.fields as any }));
+}
+
+// Matches records whose link field (as joined by ARRAYJOIN) holds any of the
+// values; the delimiters keep "Ann" from matching "Anna".
+function linkFilterFormula(field: string, values: string[]) {
+  const joined = `',' & ARRAYJOIN({${field}}, ',') & ','`;
+  return `OR(${values.map((value) => `FIND(',${escapeFormulaValue(value)},', ${joined})`).join(", ")})`;
+}
+
+function isUnknownFieldError(error: unknown) {
+  return (error as { error?: string } | null)?.error === "UNKNOWN_FIELD_NAME";
+}
+
+async function selectInvestments(params: { view?: string; filterByFormula?: string; fields?: string[] }) {
+  try {
+    return await getCachedSelect(INVEST_TABLE, params);
+  } catch (error) {
+    // A visibility rule can outlive the field it names; Airtable rejects the
+    // whole select then, so fall back to every field.
+    if (!params.fields || !isUnknownFieldError(error)) throw error;
+    console.error("[lp-server] Unknown field requested from Partner Investments; retrying with all fields");
+    return getCachedSelect(INVEST_TABLE, { ...params, fields: undefined });
+  }
+}
+
+// Candidate Partner Investments for the Contacts, filtered in Airtable in
+// chunks; the whole table is never read for an investor. Without a Contact
+// ids lookup, a Contact with no name cannot be matched and gets no records.
+async function selectInvestmentsForContacts(
+  contacts: Array<Pick<ContactRecord, "id" | "fields">>,
+  viewId?: string,
+  fields?: string[]
+) {
+  let filter: { field: string; values: string[] };
+  if (CONTACT_IDS_FIELD) {
+    filter = { field: CONTACT_IDS_FIELD, values: contacts.map((contact) => contact.id) };
+  } else {
+    const names = new Set<string>();
+    contacts.forEach((contact) => {
+      const name = String(contact.fields?.[CONTACT_PRIMARY_FIELD] ?? "").trim();
+      if (name) names.add(name);
+      else console.error(`[lp-server] Contact ${contact.id} has no ${CONTACT_PRIMARY_FIELD}; set AIRTABLE_CONTACT_IDS_FIELD`);
+    });
+    filter = { field: CONTACT_LINK_FIELD, values: Array.from(names) };
+  }
+
+  const byId = new Map<string, CachedRecord>();
+  for (let i = 0; i < filter.values.length; i += CONTACT_FILTER_CHUNK_SIZE) {
+    const records = await selectInvestments({
+      view: viewId,
+      filterByFormula: linkFilterFormula(filter.field, filter.values.slice(i, i + CONTACT_FILTER_CHUNK_SIZE)),
+      fields,
+    });
+    records.forEach((record) => byId.set(record.id, record));
+  }
+  return Array.from(byId.values());
+}
+
+// Fields to request for a role: what visibility lets it see plus what access
+// checks read before visibility applies. Admins get every field.
+async function investmentFieldsFor(role: Role): Promise<string[] | undefined> {
+  const allowSet = await getAllowedFields(role);
+  if (!allowSet) return undefined;
+  const fields = new Set(allowSet);
+  [CONTACT_LINK_FIELD, CONTACT_IDS_FIELD, "Fund", LAST_MODIFIED_FIELD].filter(Boolean).forEach((field) => fields.add(field));
+  return Array.from(fields);
+}
+
+// 2) Fetch Partner Investments for given Contacts (supports multi-contact links).
+// Delegated Contacts only contribute records their delegation's scope covers.
 export async function getInvestmentsForContactIds(
-  contactIds: string[],
-  viewId?: string
+  contacts: Array<Pick<ContactRecord, "id" | "fields" | "access">>,
+  viewId?: string,
+  options: { fields?: string[] } = {}
 ): Promise<InvestmentRecord[]> {
-  if (!contactIds.length) return [];
+  if (!contacts.length) return [];
 
-  const sel: { view?: string } = {};
-  if (viewId) sel.view = viewId;
+  const accessById = new Map(contacts.map((c) => [c.id, c.access]));
 
   try {
-    const records = await limiter.schedule(() => base(INVEST_TABLE).select(sel).all());
-    return records
-      .filter((rec) => {
-        const fields = rec.fields as any;
-        const linkFieldName = pickExistingField(fields, CONTACT_LINK_FIELD_CANDIDATES);
-        const linked = (linkFieldName ? fields[linkFieldName] : []) as string[] | undefined;
-        if (!linked?.length) return false;
-        return linked.some((id) => contactIds.includes(id));
-      })
-      .map((rec) => ({
+    const records = await selectInvestmentsForContacts(contacts, viewId, options.fields);
+    const results: InvestmentRecord[] = [];
+    for (const rec of records) {
+      const fields = rec.fields as any;
+      const linkFieldName = pickExistingField(fields, CONTACT_LINK_FIELD_CANDIDATES);
+      const linked = (linkFieldName ? fields[linkFieldName] : CONTACT_IDS_FIELD ? fields[CONTACT_IDS_FIELD] : []) as
+        | string[]
+        | undefined;
+      if (!linked?.length) continue;
+
+      const access = resolveRecordAccess(
+        fields,
+        linked.map((id) => accessById.get(id)).filter((a): a is ContactAccess => Boolean(a))
+      );
+      if (!access) continue;
+
+      results.push({
         id: rec.id,
-        fields: rec.fields as any,
-        _updatedTime: (rec as any)._rawJson?.modifiedTime || null,
-      }));
+        fields,
+        _updatedTime: rec._updatedTime,
+        _access: access,
+        _contactIds: linked.filter((id) => accessById.has(id)),
+      });
+    }
+    return results;
   } catch (error) {
     console.error("[lp-server] Failed to load partner investments", error);
     throw error;
   }
 }
 
-// 3) Expand linked fields (Target Securities, Partner, Fund, Primary Contact/PRIMARY CONTACT)
-const LINK_EXPANDS: Record<string, string> = {
-  "Target Securities": "Target Securities",
-  Partner: "Partners",
-  Fund: "JBV Entities",
-  "Primary Contact": "Contacts",
-  "PRIMARY CONTACT": "Contacts",
-};
-
-export async function expandLinked(record: InvestmentRecord): Promise<InvestmentRecord> {
-  const fields = { ...record.fields };
-
-  for (const [fieldName, table] of Object.entries(LINK_EXPANDS)) {
-    const ids = fields[fieldName] as string[] | undefined;
-    if (!ids?.length) continue;
-
-    const linked = (
-      await Promise.all(
-        ids.map(async (id) => {
-          try {
-            const result = await limiter.schedule(() => base(table).find(id));
-            return {
-              id: result.id,
-              displayName:
-                (result.fields["Name"] as string) ||
-                (result.fields["Full Name"] as string) ||
-                (result.fields["Company"] as string) ||
-                (result.fields["Email"] as string) ||
-                result.id,
-              fields: result.fields,
-            };
-          } catch (error) {
-            console.error(
-              `[lp-server] Failed to expand linked record ${fieldName} (${table})`,
-              error
-            );
-            return null;
-          }
-        })
-      )
-    ).filter(Boolean);
-
-    fields[fieldName] = linked;
+// The broadest access any linked Contact grants wins.
+function resolveRecordAccess(fields: Record<string, any>, grants: ContactAccess[]): "full" | "documents" | null {
+  let result: "full" | "documents" | null = null;
+  for (const grant of grants) {
+    if (grant.kind === "self" || grant.scope === "read-only") return "full";
+    if (grant.scope === "specific-funds") {
+      const funds = Array.isArray(fields["Fund"]) ? (fields["Fund"] as string[]) : [];
+      if (funds.some((id) => grant.fundIds.includes(id))) return "full";
+      continue;
+    }
+    result = "documents";
   }
-
-  return { ...record, fields };
+  return result;
 }
 
-const visibilityCache = new Map<Role, Set<string>>();
-
-async function getAllowedFields(role: Role): Promise<Set<string> | null> {
-  if (role === "admin") return null;
+// Fields a documents-only delegate keeps alongside the attachments themselves,
+// so documents can still be labelled and grouped.
+const DOCUMENT_CONTEXT_FIELDS = new Set([
+  "Partner Investment",
+  "Fund",
+  "Period Ending",
+  "Investment Year (K-1 Formula)",
+]);
 
-  if (visibilityCache.has(role)) {
-    return visibilityCache.get(role)!;
+export function restrictToDocumentFields(fields: Record<string, any>) {
+  const kept: Record<string, any> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    const isAttachmentList =
+      Array.isArray(value) && value.length > 0 && value.every((entry) => entry && typeof entry.url === "string");
+    if (isAttachmentList || DOCUMENT_CONTEXT_FIELDS.has(key)) kept[key] = value;
   }
+  return kept;
+}
 
-  try {
-    const rules = await limiter.schedule(() =>
-      base(VISIBILITY_TABLE)
-        .select({ filterByFormula: "{tableId} = 'Partner Investments'" })
-        .all()
-    );
-
-    const allowSet = new Set<string>();
-    for (const r of rules) {
-      const rf = r.fields as any;
-      const fieldId = rf["fieldId"] as string | undefined;
-      if (!fieldId) continue;
-      const allow = role === "lp" ? !!rf["visibleToLP"] : !!rf["visibleToPartners"];
-      if (allow) allowSet.add(fieldId);
-    }
+async function getAllowedFields(role: Role, tableId = INVEST_TABLE): Promise<Set<string> | null> {
+  if (isAdminRole(role)) return null;
 
-    visibilityCache.set(role, allowSet);
-    return allowSet;
+  try {
+    return allowedFieldsFor(await getVisibilityPolicy(tableId), role);
   } catch (error) {
     console.error("[lp-server] Failed to load visibility rules", error);
     return new Set();
@@ -177,88 +308,111 @@ async function getAllowedFields(role: Role): Promise<Set<string> | null> {
 // 4) Visibility: keep only allowed fields
 export async function applyVisibility(
   fields: Record<string, any>,
-  role: Role
+  role: Role,
+  tableId = INVEST_TABLE
 ): Promise<Record<string, any>> {
-  if (role === "admin") return { ...fields };
-  const allowSet = await getAllowedFields(role);
-  if (!allowSet || allowSet.size === 0) {
-    return {};
-  }
-
-  const kept: Record<string, any> = {};
-  Object.keys(fields).forEach((k) => {
-    if (allowSet.has(k)) kept[k] = fields[k];
-  });
-  return kept;
+  return filterFields(fields, await getAllowedFields(role, tableId));
 }
 
-// 5) Metrics from visible fields (Total NAV preferred, fallback Current NAV)
-export function computeMetrics(rows: Array<{ fields: any }>) {
+// 5) Metrics from visible fields (Total NAV preferred, fallback Current NAV).
+// Ratios only count investments whose paid-in capital is visible, and each
+// metric is flagged unavailable when the fields behind it are hidden.
+// Net IRR comes from the cash flows the same fields imply; see lib/performance.
+export function computeMetrics(rows: Array<{ fields: any; transactions?: Transaction[] }>) {
   let commitmentTotal = 0;
+  let paidInTotal = 0;
+  let unfundedTotal = 0;
   let navTotal = 0;
   let distributionsTotal = 0;
-  let moicSum = 0;
-  let moicCount = 0;
+  let distributionsOnPaidIn = 0;
+  let navOnPaidIn = 0;
+  let moicWeighted = 0;
+  let moicWeight = 0;
 
   let hasCommitment = false;
+  let hasPaidIn = false;
+  let hasUnfunded = false;
   let hasNav = false;
   let hasDistributions = false;
+  let hasDpi = false;
+  let hasRvpi = false;
   let hasMoic = false;
 
   for (const r of rows) {
-    const rawFields = r.fields || {};
-    const normalizedFields: Record<string, any> = {};
-    for (const [key, value] of Object.entries(rawFields)) {
-      normalizedFields[normalizeFieldKey(key)] = value;
-    }
+    const position = investmentPosition({ fields: r.fields || {}, transactions: r.transactions });
 
-    if (Object.prototype.hasOwnProperty.call(normalizedFields, "commitment")) {
+    if (position.commitment !== null) {
       hasCommitment = true;
-      commitmentTotal += num(normalizedFields["commitment"]);
+      commitmentTotal += position.commitment;
     }
-
-    if (Object.prototype.hasOwnProperty.call(normalizedFields, "distributions")) {
+    if (position.distributions !== null) {
       hasDistributions = true;
-      distributionsTotal += num(normalizedFields["distributions"]);
+      distributionsTotal += position.distributions;
     }
-
-    const totalNavValue = normalizedFields["total nav"];
-    const currentNavValue = normalizedFields["current nav"];
-    if (totalNavValue !== undefined || currentNavValue !== undefined) {
+    if (position.nav !== null) {
       hasNav = true;
-      const totalNav = totalNavValue !== undefined ? num(totalNavValue) : 0;
-      const currentNav = currentNavValue !== undefined ? num(currentNavValue) : 0;
-      navTotal += totalNav > 0 ? totalNav : currentNav;
+      navTotal += position.nav;
     }
 
-    const moicValue =
-      normalizedFields["net moic"] !== undefined
-        ? normalizedFields["net moic"]
-        : normalizedFields["moic"];
-    if (moicValue !== undefined) {
-      hasMoic = true;
-      const moic = num(moicValue);
-      if (moic > 0) {
-        moicSum += moic;
-        moicCount += 1;
+    if (position.paidIn !== null) {
+      hasPaidIn = true;
+      paidInTotal += position.paidIn;
+      if (position.distributions !== null) {
+        hasDpi = true;
+        distributionsOnPaidIn += position.distributions;
+      }
+      if (position.nav !== null) {
+        hasRvpi = true;
+        navOnPaidIn += position.nav;
       }
+      if (position.commitment !== null) {
+        hasUnfunded = true;
+        unfundedTotal += Math.max(0, position.commitment - position.paidIn);
+      }
+    }
+
+    if (position.netMoic !== null && position.commitment) {
+      hasMoic = true;
+      moicWeighted += position.netMoic * position.commitment;
+      moicWeight += position.commitment;
     }
   }
 
+  const paidInOf = (value: number) => (paidInTotal > 0 ? value / paidInTotal : null);
+  const dpi = hasDpi ? paidInOf(distributionsOnPaidIn) : null;
+  const rvpi = hasRvpi ? paidInOf(navOnPaidIn) : null;
+  const tvpi = hasDpi && hasRvpi ? paidInOf(distributionsOnPaidIn + navOnPaidIn) : null;
+  const netIrr = portfolioIrr(rows);
+
   return {
     commitmentTotal,
+    paidInTotal,
+    unfundedTotal,
     navTotal,
     distributionsTotal,
-    netMoicAvg: moicCount ? moicSum / moicCount : 0,
+    dpi,
+    rvpi,
+    tvpi,
+    // Weighted by commitment, so a large position counts for more than a small one.
+    netMoic: moicWeight ? moicWeighted / moicWeight : null,
+    netIrr,
     availability: {
       commitment: hasCommitment,
+      paidIn: hasPaidIn,
+      unfunded: hasUnfunded,
       nav: hasNav,
       distributions: hasDistributions,
+      dpi: dpi !== null,
+      rvpi: rvpi !== null,
+      tvpi: tvpi !== null,
       netMoic: hasMoic,
+      netIrr: netIrr !== null,
     },
   };
 }
 
+export type PortfolioMetrics = ReturnType<typeof computeMetrics>;
+
 // 6) Profile: derive display name from Contacts
 export function contactDisplayName(contact: { fields: any }) {
   const f = contact.fields || {};
@@ -273,30 +427,52 @@ export function contactDisplayName(contact: { fields: any }) {
   );
 }
 
+type LoadOptions = {
+  // Restrict to one investor entity (Contact id); every reachable entity otherwise.
+  entityId?: string | null;
+  // Serve exactly this Contact as its own investor (admin "view as LP").
+  contactId?: string | null;
+  // Skip linked-record expansion when only raw fields are needed.
+  expand?: boolean;
+};
+
 export async function loadLpInvestmentRecords(
   email: string,
   role: Role,
-  viewId?: string
+  viewId?: string,
+  options: LoadOptions = {}
 ): Promise<{ contacts: ContactRecord[]; records: InvestmentRecord[]; note?: string }> {
-  const contacts = await findContactsByEmail(email);
-  const contactIds = contacts.map((c) => c.id);
-
-  if (!contactIds.length) {
+  const accessible: ContactRecord[] = options.contactId
+    ? (await findContactsByIds([options.contactId])).map((c) => ({ ...c, access: { kind: "self" } }))
+    : await findContactsByEmail(email);
+  const selected = options.entityId ? accessible.filter((c) => c.id === options.entityId) : [];
+  // A stale or foreign entity id falls back to everything the user can reach.
+  const contacts = selected.length ? selected : accessible;
+
+  if (!contacts.length) {
     return { contacts, records: [], note: "contact-not-found" };
   }
 
-  const investments = await getInvestmentsForContactIds(contactIds, viewId);
+  const investments = await getInvestmentsForContactIds(contacts, viewId, {
+    fields: await investmentFieldsFor(role),
+  });
   const note = !investments.length && viewId ? "view-filtered" : undefined;
 
-  const expanded = await Promise.all(investments.map((record) => expandLinked(record)));
+  const expanded =
+    options.expand === false
+      ? investments
+      : await expandLinkedFields(investments);
   const visible = await Promise.all(
-    expanded.map(async (record) => ({
-      ...record,
-      fields: await applyVisibility(record.fields, role),
-    }))
+    expanded.map(async (record) => {
+      const allowed = await applyVisibility(record.fields, role);
+      return {
+        ...record,
+        fields: record._access === "documents" ? restrictToDocumentFields(allowed) : allowed,
+      };
+    })
   );
 
   return { contacts, records: visible, note };
 }
 
-export type { ContactRecord, InvestmentRecord };
+export type { ContactAccess, ContactRecord, InvestmentRecord };
@@ -0,0 +1,97 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { updateJson } from "./json-store";
+import { sendMail } from "./mail";
+
+const TOKEN_SECRET = process.env.NEXTAUTH_SECRET || "development-secret";
+const TOKEN_TTL_MS = Number(process.env.MAGIC_LINK_TTL_MINUTES || 15) * 60 * 1000;
+export const MAGIC_LINK_RESEND_COOLDOWN_MS = 60 * 1000;
+
+const CONSUMED_STORE = "magic-link-consumed";
+
+type TokenPayload = {
+  e: string; // email
+  n: string; // nonce
+  x: number; // expiry (ms since epoch)
+};
+
+export type MagicLinkVerification =
+  | { ok: true; email: string }
+  | { ok: false; reason: "invalid" | "expired" | "used" };
+
+function sign(encodedPayload: string) {
+  return createHmac("sha256", TOKEN_SECRET).update(encodedPayload).digest("base64url");
+}
+
+export function createMagicLinkToken(email: string, now = Date.now()) {
+  const payload: TokenPayload = {
+    e: email.trim().toLowerCase(),
+    n: randomBytes(16).toString("base64url"),
+    x: now + TOKEN_TTL_MS,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+}
+
+function decodeToken(token: string): TokenPayload | null {
+  const [encoded, signature] = (token || "").split(".");
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    if (typeof payload?.e !== "string" || typeof payload?.n !== "string" || typeof payload?.x !== "number") {
+      return null;
+    }
+    return payload as TokenPayload;
+  } catch {
+    return null;
+  }
+}
+
+// Verifies the signature and expiry, then records the nonce so the same link
+// can never sign anyone in twice.
+export async function consumeMagicLinkToken(token: string, now = Date.now()): Promise<MagicLinkVerification> {
+  const payload = decodeToken(token);
+  if (!payload) return { ok: false, reason: "invalid" };
+  if (payload.x <= now) return { ok: false, reason: "expired" };
+
+  return updateJson<Record<string, number>, MagicLinkVerification>(CONSUMED_STORE, {}, (consumed) => {
+    const value: Record<string, number> = {};
+    for (const [nonce, expiresAt] of Object.entries(consumed)) {
+      if (expiresAt > now) value[nonce] = expiresAt;
+    }
+    if (value[payload.n]) {
+      return { value, result: { ok: false, reason: "used" } };
+    }
+    value[payload.n] = payload.x;
+    return { value, result: { ok: true, email: payload.e } };
+  });
+}
+
+export function buildMagicLinkUrl(origin: string, token: string, callbackUrl?: string | null) {
+  const url = new URL("/auth/verify", origin);
+  url.searchParams.set("token", token);
+  if (callbackUrl) url.searchParams.set("callbackUrl", callbackUrl);
+  return url.toString();
+}
+
+export async function sendMagicLinkEmail(email: string, link: string) {
+  const minutes = Math.round(TOKEN_TTL_MS / 60000);
+  await sendMail({
+    to: email,
+    subject: "Your JBV Investment Platform sign-in link",
+    text: [
+      "Use the link below to sign in to the JBV Investment Platform.",
+      "",
+      link,
+      "",
+      `The link expires in ${minutes} minutes and can be used once. If you did not request it, you can ignore this email.`,
+    ].join("\n"),
+    html: `<p>Use the link below to sign in to the JBV Investment Platform.</p><p><a href="${link}">Sign in to JBV</a></p><p>The link expires in ${minutes} minutes and can be used once. If you did not request it, you can ignore this email.</p>`,
+  });
+}
@@ -0,0 +1,82 @@
+import { promises as fs } from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = process.env.MAIL_FROM || "JBV Investment Platform <no-reply@jbv.com>";
+
+class SmtpTransport implements MailTransport {
+  readonly name = "smtp";
+  private transporter = nodemailer.createTransport(
+    process.env.SMTP_URL || {
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT || 587),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    }
+  );
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail({ from: DEFAULT_FROM, ...message });
+  }
+}
+
+// Development / test transport: every message is written to an outbox folder
+// as JSON so links can be opened locally, and echoed to the console.
+class FileTransport implements MailTransport {
+  readonly name = "file";
+  private outboxDir = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), "data", "outbox");
+
+  async send(message: MailMessage) {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    const sentAt = new Date().toISOString();
+    const fileName = `${sentAt.replace(/[:.]/g, "-")}-${message.to.replace(/[^a-z0-9@._-]/gi, "_")}.json`;
+    await fs.writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ from: DEFAULT_FROM, sentAt, ...message }, null, 2)
+    );
+    console.info(`[mail] ${message.to} · ${message.subject}\n${message.text}`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+// SMTP when configured. The file transport writes live sign-in links to disk
+// and the log, so outside development it must be asked for by name.
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+  const configured = (process.env.MAIL_TRANSPORT || "").toLowerCase();
+  if (configured === "smtp" || (!configured && (process.env.SMTP_URL || process.env.SMTP_HOST))) {
+    transport = new SmtpTransport();
+  } else if (configured === "file" || (!configured && process.env.NODE_ENV !== "production")) {
+    transport = new FileTransport();
+  } else {
+    throw new Error(
+      configured
+        ? `Unknown MAIL_TRANSPORT "${configured}"`
+        : "No mail transport configured: set SMTP_URL or SMTP_HOST, or MAIL_TRANSPORT=file"
+    );
+  }
+  return transport;
+}
+
+export function setMailTransport(next: MailTransport | null) {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage) {
+  await getMailTransport().send(message);
+}
@@ -0,0 +1,154 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import QRCode from "qrcode";
+import { isAdminRole, type Role } from "./is-admin";
+import { readJson, updateJson } from "./json-store";
+import { buildOtpAuthUri, generateTotpSecret, verifyTotpCode } from "./totp";
+
+const MFA_STORE = "mfa-enrollments";
+const RECOVERY_CODE_COUNT = 10;
+
+// TOTP secrets are encrypted at rest with a key derived from the auth secret.
+const ENCRYPTION_KEY = createHash("sha256")
+  .update(process.env.MFA_ENCRYPTION_KEY || process.env.NEXTAUTH_SECRET || "development-secret")
+  .digest();
+
+type MfaEnrollment = {
+  secret: string;
+  confirmedAt: string | null;
+  recoveryCodes: string[];
+  lastUsedStep: number | null;
+};
+
+type MfaStore = Record<string, MfaEnrollment>;
+
+export type MfaStatus = {
+  enrolled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+function encryptSecret(secret: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", ENCRYPTION_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64url")).join(".");
+}
+
+function decryptSecret(payload: string) {
+  const [iv, tag, encrypted] = payload.split(".").map((part) => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", ENCRYPTION_KEY, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+function hashRecoveryCode(code: string) {
+  return createHash("sha256").update(code.replace(/[\s-]/g, "").toLowerCase()).digest("hex");
+}
+
+function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+export function isMfaMandatory(role?: Role | null) {
+  return isAdminRole(role);
+}
+
+export async function getMfaStatus(email: string, role?: Role | null): Promise<MfaStatus> {
+  const store = await readJson<MfaStore>(MFA_STORE, {});
+  const enrollment = store[normalizeEmail(email)];
+  const enrolled = Boolean(enrollment?.confirmedAt);
+  return {
+    enrolled,
+    required: enrolled || isMfaMandatory(role),
+    recoveryCodesRemaining: enrolled ? enrollment.recoveryCodes.length : 0,
+  };
+}
+
+// Starts (or restarts) enrollment with a fresh secret. The previous secret,
+// if any, keeps working until the new one is confirmed.
+export async function beginMfaEnrollment(email: string) {
+  const key = normalizeEmail(email);
+  const secret = generateTotpSecret();
+  await updateJson<MfaStore, void>(MFA_STORE, {}, (store) => {
+    const existing = store[key];
+    const pending = { secret: encryptSecret(secret), confirmedAt: null, recoveryCodes: [], lastUsedStep: null };
+    const value = existing?.confirmedAt
+      ? { ...store, [`${key}#pending`]: pending }
+      : { ...store, [key]: pending };
+    return { value, result: undefined };
+  });
+
+  const otpauthUri = buildOtpAuthUri(secret, key);
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 220 });
+  return { secret, otpauthUri, qrCodeDataUrl };
+}
+
+// Confirms the pending secret with a first code and returns the plain recovery
+// codes; only their hashes are stored.
+export async function confirmMfaEnrollment(email: string, code: string): Promise<string[] | null> {
+  const key = normalizeEmail(email);
+  return updateJson<MfaStore, string[] | null>(MFA_STORE, {}, (store) => {
+    const pendingKey = store[`${key}#pending`] ? `${key}#pending` : key;
+    const pending = store[pendingKey];
+    if (!pending || (pendingKey === key && pending.confirmedAt)) {
+      return { value: store, result: null };
+    }
+    if (verifyTotpCode(decryptSecret(pending.secret), code) === null) {
+      return { value: store, result: null };
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    const value = { ...store };
+    delete value[`${key}#pending`];
+    value[key] = {
+      secret: pending.secret,
+      confirmedAt: new Date().toISOString(),
+      recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      lastUsedStep: null,
+    };
+    return { value, result: recoveryCodes };
+  });
+}
+
+// Accepts either a current TOTP code (each time step only once) or an unused
+// recovery code, which is burned on use.
+export async function verifyMfaCode(email: string, code: string): Promise<boolean> {
+  const key = normalizeEmail(email);
+  return updateJson<MfaStore, boolean>(MFA_STORE, {}, (store) => {
+    const enrollment = store[key];
+    if (!enrollment?.confirmedAt) return { value: store, result: false };
+
+    const step = verifyTotpCode(decryptSecret(enrollment.secret), code);
+    if (step !== null) {
+      if (enrollment.lastUsedStep !== null && step <= enrollment.lastUsedStep) {
+        return { value: store, result: false };
+      }
+      return { value: { ...store, [key]: { ...enrollment, lastUsedStep: step } }, result: true };
+    }
+
+    const hashed = hashRecoveryCode(code || "");
+    if (enrollment.recoveryCodes.includes(hashed)) {
+      const recoveryCodes = enrollment.recoveryCodes.filter((entry) => entry !== hashed);
+      return { value: { ...store, [key]: { ...enrollment, recoveryCodes } }, result: true };
+    }
+
+    return { value: store, result: false };
+  });
+}
+
+export async function removeMfaEnrollment(email: string) {
+  const key = normalizeEmail(email);
+  await updateJson<MfaStore, void>(MFA_STORE, {}, (store) => {
+    const value = { ...store };
+    delete value[key];
+    delete value[`${key}#pending`];
+    return { value, result: undefined };
+  });
+}
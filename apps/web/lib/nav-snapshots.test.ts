@@ -0,0 +1,101 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const investments = vi.hoisted(() => ({ rows: [] as Array<{ id: string; fields: Record<string, any> }> }));
+
+vi.mock("./data-access", () => ({
+  getCachedTable: async () => investments.rows.map((row) => ({ ...row, _updatedTime: null })),
+  invalidateTable: async () => undefined,
+}));
+
+const dataDir = mkdtempSync(path.join(os.tmpdir(), "nav-snapshots-"));
+process.env.PORTAL_DATA_DIR = dataDir;
+
+// A fresh module per test, so the one-time legacy migration runs again.
+async function load() {
+  vi.resetModules();
+  return import("./nav-snapshots");
+}
+
+function statement(id: string, period: string, nav: number, distributions: number) {
+  return { id, fields: { "Period Ending": period, "Total NAV": nav, Distributions: distributions, Notes: "ignored" } };
+}
+
+describe("NAV snapshots", () => {
+  beforeEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("groups periods by quarter and carries the last figures forward", async () => {
+    const { captureNavSnapshots, getNavHistory } = await load();
+
+    investments.rows = [statement("recA", "2024-01-31", 100, 0), statement("recB", "2024-02-15", 50, 5)];
+    await captureNavSnapshots();
+    // A later period in the same quarter, then a correction to it.
+    investments.rows = [statement("recA", "2024-03-31", 110, 0)];
+    await captureNavSnapshots();
+    investments.rows = [statement("recA", "2024-03-31", 115, 0)];
+    await captureNavSnapshots();
+    // Only one investment reports in each of the next quarters.
+    investments.rows = [statement("recA", "2024-06-30", 120, 10)];
+    await captureNavSnapshots();
+    investments.rows = [statement("recB", "2024-09-30", 60, 5)];
+    await captureNavSnapshots();
+
+    expect(await getNavHistory(["recA", "recB"], "admin")).toEqual([
+      { quarter: "2024-Q1", periodEnd: "2024-03-31", nav: 165, distributions: 5 },
+      { quarter: "2024-Q2", periodEnd: "2024-06-30", nav: 170, distributions: 15 },
+      { quarter: "2024-Q3", periodEnd: "2024-09-30", nav: 180, distributions: 15 },
+    ]);
+    expect(await getNavHistory(["recB"], "admin")).toEqual([
+      { quarter: "2024-Q1", periodEnd: "2024-03-31", nav: 50, distributions: 5 },
+      { quarter: "2024-Q3", periodEnd: "2024-09-30", nav: 60, distributions: 5 },
+    ]);
+  });
+
+  it("keeps one file per investment and leaves unchanged ones alone", async () => {
+    const { captureNavSnapshots } = await load();
+    investments.rows = [statement("recA", "2024-03-31", 100, 0), statement("recB", "2024-03-31", 50, 0)];
+
+    expect(await captureNavSnapshots()).toEqual({ captured: 2, unchanged: 0, skipped: 0 });
+    const fileA = path.join(dataDir, "nav-snapshots", "recA.json");
+    const before = readFileSync(fileA, "utf8");
+
+    investments.rows = [statement("recA", "2024-03-31", 100, 0), statement("recB", "2024-03-31", 55, 0)];
+    expect(await captureNavSnapshots()).toEqual({ captured: 1, unchanged: 1, skipped: 0 });
+    expect(readFileSync(fileA, "utf8")).toBe(before);
+    expect(JSON.parse(readFileSync(path.join(dataDir, "nav-snapshots", "recB.json"), "utf8")).snapshots).toHaveLength(2);
+  });
+
+  it("moves snapshots out of the legacy single file", async () => {
+    mkdirSync(dataDir, { recursive: true });
+    const legacy = path.join(dataDir, "nav-snapshots.json");
+    writeFileSync(
+      legacy,
+      JSON.stringify({
+        snapshots: [
+          {
+            investmentId: "recA",
+            period: "2023-12-31",
+            capturedAt: "2024-01-05T00:00:00.000Z",
+            source: "schedule",
+            fields: { "Total NAV": 90 },
+          },
+        ],
+      })
+    );
+    const { getNavHistory } = await load();
+
+    expect(await getNavHistory(["recA"], "admin")).toEqual([
+      { quarter: "2023-Q4", periodEnd: "2023-12-31", nav: 90, distributions: null },
+    ]);
+    expect(JSON.parse(readFileSync(legacy, "utf8"))).toEqual({ snapshots: [] });
+    expect(existsSync(path.join(dataDir, "nav-snapshots", "recA.json"))).toBe(true);
+  });
+});
@@ -0,0 +1,306 @@
+import { PARTNER_INVESTMENTS_TABLE } from "./airtable";
+import { normalizeFieldKey } from "./airtable-shared";
+import { getCachedTable } from "./data-access";
+import { isAdminRole, type Role } from "./is-admin";
+import { readJson, updateJson } from "./json-store";
+import { allowedFieldsFor, filterFields, getVisibilityPolicy } from "./visibility-policy";
+
+// Partner Investments only hold their latest period, so each period's
+// financial fields are copied into an append-only store when the record
+// changes (Airtable webhook) and on a schedule (/api/snapshots/run). Histories
+// are read back from the store; nothing in it is ever rewritten. Each
+// investment has its own file, so a run only reads the investments it looks
+// at and only writes the ones that changed.
+const STORE_DIR = "nav-snapshots";
+// The single file every snapshot used to live in; split up on first use.
+const LEGACY_STORE = "nav-snapshots";
+
+export const PERIOD_FIELDS = ["period ending", "as of date"];
+export const SNAPSHOT_FIELDS = new Set([
+  "commitment",
+  "total nav",
+  "current nav",
+  "distributions",
+  "net moic",
+  "moic",
+  "paid-in capital",
+  "paid in capital",
+  "contributed capital",
+  "capital contributed",
+  "contributed",
+  "contributed / total lp commitment",
+]);
+
+export type SnapshotSource = "webhook" | "schedule" | "manual";
+
+// Fields keep their Airtable names so visibility rules still apply on read.
+// `attachmentIds` lists the documents on the record at the time (absent on
+// snapshots taken before documents were tracked).
+export type NavSnapshot = {
+  investmentId: string;
+  period: string;
+  capturedAt: string;
+  source: SnapshotSource;
+  fields: Record<string, any>;
+  attachmentIds?: string[];
+};
+
+type SnapshotStore = { snapshots: NavSnapshot[] };
+
+const EMPTY_STORE: SnapshotStore = { snapshots: [] };
+
+function storeFor(investmentId: string) {
+  return `${STORE_DIR}/${encodeURIComponent(investmentId)}`;
+}
+
+let legacyMigration: Promise<void> | null = null;
+
+// Moves snapshots from the legacy single file into the per-investment files,
+// then empties it. Snapshots already in an investment's file are not repeated.
+function migrateLegacyStore() {
+  legacyMigration ??= (async () => {
+    const legacy = await readJson<SnapshotStore>(LEGACY_STORE, EMPTY_STORE);
+    if (!legacy.snapshots?.length) return;
+    const byInvestment = new Map<string, NavSnapshot[]>();
+    legacy.snapshots.forEach((snapshot) => {
+      byInvestment.set(snapshot.investmentId, [...(byInvestment.get(snapshot.investmentId) ?? []), snapshot]);
+    });
+    for (const [investmentId, snapshots] of Array.from(byInvestment.entries())) {
+      await updateJson<SnapshotStore, void>(storeFor(investmentId), EMPTY_STORE, (store) => {
+        const known = new Set(store.snapshots.map((snapshot) => `${snapshot.period}|${snapshot.capturedAt}`));
+        const moved = snapshots.filter((snapshot) => !known.has(`${snapshot.period}|${snapshot.capturedAt}`));
+        return { value: { snapshots: [...moved, ...store.snapshots] }, result: undefined };
+      });
+    }
+    await updateJson<SnapshotStore, void>(LEGACY_STORE, EMPTY_STORE, () => ({ value: EMPTY_STORE, result: undefined }));
+  })().catch((error) => {
+    legacyMigration = null;
+    throw error;
+  });
+  return legacyMigration;
+}
+
+async function readSnapshots(investmentIds: Iterable<string>): Promise<NavSnapshot[]> {
+  await migrateLegacyStore();
+  const stores = await Promise.all(
+    Array.from(new Set(investmentIds)).map((id) => readJson<SnapshotStore>(storeFor(id), EMPTY_STORE))
+  );
+  return stores.flatMap((store) => store.snapshots);
+}
+
+function periodOf(fields: Record<string, any>): string | null {
+  for (const [key, value] of Object.entries(fields)) {
+    if (!PERIOD_FIELDS.includes(normalizeFieldKey(key))) continue;
+    const raw = Array.isArray(value) ? value[0] : value;
+    if (typeof raw !== "string" && typeof raw !== "number") continue;
+    const date = new Date(raw);
+    if (!Number.isNaN(date.getTime())) return date.toISOString().slice(0, 10);
+  }
+  return null;
+}
+
+function financialFields(fields: Record<string, any>) {
+  const kept: Record<string, any> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (SNAPSHOT_FIELDS.has(normalizeFieldKey(key))) kept[key] = value;
+  }
+  return kept;
+}
+
+function attachmentIdsOf(fields: Record<string, any>) {
+  const ids: string[] = [];
+  for (const value of Object.values(fields)) {
+    if (!Array.isArray(value)) continue;
+    value.forEach((entry) => {
+      if (entry && typeof entry === "object" && typeof entry.url === "string" && typeof entry.id === "string") {
+        ids.push(entry.id);
+      }
+    });
+  }
+  return ids.sort();
+}
+
+function sameFields(a: Record<string, any>, b: Record<string, any>) {
+  const keys = Object.keys(a).sort();
+  if (keys.join("\u0000") !== Object.keys(b).sort().join("\u0000")) return false;
+  return keys.every((key) => JSON.stringify(a[key]) === JSON.stringify(b[key]));
+}
+
+export type CaptureResult = { captured: number; unchanged: number; skipped: number };
+
+// Whether the snapshot says nothing the last one of its period did not.
+function repeatsLatest(store: SnapshotStore, snapshot: NavSnapshot) {
+  const previous = store.snapshots.filter((existing) => existing.period === snapshot.period).pop();
+  return Boolean(
+    previous &&
+      sameFields(previous.fields, snapshot.fields) &&
+      (previous.attachmentIds ?? []).join(",") === (snapshot.attachmentIds ?? []).join(",")
+  );
+}
+
+// Appends a snapshot for every Partner Investment (or just `recordIds`) whose
+// financial fields differ from the last snapshot of the same period. Records
+// without a period ending are skipped.
+export async function captureNavSnapshots(
+  options: { source?: SnapshotSource; recordIds?: string[] } = {}
+): Promise<CaptureResult> {
+  const wanted = options.recordIds ? new Set(options.recordIds) : null;
+  if (wanted && !wanted.size) return { captured: 0, unchanged: 0, skipped: 0 };
+
+  const records = (await getCachedTable(PARTNER_INVESTMENTS_TABLE)).filter((record) => !wanted || wanted.has(record.id));
+  const capturedAt = new Date().toISOString();
+  await migrateLegacyStore();
+
+  const result: CaptureResult = { captured: 0, unchanged: 0, skipped: 0 };
+  for (const record of records) {
+    const period = periodOf(record.fields || {});
+    const fields = financialFields(record.fields || {});
+    if (!period || !Object.keys(fields).length) {
+      result.skipped += 1;
+      continue;
+    }
+    const snapshot: NavSnapshot = {
+      investmentId: record.id,
+      period,
+      capturedAt,
+      source: options.source ?? "manual",
+      fields,
+      attachmentIds: attachmentIdsOf(record.fields || {}),
+    };
+    // Most runs change nothing, so files are only rewritten when they do.
+    const captured =
+      !repeatsLatest(await readJson<SnapshotStore>(storeFor(record.id), EMPTY_STORE), snapshot) &&
+      (await updateJson<SnapshotStore, boolean>(storeFor(record.id), EMPTY_STORE, (store) =>
+        repeatsLatest(store, snapshot)
+          ? { value: store, result: false }
+          : { value: { snapshots: [...store.snapshots, snapshot] }, result: true }
+      ));
+    if (captured) result.captured += 1;
+    else result.unchanged += 1;
+  }
+  return result;
+}
+
+export type HistoryPoint = {
+  // e.g. "2024-Q1"; periods are grouped by calendar quarter.
+  quarter: string;
+  periodEnd: string;
+  nav: number | null;
+  distributions: number | null;
+};
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string") {
+    const parsed = Number.parseFloat(value.replace(/[,$\s]/g, ""));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+export function isQuarterKey(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-Q[1-4]$/.test(value);
+}
+
+export function quarterEnd(quarter: string) {
+  const [year, q] = quarter.split("-Q").map(Number);
+  return new Date(Date.UTC(year, q * 3, 0)).toISOString().slice(0, 10);
+}
+
+export function quarterOf(period: string) {
+  const [year, month] = period.split("-").map(Number);
+  const key = `${year}-Q${Math.ceil(month / 3)}`;
+  return { key, end: quarterEnd(key) };
+}
+
+export function previousQuarter(quarter: string) {
+  const [year, q] = quarter.split("-Q").map(Number);
+  return q === 1 ? `${year - 1}-Q4` : `${year}-Q${q - 1}`;
+}
+
+// Fields of Partner Investments the role may see; null for admins.
+export async function allowedSnapshotFields(role: Role): Promise<Set<string> | null> {
+  if (isAdminRole(role)) return null;
+  return allowedFieldsFor(await getVisibilityPolicy(PARTNER_INVESTMENTS_TABLE), role);
+}
+
+export type SnapshotPeriod = { quarter: string; periodEnd: string };
+
+// Quarters any of the investments has a snapshot for, newest first.
+export async function listSnapshotQuarters(investmentIds: string[]): Promise<SnapshotPeriod[]> {
+  const quarters = new Map<string, string>();
+  for (const snapshot of await readSnapshots(investmentIds)) {
+    const { key, end } = quarterOf(snapshot.period);
+    quarters.set(key, end);
+  }
+  return Array.from(quarters, ([quarter, periodEnd]) => ({ quarter, periodEnd })).sort((a, b) =>
+    b.quarter.localeCompare(a.quarter)
+  );
+}
+
+// Each investment's statement as it stood at the end of the quarter: its
+// latest period up to then, in the last capture of that period. Investments
+// with no period by then are absent.
+export async function snapshotsAsOf(investmentIds: string[], quarter: string): Promise<Map<string, NavSnapshot>> {
+  const end = quarterEnd(quarter);
+  const result = new Map<string, NavSnapshot>();
+  for (const snapshot of await readSnapshots(investmentIds)) {
+    if (snapshot.period > end) continue;
+    const current = result.get(snapshot.investmentId);
+    if (!current || current.period <= snapshot.period) result.set(snapshot.investmentId, snapshot);
+  }
+  return result;
+}
+
+type Position = { nav: number | null; distributions: number | null };
+
+function positionOf(fields: Record<string, any>): Position {
+  const values: Record<string, any> = {};
+  for (const [key, value] of Object.entries(fields)) values[normalizeFieldKey(key)] = value;
+  const totalNav = toNumber(values["total nav"]);
+  const currentNav = toNumber(values["current nav"]);
+  return {
+    nav: totalNav !== null && totalNav > 0 ? totalNav : currentNav ?? totalNav,
+    distributions: toNumber(values["distributions"]),
+  };
+}
+
+// Quarter-end NAV and cumulative distributions across the given investments,
+// as the role may see them. An investment without a snapshot in some quarter
+// carries its last known figures forward; a series is null until any
+// investment reports it.
+export async function getNavHistory(investmentIds: string[], role: Role): Promise<HistoryPoint[]> {
+  const wanted = new Set(investmentIds);
+  if (!wanted.size) return [];
+
+  const [snapshots, allowed] = await Promise.all([readSnapshots(wanted), allowedSnapshotFields(role)]);
+
+  // The last capture of the last period in each quarter, per investment.
+  const byQuarter = new Map<string, { end: string; positions: Map<string, { period: string; position: Position }> }>();
+  for (const snapshot of snapshots) {
+    const { key, end } = quarterOf(snapshot.period);
+    const bucket = byQuarter.get(key) ?? { end, positions: new Map() };
+    const current = bucket.positions.get(snapshot.investmentId);
+    if (!current || current.period <= snapshot.period) {
+      bucket.positions.set(snapshot.investmentId, {
+        period: snapshot.period,
+        position: positionOf(filterFields(snapshot.fields, allowed)),
+      });
+    }
+    byQuarter.set(key, bucket);
+  }
+
+  const carried = new Map<string, Position>();
+  return Array.from(byQuarter.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([quarter, bucket]) => {
+      bucket.positions.forEach(({ position }, investmentId) => carried.set(investmentId, position));
+      let nav: number | null = null;
+      let distributions: number | null = null;
+      carried.forEach((position) => {
+        if (position.nav !== null) nav = (nav ?? 0) + position.nav;
+        if (position.distributions !== null) distributions = (distributions ?? 0) + position.distributions;
+      });
+      return { quarter, periodEnd: bucket.end, nav, distributions };
+    });
+}
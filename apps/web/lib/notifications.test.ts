@@ -0,0 +1,97 @@
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { NotificationDigest, NotificationTransport } from "./notifications";
+
+const airtable = vi.hoisted(() => ({ rows: [] as Array<{ id: string; fields: Record<string, any>; _rawJson: any }> }));
+
+vi.mock("./airtable", () => ({
+  PARTNER_INVESTMENTS_TABLE: "Partner Investments",
+  airtableLimiter: { schedule: (task: () => unknown) => task() },
+  recordModifiedTime: (record: { _rawJson?: { modifiedTime?: string } }) => record._rawJson?.modifiedTime ?? null,
+  selectAllRecords: async (_table: string, options?: { filterByFormula?: string }) => {
+    const formula = options?.filterByFormula;
+    return formula ? airtable.rows.filter((row) => formula.includes(`'${row.id}'`)) : airtable.rows;
+  },
+}));
+
+vi.mock("./lp-server", () => ({
+  applyVisibility: async (fields: Record<string, any>) => fields,
+  contactDisplayName: (contact: { fields: Record<string, any> }) => contact.fields.Name,
+  findContactsByIds: async (ids: string[]) =>
+    ids.map((id) => ({ id, fields: { Name: `Investor ${id}`, Email: `${id}@example.com` } })),
+  normEmail: (value: string) => value.trim().toLowerCase(),
+}));
+
+vi.mock("./user-directory", () => ({ resolveUserRole: async () => "lp" }));
+
+const dataDir = mkdtempSync(path.join(os.tmpdir(), "notifications-"));
+process.env.PORTAL_DATA_DIR = dataDir;
+
+const { runNotificationCycle, setNotificationTransport } = await import("./notifications");
+
+const delivered: NotificationDigest[] = [];
+const captureTransport: NotificationTransport = {
+  name: "capture",
+  async deliver(digest) {
+    delivered.push(digest);
+  },
+};
+
+function investment(id: string, attachmentIds: string[], modifiedTime = "2024-01-01T00:00:00.000Z") {
+  return {
+    id,
+    fields: {
+      Investment: `Fund ${id}`,
+      "Primary Contact": [`rec${id}Contact`],
+      "Quarterly Report": attachmentIds.map((attachmentId) => ({
+        id: attachmentId,
+        url: `https://files.example.com/${attachmentId}`,
+        filename: `${attachmentId}.pdf`,
+      })),
+    },
+    _rawJson: { modifiedTime },
+  };
+}
+
+describe("runNotificationCycle", () => {
+  beforeEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+    delivered.length = 0;
+    setNotificationTransport(captureTransport);
+  });
+
+  afterAll(() => {
+    setNotificationTransport(null);
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("treats a webhook scan before the first full scan as part of the baseline", async () => {
+    airtable.rows = [investment("A", ["attA1"]), investment("B", ["attB1"]), investment("C", ["attC1"])];
+
+    const partial = await runNotificationCycle("https://portal.example.com", { recordIds: ["A"] });
+    const full = await runNotificationCycle("https://portal.example.com");
+
+    expect(partial.queued).toBe(0);
+    expect(full.queued).toBe(0);
+    expect(delivered).toHaveLength(0);
+  });
+
+  it("notifies about new attachments once the baseline is complete", async () => {
+    airtable.rows = [investment("A", ["attA1"])];
+    await runNotificationCycle("https://portal.example.com");
+
+    airtable.rows = [
+      investment("A", ["attA1", "attA2"], "2024-02-01T00:00:00.000Z"),
+      investment("D", ["attD1"]),
+    ];
+    const result = await runNotificationCycle("https://portal.example.com", { recordIds: ["A", "D"] });
+
+    expect(result.queued).toBe(2);
+    expect(delivered.map((digest) => [digest.email, digest.documents.map((doc) => doc.documentName)])).toEqual([
+      ["recacontact@example.com", ["attA2.pdf"]],
+      ["recdcontact@example.com", ["attD1.pdf"]],
+    ]);
+  });
+});
@@ -0,0 +1,369 @@
+import {
+  PARTNER_INVESTMENTS_TABLE,
+  airtableLimiter,
+  recordModifiedTime,
+  selectAllRecords,
+  type AirtableRecord,
+} from "./airtable";
+import { DOCUMENT_CATEGORY_LABELS, categorizeDocument, type DocumentCategory } from "./document-taxonomy";
+import type { Role } from "./is-admin";
+import { readJson, updateJson } from "./json-store";
+import { attachmentFilename, isAttachment, resolveInvestmentName, type Attachment } from "./lp-documents";
+import { applyVisibility, contactDisplayName, findContactsByIds, normEmail } from "./lp-server";
+import { sendMail } from "./mail";
+import { resolveUserRole } from "./user-directory";
+
+export type NotificationFrequency = "immediate" | "weekly" | "off";
+
+export const NOTIFICATION_FREQUENCIES: readonly NotificationFrequency[] = ["immediate", "weekly", "off"];
+
+export const DEFAULT_NOTIFICATION_FREQUENCY: NotificationFrequency = "immediate";
+
+export function isNotificationFrequency(value: unknown): value is NotificationFrequency {
+  return typeof value === "string" && (NOTIFICATION_FREQUENCIES as readonly string[]).includes(value);
+}
+
+export type DocumentNotice = {
+  recordId: string;
+  investmentName: string;
+  field: string;
+  documentName: string;
+  category: DocumentCategory;
+  detectedAt: string;
+};
+
+export type NotificationDigest = {
+  email: string;
+  recipientName: string;
+  frequency: Exclude<NotificationFrequency, "off">;
+  documents: DocumentNotice[];
+  portalUrl: string;
+};
+
+// Delivery is pluggable so digests can go somewhere other than email (or be
+// captured) without touching detection or batching.
+export interface NotificationTransport {
+  readonly name: string;
+  deliver(digest: NotificationDigest): Promise<void>;
+}
+
+const FINGERPRINT_STORE = "document-fingerprints";
+const QUEUE_STORE = "notification-queue";
+const PREFERENCES_STORE = "notification-preferences";
+
+const WEEKLY_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+const LOOKUP_CHUNK = 50;
+const CONTACT_LINK_FIELDS = ["Primary Contact", "PRIMARY CONTACT"];
+
+// `baselineCompletedAt` is set by the first full scan. Until then a record with
+// no fingerprint is baselined silently, whichever scan first sees it.
+type FingerprintStore = {
+  records: Record<string, { updatedTime: string | null; attachments: string[] }>;
+  baselineCompletedAt?: string;
+};
+
+type QueuedNotice = DocumentNotice & {
+  email: string;
+  recipientName: string;
+};
+
+type QueueStore = {
+  pending: QueuedNotice[];
+  lastWeeklyDigestAt: Record<string, string>;
+};
+
+type PreferenceStore = Record<string, { frequency: NotificationFrequency; updatedAt: string }>;
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function describeNotice(notice: DocumentNotice) {
+  return `${notice.investmentName}: ${DOCUMENT_CATEGORY_LABELS[notice.category]} (${notice.documentName})`;
+}
+
+class EmailNotificationTransport implements NotificationTransport {
+  readonly name = "email";
+
+  async deliver(digest: NotificationDigest) {
+    const count = digest.documents.length;
+    const subject =
+      digest.frequency === "weekly"
+        ? "Your weekly JBV document digest"
+        : count === 1
+          ? `New document available: ${digest.documents[0]!.documentName}`
+          : `${count} new documents are available`;
+    const intro =
+      count === 1
+        ? "A new document has been posted to the JBV Investment Platform:"
+        : `${count} new documents have been posted to the JBV Investment Platform:`;
+    const footer = "You can change how often we email you about new documents from the Documents page.";
+
+    await sendMail({
+      to: digest.email,
+      subject,
+      text: [
+        `Hello ${digest.recipientName},`,
+        "",
+        intro,
+        "",
+        ...digest.documents.map((notice) => `- ${describeNotice(notice)}`),
+        "",
+        digest.portalUrl,
+        "",
+        footer,
+      ].join("\n"),
+      html: `<p>Hello ${escapeHtml(digest.recipientName)},</p><p>${intro}</p><ul>${digest.documents
+        .map((notice) => `<li>${escapeHtml(describeNotice(notice))}</li>`)
+        .join("")}</ul><p><a href="${digest.portalUrl}">Open your documents</a></p><p>${footer}</p>`,
+    });
+  }
+}
+
+let transport: NotificationTransport | null = null;
+
+export function getNotificationTransport(): NotificationTransport {
+  if (!transport) transport = new EmailNotificationTransport();
+  return transport;
+}
+
+export function setNotificationTransport(next: NotificationTransport | null) {
+  transport = next;
+}
+
+export async function getNotificationPreference(email: string): Promise<NotificationFrequency> {
+  const store = await readJson<PreferenceStore>(PREFERENCES_STORE, {});
+  return store[normEmail(email)]?.frequency ?? DEFAULT_NOTIFICATION_FREQUENCY;
+}
+
+export async function setNotificationPreference(email: string, frequency: NotificationFrequency) {
+  const key = normEmail(email);
+  await updateJson<PreferenceStore, void>(PREFERENCES_STORE, {}, (store) => ({
+    value: { ...store, [key]: { frequency, updatedAt: new Date().toISOString() } },
+    result: undefined,
+  }));
+}
+
+type AttachmentRef = { field: string; attachment: Attachment; fingerprint: string };
+
+// Attachment ids change when a file is replaced, so a re-uploaded "Latest PCAP
+// File" counts as new. Signed URLs rotate and are never part of the key.
+function collectAttachments(fields: Record<string, any>): AttachmentRef[] {
+  const refs: AttachmentRef[] = [];
+  for (const [field, value] of Object.entries(fields || {})) {
+    if (!Array.isArray(value)) continue;
+    for (const attachment of value) {
+      if (!isAttachment(attachment)) continue;
+      const key = attachment.id || `${attachmentFilename(attachment)}|${attachment.size ?? ""}`;
+      refs.push({ field, attachment, fingerprint: `${field}|${key}` });
+    }
+  }
+  return refs;
+}
+
+function linkedContactIds(fields: Record<string, any>): string[] {
+  for (const name of CONTACT_LINK_FIELDS) {
+    const value = fields[name];
+    if (Array.isArray(value) && value.length) return value.filter((id) => typeof id === "string");
+  }
+  return [];
+}
+
+type AttachmentChange = { record: AirtableRecord; added: AttachmentRef[] };
+
+async function loadPartnerInvestments(recordIds?: string[]): Promise<AirtableRecord[]> {
+  if (!recordIds) {
+    return (await airtableLimiter.schedule(() => selectAllRecords(PARTNER_INVESTMENTS_TABLE))) as AirtableRecord[];
+  }
+  const unique = Array.from(new Set(recordIds.filter(Boolean)));
+  const records: AirtableRecord[] = [];
+  for (let i = 0; i < unique.length; i += LOOKUP_CHUNK) {
+    const formula = `OR(${unique
+      .slice(i, i + LOOKUP_CHUNK)
+      .map((id) => `RECORD_ID() = '${id.replace(/'/g, "''")}'`)
+      .join(", ")})`;
+    const chunk = await airtableLimiter.schedule(() =>
+      selectAllRecords(PARTNER_INVESTMENTS_TABLE, { filterByFormula: formula })
+    );
+    records.push(...(chunk as AirtableRecord[]));
+  }
+  return records;
+}
+
+// Compares Partner Investment attachments with the fingerprints from the
+// previous scan. Records whose modified time has not moved are skipped. Until a
+// full scan has completed, records without a fingerprint only establish a
+// baseline; after that, every attachment on a newly created record is new. A
+// full scan also forgets deleted records; a scan of specific records leaves
+// the rest as-is.
+async function detectNewAttachments(recordIds?: string[]): Promise<AttachmentChange[]> {
+  const records = await loadPartnerInvestments(recordIds);
+
+  return updateJson<FingerprintStore, AttachmentChange[]>(FINGERPRINT_STORE, { records: {} }, (store) => {
+    const next: FingerprintStore["records"] = recordIds ? { ...store.records } : {};
+    const changes: AttachmentChange[] = [];
+    const hasBaseline = Boolean(store.baselineCompletedAt);
+
+    for (const record of records) {
+      const updatedTime = recordModifiedTime(record);
+      const previous = store.records[record.id];
+      if (previous && updatedTime && previous.updatedTime === updatedTime) {
+        next[record.id] = previous;
+        continue;
+      }
+
+      const current = collectAttachments(record.fields as Record<string, any>);
+      if (previous || hasBaseline) {
+        const known = new Set(previous?.attachments ?? []);
+        const added = current.filter((ref) => !known.has(ref.fingerprint));
+        if (added.length) changes.push({ record, added });
+      }
+      next[record.id] = { updatedTime, attachments: current.map((ref) => ref.fingerprint) };
+    }
+
+    const baselineCompletedAt = store.baselineCompletedAt ?? (recordIds ? undefined : new Date().toISOString());
+    return { value: { records: next, baselineCompletedAt }, result: changes };
+  });
+}
+
+async function loadContacts(ids: string[]) {
+  const unique = Array.from(new Set(ids));
+  const contacts = new Map<string, { id: string; fields: Record<string, any> }>();
+  for (let i = 0; i < unique.length; i += LOOKUP_CHUNK) {
+    const found = await findContactsByIds(unique.slice(i, i + LOOKUP_CHUNK));
+    found.forEach((contact) => contacts.set(contact.id, contact));
+  }
+  return contacts;
+}
+
+// Turns new attachments into one queued notice per (Contact email, document),
+// keeping only files in fields the recipient's role is allowed to see.
+async function queueNotices(changes: AttachmentChange[], now: Date) {
+  if (!changes.length) return 0;
+
+  const contacts = await loadContacts(changes.flatMap(({ record }) => linkedContactIds(record.fields)));
+  const roles = new Map<string, Role>();
+  const notices: QueuedNotice[] = [];
+
+  for (const { record, added } of changes) {
+    const fields = record.fields as Record<string, any>;
+    for (const contactId of linkedContactIds(fields)) {
+      const contact = contacts.get(contactId);
+      const email = normEmail(String(contact?.fields?.Email || ""));
+      if (!contact || !email) continue;
+
+      if (!roles.has(email)) roles.set(email, await resolveUserRole(email));
+      const visible = await applyVisibility(fields, roles.get(email)!);
+
+      for (const ref of added) {
+        if (!Object.prototype.hasOwnProperty.call(visible, ref.field)) continue;
+        const documentName = attachmentFilename(ref.attachment);
+        notices.push({
+          email,
+          recipientName: String(contactDisplayName(contact) || email),
+          recordId: record.id,
+          investmentName: resolveInvestmentName(fields) || "your investment",
+          field: ref.field,
+          documentName,
+          category: categorizeDocument(ref.field, documentName),
+          detectedAt: now.toISOString(),
+        });
+      }
+    }
+  }
+
+  if (notices.length) {
+    await updateJson<QueueStore, void>(QUEUE_STORE, { pending: [], lastWeeklyDigestAt: {} }, (queue) => ({
+      value: { ...queue, pending: [...queue.pending, ...notices] },
+      result: undefined,
+    }));
+  }
+  return notices.length;
+}
+
+export type DeliveryResult = { sent: number; deferred: number; dropped: number; failed: number };
+
+// Sends one digest per recipient. Immediate recipients get everything queued
+// since the last run; weekly recipients once a week has passed since their last
+// digest (or since their oldest pending notice). A failed send stays queued.
+export async function deliverNotifications(portalUrl: string, now = new Date()): Promise<DeliveryResult> {
+  const preferences = await readJson<PreferenceStore>(PREFERENCES_STORE, {});
+  const transport = getNotificationTransport();
+
+  return updateJson<QueueStore, DeliveryResult>(
+    QUEUE_STORE,
+    { pending: [], lastWeeklyDigestAt: {} },
+    async (queue) => {
+      const result: DeliveryResult = { sent: 0, deferred: 0, dropped: 0, failed: 0 };
+      const byEmail = new Map<string, QueuedNotice[]>();
+      queue.pending.forEach((notice) => {
+        const list = byEmail.get(notice.email) ?? [];
+        list.push(notice);
+        byEmail.set(notice.email, list);
+      });
+
+      const pending: QueuedNotice[] = [];
+      const lastWeeklyDigestAt = { ...queue.lastWeeklyDigestAt };
+
+      for (const [email, notices] of Array.from(byEmail.entries())) {
+        const frequency = preferences[email]?.frequency ?? DEFAULT_NOTIFICATION_FREQUENCY;
+        if (frequency === "off") {
+          result.dropped += notices.length;
+          continue;
+        }
+        if (frequency === "weekly") {
+          const since = lastWeeklyDigestAt[email] ?? notices.map((notice) => notice.detectedAt).sort()[0]!;
+          if (now.getTime() - Date.parse(since) < WEEKLY_INTERVAL_MS) {
+            pending.push(...notices);
+            result.deferred += notices.length;
+            continue;
+          }
+        }
+
+        try {
+          await transport.deliver({
+            email,
+            recipientName: notices[0]!.recipientName,
+            frequency,
+            documents: notices.map(({ email: _email, recipientName: _name, ...notice }) => notice),
+            portalUrl,
+          });
+          if (frequency === "weekly") lastWeeklyDigestAt[email] = now.toISOString();
+          result.sent += 1;
+        } catch (error) {
+          console.error(`[notifications] Failed to deliver digest via ${transport.name}`, error);
+          pending.push(...notices);
+          result.failed += 1;
+        }
+      }
+
+      return { value: { pending, lastWeeklyDigestAt }, result };
+    }
+  );
+}
+
+export type NotificationRunResult = DeliveryResult & { changedRecords: number; queued: number };
+
+let queue: Promise<unknown> = Promise.resolve();
+
+// Detect, queue and deliver in one pass; `recordIds` limits detection to those
+// Partner Investments (webhook-driven runs). Runs are serialized so a cron scan
+// and a webhook run never diff against the same fingerprints at once.
+export function runNotificationCycle(
+  portalUrl: string,
+  options: { recordIds?: string[]; now?: Date } = {}
+): Promise<NotificationRunResult> {
+  const run = queue.catch(() => undefined).then(async () => {
+    const now = options.now ?? new Date();
+    const changes = await detectNewAttachments(options.recordIds);
+    const queued = await queueNotices(changes, now);
+    const delivery = await deliverNotifications(portalUrl, now);
+    return { changedRecords: changes.length, queued, ...delivery };
+  });
+  queue = run;
+  return run;
+}
@@ -0,0 +1,61 @@
+import { PDFDocument, StandardFonts, degrees, rgb } from "pdf-lib";
+
+export type WatermarkStamp = {
+  investorName: string;
+  email: string;
+  downloadedAt: Date;
+  // Recorded on the matching Document Access Log row, so a leaked copy can be
+  // traced back to the download that produced it.
+  documentId: string;
+};
+
+export const DOCUMENT_ID_KEYWORD_PREFIX = "jbv-document-id:";
+
+// Helvetica only covers WinAnsi; anything else would make pdf-lib throw.
+function toWinAnsi(text: string) {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+export async function watermarkPdf(bytes: Uint8Array, stamp: WatermarkStamp): Promise<Uint8Array> {
+  const pdf = await PDFDocument.load(bytes, { updateMetadata: false });
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+
+  const footer = toWinAnsi(
+    `Confidential - prepared for ${stamp.investorName} (${stamp.email}) - downloaded ${stamp.downloadedAt.toISOString()}`
+  );
+  const diagonal = toWinAnsi(stamp.investorName);
+
+  for (const page of pdf.getPages()) {
+    const { width, height } = page.getSize();
+
+    const footerSize = Math.max(6, Math.min(8, width / 100));
+    page.drawText(footer, {
+      x: 24,
+      y: 14,
+      size: footerSize,
+      font,
+      color: rgb(0.35, 0.35, 0.35),
+      maxWidth: width - 48,
+    });
+
+    const diagonalSize = Math.min(48, (Math.hypot(width, height) * 0.6) / Math.max(diagonal.length, 1) / 0.55);
+    const textWidth = font.widthOfTextAtSize(diagonal, diagonalSize);
+    const angle = Math.atan2(height, width);
+    page.drawText(diagonal, {
+      x: width / 2 - (Math.cos(angle) * textWidth) / 2,
+      y: height / 2 - (Math.sin(angle) * textWidth) / 2,
+      size: diagonalSize,
+      font,
+      color: rgb(0.5, 0.5, 0.5),
+      opacity: 0.12,
+      rotate: degrees((angle * 180) / Math.PI),
+    });
+  }
+
+  const keywords = (pdf.getKeywords() || "")
+    .split(/[;,]\s*|\s+/)
+    .filter((keyword) => keyword && !keyword.startsWith(DOCUMENT_ID_KEYWORD_PREFIX));
+  pdf.setKeywords([...keywords, `${DOCUMENT_ID_KEYWORD_PREFIX}${stamp.documentId}`]);
+
+  return pdf.save();
+}
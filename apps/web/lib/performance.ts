@@ -0,0 +1,161 @@
+import { normalizeFieldKey } from "./airtable-shared";
+import { ledgerTotals, signedAmount, type Transaction } from "./transactions";
+import { xirr, type CashFlow } from "./xirr";
+
+// Cash flows come from an investment's transaction ledger when the viewer can
+// see one. Otherwise they are rebuilt from the totals on Partner Investments:
+// paid-in capital spread evenly over the "Paid Dates", distributions dated
+// when reported. Either way NAV is the terminal value at the period end, and
+// only fields the viewer can see are used: without a visible NAV or paid-in
+// figure there are no flows, and so no IRR.
+const PAID_IN_FIELDS = ["paid-in capital", "paid in capital", "contributed capital", "capital contributed", "contributed"];
+const CONTRIBUTED_RATIO_FIELD = "contributed / total lp commitment";
+const CONTRIBUTION_DATE_FIELDS = ["paid dates", "paid date", "investment date", "close date"];
+const DISTRIBUTION_DATE_FIELDS = ["distribution dates", "distribution date"];
+const VALUATION_DATE_FIELDS = ["period ending", "as of date"];
+
+function num(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string") {
+    const parsed = Number.parseFloat(value.replace(/[,$%\s]/g, ""));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  if (Array.isArray(value) && value.length === 1) return num(value[0]);
+  return null;
+}
+
+function parseDates(value: unknown): Date[] {
+  const parts = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[,;\n]+/) : [value];
+  return parts
+    .map((part) => (typeof part === "string" ? part.trim() : part))
+    .filter((part): part is string | number => typeof part === "string" ? part.length > 0 : typeof part === "number")
+    .map((part) => new Date(part))
+    .filter((date) => !Number.isNaN(date.getTime()))
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+function normalized(fields: Record<string, any>) {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(fields || {})) result[normalizeFieldKey(key)] = value;
+  return result;
+}
+
+function firstValue(fields: Record<string, any>, candidates: string[]) {
+  for (const key of candidates) {
+    if (fields[key] !== undefined && fields[key] !== null && fields[key] !== "") return fields[key];
+  }
+  return undefined;
+}
+
+// Paid-in capital as reported: a paid-in field, or the commitment times the
+// contributed share. Null when neither is visible.
+function reportedPaidIn(fields: Record<string, any>) {
+  const paidIn = num(firstValue(fields, PAID_IN_FIELDS));
+  if (paidIn !== null) return Math.abs(paidIn);
+  const commitment = num(fields["commitment"]);
+  const ratio = num(fields[CONTRIBUTED_RATIO_FIELD]);
+  if (commitment === null || ratio === null) return null;
+  // Shown either as a fraction or as a percentage.
+  return Math.abs(commitment) * (ratio > 1 ? ratio / 100 : ratio);
+}
+
+// Null when neither NAV field is visible, which is not the same as a zero.
+function terminalValue(fields: Record<string, any>) {
+  if (fields["total nav"] === undefined && fields["current nav"] === undefined) return null;
+  const totalNav = num(fields["total nav"]) ?? 0;
+  const currentNav = num(fields["current nav"]) ?? 0;
+  return totalNav > 0 ? totalNav : currentNav;
+}
+
+function presentNumber(fields: Record<string, any>, key: string) {
+  return Object.prototype.hasOwnProperty.call(fields, key) ? num(fields[key]) ?? 0 : null;
+}
+
+export type InvestmentPosition = {
+  commitment: number | null;
+  paidIn: number | null;
+  distributions: number | null;
+  nav: number | null;
+  netMoic: number | null;
+};
+
+// Ledger entries that say how much moved, and which way.
+function usableLedger(transactions?: Transaction[]) {
+  return (transactions ?? []).filter((transaction) => signedAmount(transaction) !== null);
+}
+
+export type PerformanceInput = {
+  fields: Record<string, any>;
+  transactions?: Transaction[];
+};
+
+// The amounts behind the portfolio metrics. A null means the viewer cannot see
+// the field(s) it comes from, which is not the same as a zero.
+export function investmentPosition({ fields, transactions }: PerformanceInput): InvestmentPosition {
+  const values = normalized(fields);
+  const ledger = usableLedger(transactions);
+  const totals = ledger.length ? ledgerTotals(ledger) : null;
+  return {
+    commitment: presentNumber(values, "commitment"),
+    paidIn: totals ? totals.contributed + totals.fees : reportedPaidIn(values),
+    distributions: totals ? totals.distributed + totals.recallable : presentNumber(values, "distributions"),
+    nav: terminalValue(values),
+    netMoic: presentNumber(values, "net moic") ?? presentNumber(values, "moic"),
+  };
+}
+
+function valuationDateOf(values: Record<string, any>, now: Date) {
+  return parseDates(firstValue(values, VALUATION_DATE_FIELDS)).pop() ?? now;
+}
+
+function ledgerCashFlows(ledger: Transaction[], values: Record<string, any>, now: Date): CashFlow[] {
+  const nav = terminalValue(values);
+  if (nav === null) return [];
+  const flows: CashFlow[] = [];
+  for (const transaction of ledger) {
+    const amount = signedAmount(transaction);
+    if (!amount || !transaction.date) continue;
+    flows.push({ date: new Date(transaction.date), amount });
+  }
+  if (flows.length && nav > 0) flows.push({ date: valuationDateOf(values, now), amount: nav });
+  return flows;
+}
+
+// The dated flows one Partner Investment implies; empty when its contributions
+// cannot be dated or its NAV is hidden.
+export function cashFlowsForInvestment({ fields, transactions }: PerformanceInput, now = new Date()): CashFlow[] {
+  const values = normalized(fields);
+  const ledger = usableLedger(transactions);
+  if (ledger.length) return ledgerCashFlows(ledger, values, now);
+
+  const paidIn = reportedPaidIn(values);
+  const contributionDates = parseDates(firstValue(values, CONTRIBUTION_DATE_FIELDS));
+  const nav = terminalValue(values);
+  if (!paidIn || !contributionDates.length || nav === null) return [];
+
+  const valuationDate = valuationDateOf(values, now);
+  const flows: CashFlow[] = contributionDates.map((date) => ({
+    date,
+    amount: -paidIn / contributionDates.length,
+  }));
+
+  const distributions = num(values["distributions"]);
+  if (distributions) {
+    const dates = parseDates(firstValue(values, DISTRIBUTION_DATE_FIELDS));
+    const when = dates.length ? dates : [valuationDate];
+    when.forEach((date) => flows.push({ date, amount: Math.abs(distributions) / when.length }));
+  }
+
+  if (nav > 0) flows.push({ date: valuationDate, amount: nav });
+  return flows;
+}
+
+export function investmentIrr(input: PerformanceInput, now = new Date()): number | null {
+  return xirr(cashFlowsForInvestment(input, now));
+}
+
+// One IRR over every investment's flows pooled together, so each position
+// weighs in by the capital behind it.
+export function portfolioIrr(rows: PerformanceInput[], now = new Date()): number | null {
+  return xirr(rows.flatMap((row) => cashFlowsForInvestment(row, now)));
+}
@@ -0,0 +1,63 @@
+// Shared by PUT /api/record and the admin grid's merge dialog.
+
+export type FieldDiff = {
+  field: string;
+  // What the editor last saw, when the client sent it.
+  base?: unknown;
+  // The value currently stored in Airtable.
+  theirs: unknown;
+  // The value the editor tried to save; absent for fields they did not touch.
+  yours?: unknown;
+  // True when the editor's change and someone else's change collide.
+  conflicting: boolean;
+};
+
+export type ConflictResponse = {
+  error: "Conflict";
+  latest: { id: string; fields: Record<string, any>; _updatedTime: string | null };
+  diff: FieldDiff[];
+};
+
+// Accepts the ISO strings the grid stores as well as epoch milliseconds.
+export function toModifiedTimeMs(value: unknown): number | null {
+  if (value == null || value === "") return null;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string") {
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) return numeric;
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+export function isSameFieldValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Fields the editor is saving, plus any field they had seen that has since
+// changed underneath them.
+export function diffRecordFields(
+  latest: Record<string, unknown>,
+  yours: Record<string, unknown>,
+  base?: Record<string, unknown> | null
+): FieldDiff[] {
+  const names = new Set([...Object.keys(yours), ...Object.keys(base ?? {})]);
+  const diff: FieldDiff[] = [];
+  for (const field of Array.from(names)) {
+    const edited = Object.prototype.hasOwnProperty.call(yours, field);
+    const hasBase = Boolean(base && Object.prototype.hasOwnProperty.call(base, field));
+    const changedElsewhere = hasBase ? !isSameFieldValue(base![field], latest[field]) : true;
+    if (!edited && !changedElsewhere) continue;
+
+    const entry: FieldDiff = {
+      field,
+      theirs: latest[field] ?? null,
+      conflicting: edited && changedElsewhere && !isSameFieldValue(yours[field], latest[field]),
+    };
+    if (hasBase) entry.base = base![field];
+    if (edited) entry.yours = yours[field];
+    diff.push(entry);
+  }
+  return diff;
+}
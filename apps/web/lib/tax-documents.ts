@@ -0,0 +1,99 @@
+import { categorizeDocument } from "./document-taxonomy";
+import { attachmentFilename, isAttachment, resolveInvestmentName } from "./lp-documents";
+import type { InvestmentRecord } from "./lp-server";
+
+export const TAX_YEAR_FIELD = "Investment Year (K-1 Formula)";
+
+// "expected": the tax year has closed and no K-1 is posted yet.
+// "not-due": the tax year is still open, so no K-1 can exist yet.
+export type K1Status = "posted" | "expected" | "not-due";
+
+export type TaxDocument = {
+  name: string;
+  size?: number;
+  type?: string;
+  investmentId: string;
+  field: string;
+  index: number;
+};
+
+export type TaxInvestment = {
+  investmentId: string;
+  investmentName: string;
+  status: K1Status;
+  documents: TaxDocument[];
+};
+
+export type TaxYearGroup = {
+  taxYear: number | null;
+  expectedBy: string | null;
+  investments: TaxInvestment[];
+};
+
+export function resolveTaxYear(value: any): number | null {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (typeof raw === "number" && Number.isInteger(raw)) return raw;
+  const match = typeof raw === "string" ? raw.match(/\b(19|20)\d{2}\b/) : null;
+  return match ? Number(match[0]) : null;
+}
+
+// Partnerships on extension must issue K-1s by September 15 of the following year.
+export function k1ExpectedBy(taxYear: number) {
+  return `${taxYear + 1}-09-15`;
+}
+
+function collectK1Documents(record: InvestmentRecord): TaxDocument[] {
+  const documents: TaxDocument[] = [];
+  for (const [field, value] of Object.entries(record.fields || {})) {
+    if (!Array.isArray(value)) continue;
+    value.forEach((entry, index) => {
+      if (!isAttachment(entry) || categorizeDocument(field, attachmentFilename(entry)) !== "k1") return;
+      documents.push({
+        name: attachmentFilename(entry),
+        size: entry.size,
+        type: entry.type,
+        investmentId: record.id,
+        field,
+        index,
+      });
+    });
+  }
+  return documents;
+}
+
+// Groups K-1s by tax year. Investments with a tax year but no K-1 are kept so
+// the page can flag what is still outstanding; records with neither are
+// left out.
+export function buildTaxDocumentCenter(records: InvestmentRecord[], now = new Date()): TaxYearGroup[] {
+  const currentYear = now.getFullYear();
+  const groups = new Map<number | null, TaxInvestment[]>();
+
+  for (const record of records) {
+    const fields = record.fields || {};
+    const taxYear = resolveTaxYear(fields[TAX_YEAR_FIELD]);
+    const documents = collectK1Documents(record);
+    if (taxYear === null && !documents.length) continue;
+
+    const status: K1Status = documents.length
+      ? "posted"
+      : taxYear !== null && taxYear < currentYear
+        ? "expected"
+        : "not-due";
+    const investments = groups.get(taxYear) ?? [];
+    investments.push({
+      investmentId: record.id,
+      investmentName: resolveInvestmentName(fields) || "Unassigned Investment",
+      status,
+      documents,
+    });
+    groups.set(taxYear, investments);
+  }
+
+  return Array.from(groups.entries())
+    .map(([taxYear, investments]) => ({
+      taxYear,
+      expectedBy: taxYear === null ? null : k1ExpectedBy(taxYear),
+      investments: investments.sort((a, b) => a.investmentName.localeCompare(b.investmentName)),
+    }))
+    .sort((a, b) => (b.taxYear ?? Number.NEGATIVE_INFINITY) - (a.taxYear ?? Number.NEGATIVE_INFINITY));
+}
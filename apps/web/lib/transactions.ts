@@ -0,0 +1,152 @@
+import { TRANSACTIONS_TABLE } from "./airtable";
+import { getCachedTable } from "./data-access";
+import type { Role } from "./is-admin";
+import { allowedFieldsFor, filterFields, getVisibilityPolicy } from "./visibility-policy";
+
+// Investment Transactions table columns: Partner Investment (link), Type,
+// Date, Amount, Description. Amounts are entered as positive numbers; the
+// type decides which way the money moves.
+const FIELDS = {
+  investment: "Partner Investment",
+  type: "Type",
+  date: "Date",
+  amount: "Amount",
+  description: "Description",
+};
+
+export type TransactionType = "capital-call" | "contribution" | "distribution" | "fee" | "recallable";
+
+export const TRANSACTION_TYPES: TransactionType[] = ["capital-call", "contribution", "distribution", "fee", "recallable"];
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  "capital-call": "Capital call",
+  contribution: "Contribution",
+  distribution: "Distribution",
+  fee: "Fee",
+  recallable: "Recallable distribution",
+};
+
+export function isTransactionType(value: unknown): value is TransactionType {
+  return typeof value === "string" && (TRANSACTION_TYPES as string[]).includes(value);
+}
+
+// Airtable single-select labels, matched loosely.
+const TYPE_PATTERNS: Array<[TransactionType, RegExp]> = [
+  ["recallable", /recall/],
+  ["capital-call", /capital[\s_-]*call|drawdown|call[\s_-]*notice/],
+  ["contribution", /contribut|paid[\s_-]*in|funding/],
+  ["distribution", /distribut|return[\s_-]*of[\s_-]*capital/],
+  ["fee", /fee|expense/],
+];
+
+function toTransactionType(value: unknown): TransactionType | null {
+  const label = String(value ?? "").toLowerCase();
+  return TYPE_PATTERNS.find(([, pattern]) => pattern.test(label))?.[0] ?? null;
+}
+
+// A ledger entry as a viewer receives it: anything visibility hides is absent.
+export type Transaction = {
+  id: string;
+  investmentId: string;
+  type: TransactionType | null;
+  date: string | null;
+  amount: number | null;
+  description: string | null;
+};
+
+// Cash from the investor's side. A capital call is a notice of a contribution
+// to come, so it moves no money itself.
+export function signedAmount(transaction: Pick<Transaction, "type" | "amount">): number | null {
+  if (transaction.amount === null || !transaction.type) return null;
+  const amount = Math.abs(transaction.amount);
+  switch (transaction.type) {
+    case "contribution":
+    case "fee":
+      return -amount;
+    case "distribution":
+    case "recallable":
+      return amount;
+    default:
+      return 0;
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string") {
+    const parsed = Number.parseFloat(value.replace(/[,$\s]/g, ""));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+// Until any rule exists for the ledger table its standard columns are shown;
+// once an admin adds rules, they decide like they do for Partner Investments.
+async function ledgerFieldsFor(role: Role): Promise<Set<string> | null> {
+  const policy = await getVisibilityPolicy(TRANSACTIONS_TABLE);
+  if (!policy.rules.length) return null;
+  return allowedFieldsFor(policy, role);
+}
+
+// The ledger entries of the given Partner Investments, oldest first, with the
+// role's visibility applied. Entries whose type is hidden or unrecognised
+// still appear, without a type.
+export async function loadTransactions(investmentIds: string[], role: Role): Promise<Transaction[]> {
+  const wanted = new Set(investmentIds);
+  if (!wanted.size) return [];
+
+  const [records, allowed] = await Promise.all([getCachedTable(TRANSACTIONS_TABLE), ledgerFieldsFor(role)]);
+  const transactions: Transaction[] = [];
+  for (const record of records) {
+    const links = record.fields[FIELDS.investment];
+    const investmentId = Array.isArray(links) ? links.find((id) => wanted.has(id)) : undefined;
+    if (!investmentId) continue;
+
+    const fields = filterFields(record.fields, allowed);
+    const date = typeof fields[FIELDS.date] === "string" ? fields[FIELDS.date] : null;
+    transactions.push({
+      id: record.id,
+      investmentId,
+      type: fields[FIELDS.type] !== undefined ? toTransactionType(fields[FIELDS.type]) : null,
+      date: date && !Number.isNaN(Date.parse(date)) ? date : null,
+      amount: toNumber(fields[FIELDS.amount]),
+      description: typeof fields[FIELDS.description] === "string" ? fields[FIELDS.description] : null,
+    });
+  }
+
+  return transactions.sort((a, b) => (a.date ? Date.parse(a.date) : 0) - (b.date ? Date.parse(b.date) : 0));
+}
+
+export function groupByInvestment(transactions: Transaction[]) {
+  const grouped = new Map<string, Transaction[]>();
+  for (const transaction of transactions) {
+    const list = grouped.get(transaction.investmentId) ?? [];
+    list.push(transaction);
+    grouped.set(transaction.investmentId, list);
+  }
+  return grouped;
+}
+
+export type LedgerTotals = {
+  contributed: number;
+  distributed: number;
+  fees: number;
+  recallable: number;
+  called: number;
+  net: number;
+};
+
+export function ledgerTotals(transactions: Transaction[]): LedgerTotals {
+  const totals: LedgerTotals = { contributed: 0, distributed: 0, fees: 0, recallable: 0, called: 0, net: 0 };
+  for (const transaction of transactions) {
+    if (transaction.amount === null || !transaction.type) continue;
+    const amount = Math.abs(transaction.amount);
+    if (transaction.type === "contribution") totals.contributed += amount;
+    if (transaction.type === "distribution") totals.distributed += amount;
+    if (transaction.type === "fee") totals.fees += amount;
+    if (transaction.type === "recallable") totals.recallable += amount;
+    if (transaction.type === "capital-call") totals.called += amount;
+    totals.net += signedAmount(transaction) ?? 0;
+  }
+  return totals;
+}
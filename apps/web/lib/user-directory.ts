@@ -0,0 +1,151 @@
+import { PORTAL_USERS_TABLE, airtableLimiter, base } from "./airtable";
+import { getCachedTable, invalidateTable } from "./data-access";
+import { isEmailInAirtableContacts } from "./auth-helpers";
+import { hasActiveDelegation } from "./delegations";
+import { isAdmin, isRole, type Role } from "./is-admin";
+
+// Portal Users table columns: Email, Role, Granted By, Granted At, Notes,
+// Revoked At. Revoking keeps the entry with a Revoked At stamp, so it still
+// outranks the ADMIN_EMAILS bootstrap list.
+export type PortalUser = {
+  id: string;
+  email: string;
+  role: Role;
+  grantedBy: string | null;
+  grantedAt: string | null;
+  notes: string | null;
+  revokedAt: string | null;
+};
+
+const CACHE_TTL_MS = 60 * 1000;
+
+function normalizeEmail(email: string) {
+  return (email || "").trim().toLowerCase();
+}
+
+function toPortalUser(record: { id: string; fields: Record<string, any> }): PortalUser | null {
+  const fields = record.fields || {};
+  const email = normalizeEmail(String(fields["Email"] || ""));
+  const revokedAt = fields["Revoked At"] || null;
+  const role = revokedAt ? "lp" : fields["Role"];
+  if (!email || !isRole(role)) return null;
+  return {
+    id: record.id,
+    email,
+    role,
+    grantedBy: fields["Granted By"] || null,
+    grantedAt: fields["Granted At"] || null,
+    notes: fields["Notes"] || null,
+    revokedAt,
+  };
+}
+
+async function loadDirectory(): Promise<Map<string, PortalUser>> {
+  const records = await getCachedTable(PORTAL_USERS_TABLE, { ttlMs: CACHE_TTL_MS });
+  const users = new Map<string, PortalUser>();
+  for (const record of records) {
+    const user = toPortalUser(record);
+    if (user) users.set(user.email, user);
+  }
+  return users;
+}
+
+export async function invalidateDirectory() {
+  await invalidateTable(PORTAL_USERS_TABLE);
+}
+
+export async function listPortalUsers(): Promise<PortalUser[]> {
+  const users = await loadDirectory();
+  return Array.from(users.values())
+    .filter((user) => !user.revokedAt)
+    .sort((a, b) => a.email.localeCompare(b.email));
+}
+
+export async function getPortalUser(email: string): Promise<PortalUser | null> {
+  const users = await loadDirectory();
+  return users.get(normalizeEmail(email)) ?? null;
+}
+
+// Directory entry first (a revoked one counts as plain LP), then the
+// ADMIN_EMAILS bootstrap list. Throws when the directory cannot be read.
+export async function lookupUserRole(email: string): Promise<Role> {
+  const user = await getPortalUser(email);
+  if (user) return user.role;
+  return isAdmin(email) ? "admin" : "lp";
+}
+
+// As `lookupUserRole`, but a failed lookup never grants a staff role.
+export async function resolveUserRole(email: string): Promise<Role> {
+  try {
+    return await lookupUserRole(email);
+  } catch (error) {
+    console.error("[user-directory] Failed to resolve role", error);
+    return "lp";
+  }
+}
+
+// Investors sign in through their Contact record and advisors through an
+// active delegation; staff without either need a directory entry (or the
+// bootstrap admin list, unless the directory has revoked them).
+export async function canSignIn(email: string): Promise<boolean> {
+  let user: PortalUser | null = null;
+  try {
+    user = await getPortalUser(email);
+  } catch (error) {
+    console.error("[user-directory] Failed to look up portal user", error);
+  }
+  if (user && !user.revokedAt) return true;
+  if (!user && isAdmin(email)) return true;
+  if (await isEmailInAirtableContacts(email)) return true;
+  try {
+    return await hasActiveDelegation(email);
+  } catch (error) {
+    console.error("[user-directory] Failed to look up delegations", error);
+    return false;
+  }
+}
+
+export async function grantPortalRole(input: {
+  email: string;
+  role: Role;
+  grantedBy: string;
+  notes?: string | null;
+}): Promise<PortalUser> {
+  const email = normalizeEmail(input.email);
+  const fields = {
+    Email: email,
+    Role: input.role,
+    "Granted By": normalizeEmail(input.grantedBy),
+    "Granted At": new Date().toISOString(),
+    Notes: input.notes ?? "",
+    // Cleared by typecast; re-granting lifts a revocation.
+    "Revoked At": "",
+  };
+
+  const existing = await getPortalUser(email);
+  const record = existing
+    ? await airtableLimiter.schedule(() => base(PORTAL_USERS_TABLE).update(existing.id, fields, { typecast: true }))
+    : await airtableLimiter.schedule(() => base(PORTAL_USERS_TABLE).create(fields, { typecast: true }));
+
+  await invalidateDirectory();
+  return toPortalUser({ id: record.id, fields: record.fields as Record<string, any> })!;
+}
+
+// Bootstrap admins without an entry get one, revoked, so the list no longer
+// applies to them.
+export async function revokePortalUser(email: string): Promise<boolean> {
+  const normalized = normalizeEmail(email);
+  const existing = await getPortalUser(normalized);
+  if (existing?.revokedAt || (!existing && !isAdmin(normalized))) return false;
+
+  const fields = { "Revoked At": new Date().toISOString() };
+  if (existing) {
+    await airtableLimiter.schedule(() => base(PORTAL_USERS_TABLE).update(existing.id, fields, { typecast: true }));
+  } else {
+    await airtableLimiter.schedule(() =>
+      base(PORTAL_USERS_TABLE).create({ Email: normalized, Role: "lp", ...fields }, { typecast: true })
+    );
+  }
+  await invalidateDirectory();
+  return true;
+}
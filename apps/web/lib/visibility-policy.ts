@@ -0,0 +1,85 @@
+import { createHash } from "crypto";
+import { VISIBILITY_RULES_TABLE } from "./airtable";
+import { getCachedTable, invalidateTable } from "./data-access";
+import { isAdminRole, type Role } from "./is-admin";
+
+// VisibilityRules table columns: tableId, fieldId, visibleToLP,
+// visibleToPartners, notes. A field without a rule is hidden from LPs and
+// partners.
+export type VisibilityRule = {
+  id: string;
+  tableId: string;
+  fieldId: string;
+  visibleToLP: boolean;
+  visibleToPartners: boolean;
+  notes: string | null;
+};
+
+export type VisibilityPolicy = {
+  tableId: string;
+  // Changes whenever a rule for the table does, in every process alike.
+  version: string;
+  rules: VisibilityRule[];
+};
+
+// Rules are read through the shared table cache: they expire with its TTL and
+// are dropped at once by `invalidateVisibilityPolicy` and the Airtable webhook.
+const POLICY_TTL_MS = Number(process.env.VISIBILITY_POLICY_TTL_MS) || 60 * 1000;
+
+function toRule(record: { id: string; fields: Record<string, any> }): VisibilityRule | null {
+  const fields = record.fields || {};
+  const tableId = typeof fields["tableId"] === "string" ? fields["tableId"] : "";
+  const fieldId = typeof fields["fieldId"] === "string" ? fields["fieldId"] : "";
+  if (!tableId || !fieldId) return null;
+  return {
+    id: record.id,
+    tableId,
+    fieldId,
+    visibleToLP: Boolean(fields["visibleToLP"]),
+    visibleToPartners: Boolean(fields["visibleToPartners"]),
+    notes: fields["notes"] || null,
+  };
+}
+
+function policyVersion(rules: VisibilityRule[]) {
+  const hash = createHash("sha256");
+  for (const rule of rules) {
+    hash.update(`${rule.fieldId}\u0000${rule.visibleToLP ? 1 : 0}${rule.visibleToPartners ? 1 : 0}\n`);
+  }
+  return hash.digest("hex").slice(0, 12);
+}
+
+export async function listVisibilityRules(): Promise<VisibilityRule[]> {
+  const records = await getCachedTable(VISIBILITY_RULES_TABLE, { ttlMs: POLICY_TTL_MS });
+  return records.map(toRule).filter((rule): rule is VisibilityRule => Boolean(rule));
+}
+
+export async function getVisibilityPolicy(tableId: string): Promise<VisibilityPolicy> {
+  const rules = (await listVisibilityRules())
+    .filter((rule) => rule.tableId === tableId)
+    .sort((a, b) => a.fieldId.localeCompare(b.fieldId));
+  return { tableId, version: policyVersion(rules), rules };
+}
+
+export async function invalidateVisibilityPolicy() {
+  await invalidateTable(VISIBILITY_RULES_TABLE);
+}
+
+// Fields the role may see under the policy; null means every field (admins).
+export function allowedFieldsFor(policy: VisibilityPolicy, role: Role): Set<string> | null {
+  if (isAdminRole(role)) return null;
+  const allowed = new Set<string>();
+  for (const rule of policy.rules) {
+    if (role === "lp" ? rule.visibleToLP : rule.visibleToPartners) allowed.add(rule.fieldId);
+  }
+  return allowed;
+}
+
+export function filterFields(fields: Record<string, any>, allowed: Set<string> | null): Record<string, any> {
+  if (!allowed) return { ...fields };
+  const kept: Record<string, any> = {};
+  Object.keys(fields).forEach((key) => {
+    if (allowed.has(key)) kept[key] = fields[key];
+  });
+  return kept;
+}
@@ -0,0 +1,149 @@
+import type { WebhookChangeHandler, WebhookRecordChange } from "./airtable-webhooks";
+import { PARTNER_INVESTMENTS_TABLE, TRANSACTIONS_TABLE } from "./airtable";
+import { MAX_QUERY_LIMIT, buildFieldChangeEvents, listAuditEntries, recordAuditEvents, type AuditEvent } from "./audit";
+import { invalidateTable } from "./data-access";
+import { invalidateDelegations } from "./delegations";
+import { publishRecordChanges, publishRefresh } from "./live-updates";
+import { captureNavSnapshots } from "./nav-snapshots";
+import { runNotificationCycle } from "./notifications";
+import { invalidateDirectory } from "./user-directory";
+import { invalidateVisibilityPolicy } from "./visibility-policy";
+
+// Webhook payloads name tables by id. When an id is not configured, a change
+// to any table is treated as possibly touching it.
+const TABLE_IDS = {
+  partnerInvestments: process.env.AIRTABLE_PARTNER_INVESTMENTS_TABLE_ID || "",
+  visibilityRules: process.env.AIRTABLE_VISIBILITY_RULES_TABLE_ID || "",
+  delegations: process.env.AIRTABLE_DELEGATIONS_TABLE_ID || "",
+  portalUsers: process.env.AIRTABLE_PORTAL_USERS_TABLE_ID || "",
+  transactions: process.env.AIRTABLE_TRANSACTIONS_TABLE_ID || "",
+};
+
+function touches(changes: WebhookRecordChange[], tableId: string) {
+  return changes.some((change) => !tableId || change.tableId === tableId);
+}
+
+const cacheInvalidationHandler: WebhookChangeHandler = {
+  name: "cache-invalidation",
+  async handle(changes) {
+    if (touches(changes, TABLE_IDS.partnerInvestments)) await invalidateTable(PARTNER_INVESTMENTS_TABLE);
+    if (touches(changes, TABLE_IDS.visibilityRules)) await invalidateVisibilityPolicy();
+    if (touches(changes, TABLE_IDS.delegations)) await invalidateDelegations();
+    if (touches(changes, TABLE_IDS.portalUsers)) await invalidateDirectory();
+    if (touches(changes, TABLE_IDS.transactions)) await invalidateTable(TRANSACTIONS_TABLE);
+  },
+};
+
+// Pushes edits to open LP streams. Created or deleted investments and changes
+// to who-sees-what make every stream re-scope instead; that needs the table ids,
+// otherwise streams pick such changes up on their periodic re-scope.
+const liveUpdatesHandler: WebhookChangeHandler = {
+  name: "live-updates",
+  async handle(changes) {
+    const investments = changes.filter(
+      (change) => !TABLE_IDS.partnerInvestments || change.tableId === TABLE_IDS.partnerInvestments
+    );
+    const others = changes.filter((change) => !investments.includes(change));
+
+    publishRecordChanges(investments.filter((change) => change.kind === "changed").map((change) => change.recordId));
+    if (TABLE_IDS.partnerInvestments && investments.some((change) => change.kind !== "changed")) {
+      publishRefresh("records");
+    } else if (
+      others.some((change) =>
+        [TABLE_IDS.visibilityRules, TABLE_IDS.delegations, TABLE_IDS.portalUsers].filter(Boolean).includes(change.tableId)
+      )
+    ) {
+      publishRefresh("access");
+    } else if (TABLE_IDS.transactions && others.some((change) => change.tableId === TABLE_IDS.transactions)) {
+      publishRefresh("transactions");
+    }
+  },
+};
+
+function hasAttachmentValue(values: Record<string, unknown>) {
+  return Object.values(values).some(
+    (value) => Array.isArray(value) && value.some((item) => item && typeof item === "object" && "filename" in item)
+  );
+}
+
+// Only Partner Investments whose attachment cells changed are re-scanned.
+const notificationHandler: WebhookChangeHandler = {
+  name: "notifications",
+  async handle(changes, context) {
+    const recordIds = changes
+      .filter((change) => change.kind !== "destroyed")
+      .filter((change) => !TABLE_IDS.partnerInvestments || change.tableId === TABLE_IDS.partnerInvestments)
+      .filter((change) => hasAttachmentValue(change.current))
+      .map((change) => change.recordId);
+    if (!recordIds.length) return;
+    await runNotificationCycle(context.portalUrl, { recordIds });
+  },
+};
+
+// Runs after cache invalidation, so the snapshot reads the edited records.
+const navSnapshotHandler: WebhookChangeHandler = {
+  name: "nav-snapshots",
+  async handle(changes) {
+    const recordIds = changes
+      .filter((change) => change.kind !== "destroyed")
+      .filter((change) => !TABLE_IDS.partnerInvestments || change.tableId === TABLE_IDS.partnerInvestments)
+      .map((change) => change.recordId);
+    if (!recordIds.length) return;
+    await captureNavSnapshots({ source: "webhook", recordIds });
+  },
+};
+
+function auditKey(event: { action: string; recordId?: string | null; field?: string | null }) {
+  return `${event.action}|${event.recordId ?? ""}|${event.field ?? ""}`;
+}
+
+// Edits made through the portal's own API are audited where they happen (and
+// the audit and access logs are themselves written through the API), so only
+// changes made directly in Airtable are recorded here. Rows carry the base
+// transaction as their request id, so a retry skips the ones already written.
+const auditHandler: WebhookChangeHandler = {
+  name: "audit",
+  async handle(changes, context) {
+    let events: AuditEvent[] = [];
+    for (const change of changes) {
+      if (change.source === "publicApi") continue;
+      const base = {
+        actorEmail: change.actorEmail || `airtable:${change.source}`,
+        actorRole: "airtable" as const,
+        table: change.tableId,
+        recordId: change.recordId,
+        requestId: `airtable:${change.transaction}`,
+        details: { source: change.source, transaction: change.transaction },
+      };
+      if (change.kind === "created") {
+        events.push({ ...base, action: "airtable.create", after: change.current });
+      } else if (change.kind === "destroyed") {
+        events.push({ ...base, action: "airtable.destroy" });
+      } else {
+        events.push(
+          ...buildFieldChangeEvents(
+            { ...base, action: "airtable.update" },
+            change.previous,
+            change.current,
+            Object.keys(change.current)
+          )
+        );
+      }
+    }
+    if (context.retry) {
+      const requestIds = Array.from(new Set(events.map((event) => event.requestId!)));
+      const written = await Promise.all(requestIds.map((requestId) => listAuditEntries({ requestId, limit: MAX_QUERY_LIMIT })));
+      const recorded = new Set(written.flat().map(auditKey));
+      events = events.filter((event) => !recorded.has(auditKey(event)));
+    }
+    await recordAuditEvents(events);
+  },
+};
+
+export const DEFAULT_WEBHOOK_HANDLERS: WebhookChangeHandler[] = [
+  cacheInvalidationHandler,
+  liveUpdatesHandler,
+  notificationHandler,
+  navSnapshotHandler,
+  auditHandler,
+];
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { investmentIrr, portfolioIrr } from "./performance";
+import type { Transaction } from "./transactions";
+import { xirr, type CashFlow } from "./xirr";
+
+function flow(date: string, amount: number): CashFlow {
+  return { date: new Date(`${date}T00:00:00Z`), amount };
+}
+
+function transaction(type: Transaction["type"], date: string, amount: number): Transaction {
+  return { id: `${type}-${date}`, investmentId: "recInvestment1", type, date, amount, description: null };
+}
+
+describe("xirr", () => {
+  it("matches the spreadsheet XIRR example", () => {
+    const rate = xirr([
+      flow("2008-01-01", -10_000),
+      flow("2008-03-01", 2_750),
+      flow("2008-10-30", 4_250),
+      flow("2009-02-15", 3_250),
+      flow("2009-04-01", 2_750),
+    ]);
+    expect(rate).toBeCloseTo(0.373362533, 6);
+  });
+
+  it("returns a negative rate for a loss", () => {
+    expect(xirr([flow("2021-01-01", -1_000), flow("2022-01-01", 800)])).toBeCloseTo(-0.2, 6);
+  });
+
+  it("nets flows on the same day", () => {
+    const rate = xirr([flow("2021-01-01", -1_000), flow("2021-01-01", 200), flow("2022-01-01", 880)]);
+    expect(rate).toBeCloseTo(0.1, 6);
+  });
+
+  it("returns null unless money goes both ways", () => {
+    expect(xirr([flow("2021-01-01", -1_000), flow("2022-01-01", -500)])).toBeNull();
+    expect(xirr([flow("2021-01-01", 1_000), flow("2022-01-01", 500)])).toBeNull();
+    expect(xirr([])).toBeNull();
+  });
+
+  it("finds rates far from the guess", () => {
+    expect(xirr([flow("2021-01-01", -1_000), flow("2022-01-01", 11_000)])).toBeCloseTo(10, 4);
+    expect(xirr([flow("2021-01-01", -1_000), flow("2022-01-01", 10)])).toBeCloseTo(-0.99, 6);
+  });
+});
+
+describe("investmentIrr", () => {
+  const now = new Date("2024-06-30T00:00:00Z");
+
+  it("takes NAV as the terminal value at the period end", () => {
+    const rate = investmentIrr(
+      {
+        fields: {
+          "Paid-in Capital": "$1,000.00",
+          "Paid Dates": "2021-01-01",
+          "Total NAV": 1_210,
+          "Period Ending": "2023-01-01",
+        },
+      },
+      now
+    );
+    expect(rate).toBeCloseTo(0.1, 6);
+  });
+
+  it("uses the ledger when there is one", () => {
+    const rate = investmentIrr(
+      {
+        fields: { "Total NAV": 605, "Period Ending": "2023-01-01" },
+        transactions: [
+          transaction("contribution", "2021-01-01", 1_000),
+          transaction("capital-call", "2020-12-01", 1_000),
+          transaction("distribution", "2022-01-01", 550),
+        ],
+      },
+      now
+    );
+    expect(rate).toBeCloseTo(0.1, 6);
+  });
+
+  it("is null when contributions cannot be dated", () => {
+    expect(investmentIrr({ fields: { "Paid-in Capital": 1_000, "Total NAV": 1_210 } }, now)).toBeNull();
+  });
+
+  it("is null rather than a loss when the NAV is hidden", () => {
+    const fields = {
+      "Paid-in Capital": 1_000,
+      "Paid Dates": "2021-01-01",
+      Distributions: 300,
+      "Distribution Dates": "2022-01-01",
+      "Period Ending": "2023-01-01",
+    };
+    expect(investmentIrr({ fields }, now)).toBeNull();
+    expect(
+      investmentIrr(
+        {
+          fields: { "Period Ending": "2023-01-01" },
+          transactions: [transaction("contribution", "2021-01-01", 1_000), transaction("distribution", "2022-01-01", 300)],
+        },
+        now
+      )
+    ).toBeNull();
+    // A visible NAV of zero is a written-off position, not a hidden one.
+    expect(investmentIrr({ fields: { ...fields, "Total NAV": 0 } }, now)).toBeLessThan(0);
+  });
+
+  it("does not stand the commitment in for a missing paid-in figure", () => {
+    const fields = { Commitment: 1_000, "Paid Dates": "2021-01-01", "Total NAV": 1_210, "Period Ending": "2023-01-01" };
+    expect(investmentIrr({ fields }, now)).toBeNull();
+  });
+});
+
+describe("portfolioIrr", () => {
+  it("pools every investment's flows", () => {
+    const rate = portfolioIrr([
+      { fields: { "Paid-in Capital": 1_000, "Paid Dates": "2021-01-01", "Total NAV": 1_210, "Period Ending": "2023-01-01" } },
+      { fields: { "Paid-in Capital": 1_000, "Paid Dates": "2021-01-01", "Total NAV": 1_440, "Period Ending": "2023-01-01" } },
+      { fields: { Commitment: 5_000 } },
+      // NAV hidden from this viewer: left out rather than counted as a loss.
+      { fields: { "Paid-in Capital": 1_000, "Paid Dates": "2021-01-01", "Period Ending": "2023-01-01" } },
+    ]);
+    expect(rate).toBeCloseTo(Math.sqrt(2_650 / 2_000) - 1, 6);
+  });
+});
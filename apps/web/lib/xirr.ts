@@ -0,0 +1,72 @@
+export type CashFlow = {
+  date: Date;
+  // Negative for money the investor pays in, positive for money received.
+  amount: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOLERANCE = 1e-7;
+const MAX_NEWTON_STEPS = 100;
+const MAX_BISECTION_STEPS = 300;
+// Rates at or below -100% make the discount factor undefined.
+const MIN_RATE = -0.999999;
+const MAX_RATE = 1e6;
+
+function presentValue(flows: CashFlow[], start: number, rate: number) {
+  let value = 0;
+  let derivative = 0;
+  for (const flow of flows) {
+    const years = (flow.date.getTime() - start) / DAY_MS / 365;
+    const factor = Math.pow(1 + rate, years);
+    value += flow.amount / factor;
+    derivative -= (years * flow.amount) / (factor * (1 + rate));
+  }
+  return { value, derivative };
+}
+
+// Annualised internal rate of return of irregularly dated cash flows, on the
+// same actual/365 convention as the spreadsheet XIRR function. Returns null
+// when the flows do not both pay in and pay out, or no rate balances them.
+export function xirr(flows: CashFlow[], guess = 0.1): number | null {
+  const dated = flows.filter((flow) => Number.isFinite(flow.amount) && flow.amount !== 0 && !Number.isNaN(flow.date.getTime()));
+  if (!dated.some((flow) => flow.amount < 0) || !dated.some((flow) => flow.amount > 0)) return null;
+
+  const start = Math.min(...dated.map((flow) => flow.date.getTime()));
+  const scale = Math.max(...dated.map((flow) => Math.abs(flow.amount)));
+
+  // Newton's method converges quickly from a sensible guess...
+  let rate = guess;
+  for (let step = 0; step < MAX_NEWTON_STEPS; step += 1) {
+    const { value, derivative } = presentValue(dated, start, rate);
+    if (Math.abs(value) / scale < TOLERANCE) return rate;
+    if (!derivative || !Number.isFinite(derivative)) break;
+    const next = rate - value / derivative;
+    if (!Number.isFinite(next) || next <= MIN_RATE) break;
+    if (Math.abs(next - rate) < TOLERANCE) return next;
+    rate = next;
+  }
+
+  // ...and bisection catches the cases where it overshoots or stalls.
+  let low = MIN_RATE;
+  let high = 1;
+  let lowValue = presentValue(dated, start, low).value;
+  let highValue = presentValue(dated, start, high).value;
+  while (Math.sign(lowValue) === Math.sign(highValue) && high < MAX_RATE) {
+    high *= 10;
+    highValue = presentValue(dated, start, high).value;
+  }
+  if (Math.sign(lowValue) === Math.sign(highValue)) return null;
+
+  for (let step = 0; step < MAX_BISECTION_STEPS; step += 1) {
+    const mid = (low + high) / 2;
+    const midValue = presentValue(dated, start, mid).value;
+    if (Math.abs(midValue) / scale < TOLERANCE || high - low < TOLERANCE) return mid;
+    if (Math.sign(midValue) === Math.sign(lowValue)) {
+      low = mid;
+      lowValue = midValue;
+    } else {
+      high = mid;
+    }
+  }
+  return null;
+}
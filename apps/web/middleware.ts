@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
-import { getToken } from "next-auth/jwt";
-import { isAdmin } from "@/lib/is-admin";
+import { getToken, type JWT } from "next-auth/jwt";
+import { ROLE_RECHECK_MS, isAdminRole, isRole } from "@/lib/is-admin";
 
 const AUTH_SECRET = process.env.NEXTAUTH_SECRET || "development-secret";
 
@@ -10,12 +10,60 @@ async function ensureAuthenticated(req: NextRequest) {
   return token;
 }
 
+type SessionClaims = Pick<JWT, "role" | "mfaRequired" | "mfaVerified">;
+
+// The middleware cannot reach the user directory, so a stale role claim is
+// refreshed through the session endpoint: its jwt callback re-resolves the
+// role and reissues the cookie, which is passed on to the browser.
+async function refreshClaims(req: NextRequest): Promise<{ claims: SessionClaims; cookies: string[] } | null> {
+  try {
+    const response = await fetch(new URL("/api/auth/session", req.nextUrl.origin), {
+      headers: { cookie: req.headers.get("cookie") || "" },
+      cache: "no-store",
+    });
+    if (!response.ok) return null;
+    const session = (await response.json()) as { user?: { role?: unknown; mfaRequired?: boolean; mfaVerified?: boolean } };
+    if (!session?.user) return null;
+    return {
+      claims: {
+        role: isRole(session.user.role) ? session.user.role : "lp",
+        mfaRequired: Boolean(session.user.mfaRequired),
+        mfaVerified: Boolean(session.user.mfaVerified),
+      },
+      cookies: response.headers.getSetCookie(),
+    };
+  } catch (error) {
+    console.error("[middleware] Failed to refresh session claims", error);
+    return null;
+  }
+}
+
+async function resolveClaims(req: NextRequest, token: JWT) {
+  if (token.roleCheckedAt && Date.now() - token.roleCheckedAt < ROLE_RECHECK_MS) {
+    return { claims: token as SessionClaims, cookies: [] as string[] };
+  }
+  const refreshed = await refreshClaims(req);
+  // Without a fresh answer, staff roles are not taken on trust.
+  return refreshed ?? { claims: { ...token, role: isAdminRole(token.role) ? "lp" : token.role } as SessionClaims, cookies: [] };
+}
+
+function withCookies(response: NextResponse, cookies: string[]) {
+  cookies.forEach((cookie) => response.headers.append("set-cookie", cookie));
+  return response;
+}
+
 function buildSignInRedirect(req: NextRequest) {
   const signInUrl = new URL("/auth/signin", req.nextUrl.origin);
   signInUrl.searchParams.set("callbackUrl", req.nextUrl.href);
   return NextResponse.redirect(signInUrl);
 }
 
+function buildMfaRedirect(req: NextRequest) {
+  const mfaUrl = new URL("/auth/mfa", req.nextUrl.origin);
+  mfaUrl.searchParams.set("callbackUrl", req.nextUrl.pathname + req.nextUrl.search);
+  return NextResponse.redirect(mfaUrl);
+}
+
 export async function middleware(req: NextRequest) {
   const { pathname } = req.nextUrl;
 
@@ -24,10 +72,15 @@ export async function middleware(req: NextRequest) {
     if (!token) {
       return buildSignInRedirect(req);
     }
-    if (!isAdmin(token.email)) {
-      return NextResponse.redirect(new URL("/lp", req.nextUrl.origin));
+    const { claims, cookies } = await resolveClaims(req, token);
+    if (!isAdminRole(claims.role)) {
+      return withCookies(NextResponse.redirect(new URL("/lp", req.nextUrl.origin)), cookies);
+    }
+    // Admins must always present a second factor, enrolled or not.
+    if (!claims.mfaVerified) {
+      return withCookies(buildMfaRedirect(req), cookies);
     }
-    return NextResponse.next();
+    return withCookies(NextResponse.next(), cookies);
   }
 
   if (pathname.startsWith("/lp")) {
@@ -35,7 +88,11 @@ export async function middleware(req: NextRequest) {
     if (!token) {
       return buildSignInRedirect(req);
     }
-    return NextResponse.next();
+    const { claims, cookies } = await resolveClaims(req, token);
+    if (claims.mfaRequired && !claims.mfaVerified) {
+      return withCookies(buildMfaRedirect(req), cookies);
+    }
+    return withCookies(NextResponse.next(), cookies);
   }
 
   return NextResponse.next();
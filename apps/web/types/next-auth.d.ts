@@ -1,19 +1,28 @@
 import { type DefaultSession } from "next-auth";
+import type { Role } from "@/lib/is-admin";
 
 declare module "next-auth" {
   interface Session {
     user?: DefaultSession["user"] & {
-      role?: "admin" | "lp" | "partner";
+      role?: Role;
+      mfaEnrolled?: boolean;
+      mfaRequired?: boolean;
+      mfaVerified?: boolean;
     };
   }
 
   interface User {
-    role?: "admin" | "lp" | "partner";
+    role?: Role;
   }
 }
 
 declare module "next-auth/jwt" {
   interface JWT {
-    role?: "admin" | "lp" | "partner";
+    role?: Role;
+    // Epoch ms of the last directory lookup behind `role`.
+    roleCheckedAt?: number;
+    mfaEnrolled?: boolean;
+    mfaRequired?: boolean;
+    mfaVerified?: boolean;
   }
 }
@@ -0,0 +1,15 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    environment: "node",
+    // lib/airtable.ts builds its client on import; nothing reaches the network.
+    env: { AIRTABLE_API_KEY: "keyTest", AIRTABLE_BASE_ID: "appTest" },
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**"],
+  },
+});